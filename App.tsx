@@ -1,191 +1,260 @@
 import React, { useState, useEffect, useRef } from 'react';
-import jsQR from 'jsqr';
-import { AppStep, Stage, User, QCReport, CheckpointResult, DeviceStatus } from './types';
-import { getStoredUsers, saveUsers, saveReport, getStoredReports, getDeviceStatus, updateDeviceStatus, getDeviceStatuses } from './storage';
-import { FQC_CHECKPOINTS, PACKAGING_CHECKPOINTS } from './constants.tsx';
+import { AppStep, Stage, User, Role, QCReport, CheckpointResult, Evidence, DeviceStatus, MediaRef, SyncStats, AuditAction, AuditEvent, ChecklistTemplate, StageDefinition, StageId, ReworkTicket, InstrumentRef, DefectCode, Lot, SerialFormat, InspectionDraft, Symbology } from './types';
+import { repository } from './storage';
+import { SESSION_IDLE_TIMEOUT_MS, MIN_PASSWORD_LENGTH, INITIAL_ADMIN_USER, ROLES, ROLE_LABELS, ROLE_PERMISSIONS, PACKING_STAGE_ID, DEFAULT_MIN_EVIDENCE } from './constants.tsx';
 import { 
   CameraIcon, 
   UserIcon, 
   ChevronRightIcon, 
   CheckIcon, 
-  XIcon, 
   ArrowLeftIcon,
   EditIcon,
   TrashIcon,
   PlusIcon,
   SaveIcon
 } from './components/Icons';
-import { suggestFailureReason } from './services/geminiService';
-
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
-};
-
-const ZoomableImage: React.FC<{ src: string; onRemove?: () => void }> = ({ src, onRemove }) => {
-  const [scale, setScale] = useState(1);
-
-  const handleZoomIn = (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setScale(prev => Math.min(prev + 0.25, 4));
-  };
-
-  const handleZoomOut = (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setScale(prev => Math.max(prev - 0.25, 0.5));
-  };
-
-  return (
-    <div className="relative w-full h-full bg-slate-900 flex items-center justify-center overflow-hidden rounded-xl">
-      <img
-        src={src}
-        alt="Uploaded Preview"
-        style={{ transform: `scale(${scale})` }}
-        className="max-w-full max-h-full object-contain transition-transform duration-200 ease-out"
-      />
-      <div className="absolute bottom-3 left-3 flex gap-2 z-10">
-        <button 
-          onClick={handleZoomOut}
-          className="bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-lg border border-white/20 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-colors"
-        >
-          - Zoom
-        </button>
-        <button 
-          onClick={handleZoomIn}
-          className="bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-lg border border-white/20 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-colors"
-        >
-          + Zoom
-        </button>
-      </div>
-      {onRemove && (
-        <button 
-          onClick={(e) => { e.preventDefault(); onRemove(); }}
-          className="absolute top-3 right-3 bg-red-600/80 text-white p-2 rounded-full hover:bg-red-600 transition-colors z-10 shadow-lg"
-        >
-          <XIcon className="w-4 h-4" />
-        </button>
-      )}
-    </div>
-  );
-};
+import { aiAssistant } from './services/aiAssistant';
+import { saveImage, saveClip, deleteMedia, getMediaBlob } from './services/mediaStore';
+import { PhotoCode, photoMismatch, photoSerial, readPhotoCodes } from './services/photoCodes';
+import { missingEvidence, describeMinimum, aiVerdict } from './services/evidence';
+import { isRecordingSupported, ClipKind, RecordedClip } from './services/recorder';
+import { subscribeSyncStats, retryFailed } from './services/syncQueue';
+import { authenticate, changePassword, hashPassword, isLocked, watchIdle } from './services/auth';
+import { hasPermission, canInspectStage, describeStageAccess } from './services/permissions';
+import { checkStageEntry, getStageStatus, stageLabel } from './services/pipeline';
+import { reportResult, summarizeUnits } from './services/rework';
+import { reportsToCsv, measurementsToCsv, defectsToCsv, downloadCsv } from './services/reportExport';
+import { printReport } from './services/reportPrint';
+import { DecodedCode, SYMBOLOGIES } from './services/barcode';
+import { checkSerial } from './services/serialFormat';
+import { latestReportAt, isRepeat, checkRepeat, describeRepeat } from './services/inspectionHistory';
+import { draftKey, draftMediaIds } from './services/drafts';
+import { PASS_FAIL_SPEC, evaluateCheckpoint, isAutoEvaluated, hasValue } from './services/checkpointSpec';
+import { DEFECT_SEVERITIES, defectsFor, toDefectRef, summarizeDefects } from './services/defects';
+import ZoomableImage from './components/ZoomableImage';
+import PhotoAnnotator from './components/PhotoAnnotator';
+import EvidenceList from './components/EvidenceList';
+import ClipRecorder from './components/ClipRecorder';
+import BarcodeScanner from './components/BarcodeScanner';
+import PhotoCodes, { PhotoCodeOverlay } from './components/PhotoCodes';
+import MigrationReportPanel from './components/MigrationReportPanel';
+import AuditLogViewer from './components/AuditLogViewer';
+import TemplateEditor from './components/TemplateEditor';
+import PipelineEditor from './components/PipelineEditor';
+import ReworkQueue from './components/ReworkQueue';
+import DefectCatalogEditor from './components/DefectCatalogEditor';
+import DefectBadge, { SEVERITY_STYLES } from './components/DefectBadge';
+import LotManager from './components/LotManager';
+import AggregationStation from './components/AggregationStation';
+import SerialFormatEditor from './components/SerialFormatEditor';
+import DeviceHistory from './components/DeviceHistory';
+import DraftList from './components/DraftList';
+import LotPicker from './components/LotPicker';
+import { checkLotSample, nonconformingCount } from './services/lots';
+import CheckpointInput from './components/CheckpointInput';
+import InstrumentBar from './components/InstrumentBar';
+import { subscribeInstrument, InstrumentState } from './services/instruments';
+import { recordAudit, auditableUser } from './services/auditLog';
 
 const App: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.STAGE_SELECTION);
   const [selectedStage, setSelectedStage] = useState<Stage>(null);
+  const [stages, setStages] = useState<StageDefinition[]>([]);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [deviceId, setDeviceId] = useState('');
-  const [deviceImage, setDeviceImage] = useState<string | null>(null);
+  const [deviceImage, setDeviceImage] = useState<MediaRef | null>(null);
   const [checkpoints, setCheckpoints] = useState<CheckpointResult[]>([]);
+  const [activeTemplate, setActiveTemplate] = useState<ChecklistTemplate | null>(null);
+  const [defectCatalog, setDefectCatalog] = useState<DefectCode[]>([]);
+  // Ticket being closed by the current re-inspection, and the one the last submission opened
+  const [reworkTicket, setReworkTicket] = useState<ReworkTicket | null>(null);
+  const [openedTicket, setOpenedTicket] = useState<ReworkTicket | null>(null);
+  // Open lots at the selected stage, the one being sampled, and the lot the last submission decided
+  const [openLots, setOpenLots] = useState<Lot[]>([]);
+  const [activeLot, setActiveLot] = useState<Lot | null>(null);
+  const [decidedLot, setDecidedLot] = useState<Lot | null>(null);
+  const [serialFormats, setSerialFormats] = useState<SerialFormat[]>([]);
+  // Latest earlier report at this stage, and why a repeat inspection was started
+  const [previousReport, setPreviousReport] = useState<QCReport | null>(null);
+  const [repeatReason, setRepeatReason] = useState<string | null>(null);
+  const [idSymbology, setIdSymbology] = useState<Symbology | null>(null);
+  // Codes read from the device photo; null until it has been read
+  const [photoCodes, setPhotoCodes] = useState<PhotoCode[] | null>(null);
+  const [isReadingPhoto, setIsReadingPhoto] = useState(false);
+  // Checkpoint photos waiting for the AI pre-inspection
+  const [inspectingPhotos, setInspectingPhotos] = useState<string[]>([]);
+  // The signed-in user's unsubmitted checklists, every one for the dashboard,
+  // and when the open checklist was started
+  const [myDrafts, setMyDrafts] = useState<InspectionDraft[]>([]);
+  const [allDrafts, setAllDrafts] = useState<InspectionDraft[]>([]);
+  const [draftStartedAt, setDraftStartedAt] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [annotating, setAnnotating] = useState<{ id: string; index: number } | null>(null);
+  const [recordingClip, setRecordingClip] = useState<{ id: string; kind: ClipKind } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [scanning, setScanning] = useState(false);
-  
-  const startScanning = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setScanning(true);
-      }
-    } catch (err) {
-      console.error('Error accessing camera:', err);
-      setError('Camera access denied. Please enable camera permissions to scan QR codes/barcodes.');
-    }
+  const [dashboardReports, setDashboardReports] = useState<QCReport[]>([]);
+  const [dashboardStatuses, setDashboardStatuses] = useState<DeviceStatus[]>([]);
+  const [syncStats, setSyncStats] = useState<SyncStats | null>(null);
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
+  // Label a checkpoint had when editing started, so a rename is audited once on commit
+  const editingOriginalLabel = useRef<string | null>(null);
+
+  useEffect(() => subscribeSyncStats(setSyncStats), []);
+
+  const [instrumentState, setInstrumentState] = useState<InstrumentState | null>(null);
+  useEffect(() => subscribeInstrument(setInstrumentState), []);
+
+  const audit = (action: AuditAction, target: AuditEvent['target'], details: Pick<AuditEvent, 'before' | 'after' | 'context'> = {}) => {
+    recordAudit(repository, { actor: currentUser?.userId ?? 'system', action, target, ...details });
   };
+
+  const checkpointContext = (mandatory: boolean) => ({
+    deviceId, stage: selectedStage, mandatory, templateId: activeTemplate?.templateId, templateVersion: activeTemplate?.version
+  });
+
+  // Run schema migrations as soon as the app starts
+  useEffect(() => {
+    repository.initialize().catch(err => {
+      console.error('Storage initialisation failed:', err);
+      setError('Storage unavailable. Please check the connection and reload.');
+    });
+  }, []);
   
-  const stopScanning = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => track.stop());
-      videoRef.current.srcObject = null;
-      setScanning(false);
-    }
+  // True when the ID agrees with the label in the device photo, or the inspector accepts the difference
+  const confirmPhotoMatch = (id: string) => {
+    const mismatch = photoMismatch(id, photoCodes ?? [], serialFormats);
+    return mismatch.length === 0 || confirm(`The label in the device photo reads ${mismatch.join(' or ')}, not ${id}. Continue with ${id}?`);
   };
-  
-  // Function to detect QR codes/barcodes from video stream
-  const detectCode = () => {
-    if (!videoRef.current || !scanning) return;
-      
-    try {
-      const video = videoRef.current;
-        
-      // Only process if video is ready and playing
-      if (video.readyState === video.HAVE_ENOUGH_DATA) {
-        // Create canvas to capture video frame for analysis
-        const canvas = document.createElement('canvas');
-        const canvasContext = canvas.getContext('2d');
-          
-        if (!canvasContext) {
-          console.error('Could not get canvas context');
-          requestAnimationFrame(detectCode);
-          return;
-        }
-          
-        // Set canvas dimensions (using smaller size for better performance)
-        const width = video.videoWidth;
-        const height = video.videoHeight;
-        canvas.width = width;
-        canvas.height = height;
-          
-        // Draw current video frame to canvas
-        canvasContext.drawImage(video, 0, 0, width, height);
-          
-        // Get image data from canvas
-        const imageData = canvasContext.getImageData(0, 0, width, height);
-          
-        // Use jsQR to scan for QR codes
-        const code = jsQR(imageData.data, width, height);
-          
-        if (code) {
-          // QR/Barcode detected!
-          setDeviceId(code.data);
-          // Auto-proceed to checklist after scan
-          const baseCheckpoints = selectedStage === 'FQC' ? FQC_CHECKPOINTS : PACKAGING_CHECKPOINTS;
-          setCheckpoints(baseCheckpoints.map(cp => ({ ...cp, status: null, image: null, reason: '' })));
-          setCurrentStep(AppStep.CHECKLIST);
-          stopScanning();
-          return;
-        }
-      }
-        
-      // If no code detected, continue scanning
-      requestAnimationFrame(detectCode);
-    } catch (err) {
-      console.error('Error detecting code:', err);
-      // If error occurs, continue scanning
-      requestAnimationFrame(detectCode);
-    }
+
+  // A confirmed camera read fills in the ID and goes straight to the checklist
+  const handleCodeScanned = (code: DecodedCode) => {
+    setDeviceId(code.text);
+    setIdSymbology(code.symbology);
+    if (!confirmPhotoMatch(code.text)) return;
+    startChecklist(code.text).catch(err => {
+      console.error('Failed to start checklist:', err);
+      setError('Storage unavailable. Please check the connection and try again.');
+    });
   };
-  
-  // Effect to continuously scan when camera is active
+
+  // Reload the pipeline whenever stage selection is shown, so edits apply right away
   useEffect(() => {
-    if (scanning) {
-      detectCode();
-      
-      // Poll for detection
-      const interval = setInterval(() => {
-        if (scanning) {
-          detectCode();
-        }
-      }, 1000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [scanning]);
+    if (currentStep !== AppStep.STAGE_SELECTION && currentStep !== AppStep.DASHBOARD) return;
+    repository.getStages().then(setStages).catch(err => console.error('Failed to load stages:', err));
+  }, [currentStep]);
+
+  const enabledStages = stages.filter(s => s.enabled);
+  const currentStageDefinition = stages.find(s => s.stageId === selectedStage) ?? null;
+
+  // Load dashboard data whenever the dashboard is opened
+  useEffect(() => {
+    if (currentStep !== AppStep.DASHBOARD) return;
+    Promise.all([repository.getReports(), repository.getDeviceStatuses(), repository.getDrafts()])
+      .then(([reports, statuses, drafts]) => {
+        setDashboardReports(reports);
+        setDashboardStatuses(statuses);
+        setAllDrafts(drafts);
+      })
+      .catch(err => console.error('Failed to load dashboard data:', err));
+  }, [currentStep]);
+
+  // Abandoned drafts are cleared at sign-in, photos included
+  useEffect(() => {
+    if (!currentUser) return;
+    repository.expireDrafts(Date.now())
+      .then(expired => expired.forEach(draft => {
+        discardDraftMedia(draft);
+        recordAudit(repository, {
+          actor: 'system',
+          action: 'draft.expire',
+          target: { type: 'draft', id: draft.draftId },
+          before: { userId: draft.userId, updatedAt: draft.updatedAt },
+          context: { deviceId: draft.deviceId, stage: draft.stage }
+        });
+      }))
+      .catch(err => console.error('Failed to expire drafts:', err));
+  }, [currentUser?.userId]);
+
+  // Offer the user's unfinished checklists whenever device entry opens
+  useEffect(() => {
+    if (currentStep !== AppStep.DEVICE_ID_ENTRY || !currentUser) return;
+    repository.getDrafts()
+      .then(drafts => setMyDrafts(drafts.filter(d => d.userId === currentUser.userId && canInspectStage(currentUser, d.stage))))
+      .catch(err => console.error('Failed to load drafts:', err));
+  }, [currentStep, currentUser]);
+
+  // Checklist answers and photos are saved as they change, so a refresh, a
+  // sleeping tablet or BACK does not lose them
+  useEffect(() => {
+    if (currentStep !== AppStep.CHECKLIST || !currentUser || !selectedStage || !activeTemplate || isSubmitting) return;
+    const timer = setTimeout(() => {
+      const now = new Date().toISOString();
+      repository.saveDraft({
+        draftId: draftKey(currentUser.userId, selectedStage, deviceId),
+        userId: currentUser.userId,
+        stage: selectedStage,
+        deviceId,
+        templateId: activeTemplate.templateId,
+        templateVersion: activeTemplate.version,
+        reworkTicketId: reworkTicket?.ticketId ?? null,
+        lotId: activeLot?.lotId ?? null,
+        previousReportId: previousReport?.id ?? null,
+        repeatReason,
+        idSymbology,
+        deviceImage,
+        checkpoints,
+        startedAt: draftStartedAt ?? now,
+        updatedAt: now
+      }).catch(err => console.error('Failed to save draft:', err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentStep, currentUser, selectedStage, activeTemplate, deviceId, reworkTicket, activeLot, previousReport, repeatReason, idSymbology, deviceImage, checkpoints, draftStartedAt, isSubmitting]);
+
+  // Refresh the lots an inspector can sample from whenever device entry opens
+  useEffect(() => {
+    if (currentStep !== AppStep.DEVICE_ID_ENTRY || !selectedStage) return;
+    repository.getLots()
+      .then(lots => {
+        const open = lots.filter(l => l.status === 'open' && l.stage === selectedStage);
+        setOpenLots(open);
+        setActiveLot(prev => prev ? open.find(l => l.lotId === prev.lotId) ?? null : null);
+      })
+      .catch(err => console.error('Failed to load lots:', err));
+    repository.getSerialFormats()
+      .then(setSerialFormats)
+      .catch(err => console.error('Failed to load serial formats:', err));
+  }, [currentStep, selectedStage]);
+
+  // Read the labels in the device photo as soon as it is attached or a draft brings it back
+  useEffect(() => {
+    setPhotoCodes(null);
+    if (!deviceImage) return;
+    let cancelled = false;
+    setIsReadingPhoto(true);
+    getMediaBlob(deviceImage.mediaId, 'full')
+      .then(blob => blob ? readPhotoCodes(blob, currentStageDefinition?.symbologies ?? SYMBOLOGIES.map(s => s.symbology)) : [])
+      .then(codes => { if (!cancelled) setPhotoCodes(codes); })
+      .catch(err => console.error('Failed to read codes from the device photo:', err))
+      .finally(() => { if (!cancelled) setIsReadingPhoto(false); });
+    return () => {
+      cancelled = true;
+      setIsReadingPhoto(false);
+    };
+  }, [deviceImage?.mediaId]);
+
+  // Pre-fill an empty serial field from the photo when it is clear which code is the serial
+  useEffect(() => {
+    if (!photoCodes || deviceId.trim()) return;
+    const code = photoSerial(photoCodes, serialFormats);
+    if (code) handlePickPhotoCode(code);
+  }, [photoCodes]);
 
   const handleStageSelect = (stage: Stage) => {
     setSelectedStage(stage);
-    if (currentUser && !currentUser.isAdmin) {
-      if (currentUser.assignedStage !== stage) {
-         setError(`Access denied. You are assigned to ${currentUser.assignedStage}.`);
+    if (currentUser) {
+      if (!canInspectStage(currentUser, stage)) {
+         setError(`Access denied. ${describeStageAccess(currentUser)}`);
          return;
       }
       setCurrentStep(AppStep.DEVICE_ID_ENTRY);
@@ -197,150 +266,607 @@ const App: React.FC = () => {
 
   const handleAdminAccess = () => {
     setSelectedStage(null); 
-    if (currentUser?.isAdmin) {
+    if (hasPermission(currentUser, 'manage_users')) {
       setCurrentStep(AppStep.ADMIN);
+    } else if (hasPermission(currentUser, 'view_dashboard')) {
+      setCurrentStep(AppStep.DASHBOARD);
+    } else if (hasPermission(currentUser, 'record_repairs')) {
+      setCurrentStep(AppStep.REWORK);
     } else {
       setCurrentStep(AppStep.LOGIN);
     }
     setError('');
   };
 
-  const handleLogin = (e: React.FormEvent<HTMLFormElement>) => {
+  // Routes a signed-in user to their landing screen: the selected stage's
+  // checklist, otherwise the admin console, dashboard or rework queue their role allows
+  const enterSession = (user: User) => {
+    setCurrentUser(user);
+    setError('');
+    if (selectedStage) {
+      setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+    } else if (hasPermission(user, 'manage_users')) {
+      setCurrentStep(AppStep.ADMIN);
+    } else if (hasPermission(user, 'view_dashboard')) {
+      setCurrentStep(AppStep.DASHBOARD);
+    } else {
+      setCurrentStep(AppStep.REWORK);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const userId = formData.get('userId') as string;
     const password = formData.get('password') as string;
 
-    const users = getStoredUsers();
-    const user = users.find(u => u.userId === userId && u.password === password);
+    setIsAuthenticating(true);
+    let result;
+    try {
+      result = await authenticate(repository, userId, password);
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError('Storage unavailable. Please check the connection and try again.');
+      return;
+    } finally {
+      setIsAuthenticating(false);
+    }
 
-    if (user) {
-      if (!user.isActive) {
+    if (!result.ok) {
+      if (result.reason === 'locked') {
+        setError(`Account locked after too many failed attempts. Try again after ${new Date(result.lockedUntil).toLocaleTimeString()} or contact Admin.`);
+      } else if (result.reason === 'disabled') {
         setError('Account is disabled. Please contact Admin.');
+      } else {
+        setError('Invalid User ID or Password.');
+      }
+      return;
+    }
+
+    const user = result.user;
+    if (selectedStage) {
+      if (!canInspectStage(user, selectedStage)) {
+        setError(`Access denied. ${describeStageAccess(user)}`);
         return;
       }
-      if (user.isAdmin) {
-        setCurrentUser(user);
-        setError('');
-        setCurrentStep(AppStep.ADMIN);
-      } else {
-        if (!selectedStage) {
-            setError('Please select a stage from the home screen first.');
-            return;
-        }
-        if (user.assignedStage !== selectedStage) {
-          setError(`Access denied. You are assigned to ${user.assignedStage}.`);
-          return;
-        }
-        setCurrentUser(user);
-        setError('');
+    } else if (!hasPermission(user, 'manage_users') && !hasPermission(user, 'view_dashboard') && !hasPermission(user, 'record_repairs')) {
+      setError('Please select a stage from the home screen first.');
+      return;
+    }
+
+    if (user.mustChangePassword) {
+      setCurrentUser(user);
+      setError('');
+      setCurrentStep(AppStep.CHANGE_PASSWORD);
+      return;
+    }
+    enterSession(user);
+  };
+
+  const handleChangePassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    const formData = new FormData(e.currentTarget);
+    const newPassword = formData.get('newPassword') as string;
+    const confirmPassword = formData.get('confirmPassword') as string;
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsAuthenticating(true);
+    try {
+      enterSession(await changePassword(repository, currentUser, newPassword));
+    } catch (err) {
+      console.error('Password change failed:', err);
+      setError('Password could not be changed. Please try again.');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  // Checks stage prerequisites and builds the checklist from the stage's published template
+  const startChecklist = async (id: string) => {
+    if (!selectedStage) return;
+
+    // Typos and misreads are caught before anything is recorded against the ID
+    const serial = checkSerial(id, await repository.getSerialFormats());
+    if (serial.ok === false) {
+      setError(serial.reason);
+      setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+      return;
+    }
+
+    // Stage control logic - every prerequisite in the pipeline must be met
+    const [pipeline, deviceStatus] = await Promise.all([repository.getStages(), repository.getDeviceStatus(id)]);
+    const entry = checkStageEntry(pipeline, deviceStatus, selectedStage);
+    if (entry.ok === false) {
+      setError(entry.reason);
+      setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+      return;
+    }
+
+    // A lot sample must be a unit the lot still needs
+    if (activeLot) {
+      const lot = await repository.getLot(activeLot.lotId);
+      const sample = lot ? checkLotSample(lot, id, selectedStage) : { ok: false as const, reason: `Lot ${activeLot.lotId} not found.` };
+      if (sample.ok === false) {
+        setError(sample.reason);
         setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+        return;
+      }
+    }
+
+    // An unfinished checklist for this device is resumed rather than started over
+    const draft = (await repository.getDrafts()).find(d => d.draftId === draftKey(currentUser?.userId ?? '', selectedStage, id));
+    if (draft) {
+      if (confirm(`You have an unfinished inspection of ${id} saved ${new Date(draft.updatedAt).toLocaleString()}. Resume it?`)) {
+        await resumeDraft(draft);
+        return;
+      }
+      await discardDraft(draft);
+    }
+
+    // Outside the rework loop, a device that already has a report here is a
+    // repeat and follows the stage's policy
+    const previous = latestReportAt(await repository.getReports(), id, selectedStage);
+    const stageDefinition = pipeline.find(s => s.stageId === selectedStage)!;
+    let reason: string | null = null;
+    if (isRepeat(previous, getStageStatus(deviceStatus, selectedStage))) {
+      const seen = describeRepeat(stageDefinition, previous!);
+      if (stageDefinition.repeatPolicy === 'warn' && !confirm(`${seen}. Inspect it again?`)) {
+        setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+        return;
+      }
+      if (stageDefinition.repeatPolicy === 'require_reason') {
+        reason = prompt(`${seen}. Reason for inspecting it again:`)?.trim() || null;
+      }
+      const repeat = checkRepeat(stageDefinition, previous!, reason);
+      if (repeat.ok === false) {
+        setError(repeat.reason);
+        setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+        return;
       }
-    } else {
-      setError('Invalid User ID or Password.');
     }
+
+    const template = await repository.getActiveTemplate(selectedStage);
+    if (!template) {
+      setError(`No published checklist template for ${stageLabel(pipeline, selectedStage)}. Please contact Admin.`);
+      setCurrentStep(AppStep.DEVICE_ID_ENTRY);
+      return;
+    }
+
+    const catalog = await repository.getDefectCodes();
+
+    // A repaired device is re-inspected against its rework ticket, optionally
+    // on the failed checkpoints only (all of which are then mandatory)
+    const ticket = getStageStatus(deviceStatus, selectedStage) === 'repaired'
+      ? await repository.getActiveReworkTicket(id, selectedStage)
+      : null;
+    const failedOnly = !!ticket && !!pipeline.find(s => s.stageId === selectedStage)?.reinspectFailedOnly;
+    const items: CheckpointResult[] = failedOnly
+      ? ticket.failedCheckpoints.map(failed => {
+          const source = template.checkpoints.find(cp => cp.id === failed.id);
+          return { id: failed.id, label: source?.label ?? failed.label, mandatory: true, spec: source?.spec ?? PASS_FAIL_SPEC, value: null, instrument: null, status: null, evidence: [], minEvidence: source?.minEvidence ?? DEFAULT_MIN_EVIDENCE, aiInspect: source?.aiInspect ?? false, defects: [], reason: '' };
+        })
+      : template.checkpoints.map(cp => ({ id: cp.id, label: cp.label, mandatory: cp.mandatory, spec: cp.spec, value: null, instrument: null, status: null, evidence: [], minEvidence: cp.minEvidence, aiInspect: cp.aiInspect, defects: [], reason: '' }));
+
+    setError('');
+    setActiveTemplate(template);
+    setDefectCatalog(catalog);
+    setReworkTicket(ticket);
+    setPreviousReport(previous);
+    setRepeatReason(reason);
+    setDraftStartedAt(new Date().toISOString());
+    setCheckpoints(items);
+    setCurrentStep(AppStep.CHECKLIST);
   };
 
-  const handleDeviceSubmit = (e: React.FormEvent) => {
+  const discardDraftMedia = (draft: InspectionDraft) =>
+    draftMediaIds(draft).forEach(mediaId => deleteMedia(mediaId).catch(err => console.error('Failed to delete media:', err)));
+
+  const discardDraft = async (draft: InspectionDraft) => {
+    await repository.deleteDraft(draft.draftId);
+    discardDraftMedia(draft);
+    if (deviceImage && draftMediaIds(draft).includes(deviceImage.mediaId)) setDeviceImage(null);
+    setMyDrafts(prev => prev.filter(d => d.draftId !== draft.draftId));
+    audit('draft.discard', { type: 'draft', id: draft.draftId }, { context: { deviceId: draft.deviceId, stage: draft.stage } });
+  };
+
+  // Restores a saved checklist with the template version, rework ticket and
+  // lot it was started with
+  const resumeDraft = async (draft: InspectionDraft) => {
+    const [templates, catalog, reports, ticket, lot] = await Promise.all([
+      repository.getTemplates(),
+      repository.getDefectCodes(),
+      repository.getReports(),
+      draft.reworkTicketId ? repository.getActiveReworkTicket(draft.deviceId, draft.stage) : Promise.resolve(null),
+      draft.lotId ? repository.getLot(draft.lotId) : Promise.resolve(null)
+    ]);
+    const template = templates.find(t => t.templateId === draft.templateId && t.version === draft.templateVersion);
+    if (!template) {
+      setError(`Checklist ${draft.templateId} v${draft.templateVersion} no longer exists. Discard the draft and start again.`);
+      return;
+    }
+    if (draft.reworkTicketId && ticket?.ticketId !== draft.reworkTicketId) {
+      setError(`Rework ticket ${draft.reworkTicketId} is no longer open. Discard the draft and start again.`);
+      return;
+    }
+    setSelectedStage(draft.stage);
+    setDeviceId(draft.deviceId);
+    setDeviceImage(draft.deviceImage);
+    setActiveTemplate(template);
+    setDefectCatalog(catalog);
+    setReworkTicket(ticket);
+    setPreviousReport(reports.find(r => r.id === draft.previousReportId) ?? null);
+    setRepeatReason(draft.repeatReason);
+    setIdSymbology(draft.idSymbology);
+    setActiveLot(lot && lot.status === 'open' ? lot : null);
+    setDraftStartedAt(draft.startedAt);
+    setCheckpoints(draft.checkpoints);
+    setError('');
+    setCurrentStep(AppStep.CHECKLIST);
+    audit('draft.resume', { type: 'draft', id: draft.draftId }, { after: { savedAt: draft.updatedAt }, context: { deviceId: draft.deviceId, stage: draft.stage } });
+  };
+
+  // Resuming from the list re-checks that the device may still enter the stage
+  const handleResumeDraft = async (draft: InspectionDraft) => {
+    try {
+      const [pipeline, deviceStatus] = await Promise.all([repository.getStages(), repository.getDeviceStatus(draft.deviceId)]);
+      const entry = checkStageEntry(pipeline, deviceStatus, draft.stage);
+      if (entry.ok === false) {
+        setError(`${entry.reason} Discard the draft of ${draft.deviceId}.`);
+        return;
+      }
+      await resumeDraft(draft);
+    } catch (err) {
+      console.error('Failed to resume draft:', err);
+      setError('Storage unavailable. Please check the connection and try again.');
+    }
+  };
+
+  const handleDiscardDraft = (draft: InspectionDraft) => {
+    if (!confirm(`Discard the unfinished inspection of ${draft.deviceId}? Its answers and photos are deleted.`)) return;
+    discardDraft(draft).catch(err => console.error('Failed to discard draft:', err));
+  };
+
+  const handleDeviceSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!deviceId.trim()) {
       setError('Device ID is required');
       return;
     }
-    
-    // Stage control logic - check if device has completed required previous stage
-    if (selectedStage === 'Packaging') {
-      // For Packaging stage, device must have completed FQC
-      const deviceStatus = getDeviceStatus(deviceId);
-      if (!deviceStatus || deviceStatus.fqcStatus !== 'completed') {
-        setError('Cannot proceed to Packaging. Device must complete FQC stage first.');
+    if (!confirmPhotoMatch(deviceId)) return;
+    try {
+      await startChecklist(deviceId);
+    } catch (err) {
+      console.error('Failed to start checklist:', err);
+      setError('Storage unavailable. Please check the connection and try again.');
+    }
+  };
+
+  const handlePickPhotoCode = (code: DecodedCode) => {
+    setDeviceId(code.text);
+    setIdSymbology(code.symbology);
+    setError('');
+  };
+
+  // Marks a skippable stage as skipped for the device so later stages can proceed
+  const handleSkipStage = async () => {
+    if (!selectedStage || !currentStageDefinition?.skippable) return;
+    if (!deviceId.trim()) {
+      setError('Device ID is required');
+      return;
+    }
+    const reason = prompt(`Reason for skipping ${currentStageDefinition.label} on ${deviceId}:`)?.trim();
+    if (!reason) return;
+    try {
+      const serial = checkSerial(deviceId, await repository.getSerialFormats());
+      if (serial.ok === false) {
+        setError(serial.reason);
         return;
       }
+      const [pipeline, deviceStatus] = await Promise.all([repository.getStages(), repository.getDeviceStatus(deviceId)]);
+      const entry = checkStageEntry(pipeline, deviceStatus, selectedStage);
+      if (entry.ok === false) {
+        setError(entry.reason);
+        return;
+      }
+      await repository.updateDeviceStatus(deviceId, selectedStage, 'skipped');
+      audit('stage.skip', { type: 'stage', id: selectedStage }, {
+        before: { status: getStageStatus(deviceStatus, selectedStage) },
+        after: { status: 'skipped', reason },
+        context: { deviceId, stage: selectedStage }
+      });
+    } catch (err) {
+      console.error('Failed to skip stage:', err);
+      setError('Storage unavailable. Please check the connection and try again.');
+      return;
     }
-    
-    setError('');
-    const baseCheckpoints = selectedStage === 'FQC' ? FQC_CHECKPOINTS : PACKAGING_CHECKPOINTS;
-    setCheckpoints(baseCheckpoints.map(cp => ({ ...cp, status: null, image: null, reason: '' })));
-    setCurrentStep(AppStep.CHECKLIST);
+    alert(`${currentStageDefinition.label} skipped for ${deviceId}.`);
+    resetApp();
   };
 
   const handleCheckpointUpdate = (id: string, updates: Partial<CheckpointResult>) => {
     setCheckpoints(prev => prev.map(cp => cp.id === id ? { ...cp, ...updates } : cp));
   };
 
+  // Records the raw answer and where it came from (typed values have no
+  // instrument); measurements and other auto-judged types set their own status
+  const handleCheckpointValue = (cp: CheckpointResult, value: CheckpointResult['value'], instrument: InstrumentRef | null = null) => {
+    const updates: Partial<CheckpointResult> = { value, instrument };
+    handleCheckpointUpdate(cp.id, isAutoEvaluated(cp.spec) ? { ...updates, status: evaluateCheckpoint(cp.spec, value, deviceId) } : updates);
+  };
+
+  const toggleDefect = (cp: CheckpointResult, defect: DefectCode) => {
+    const picked = cp.defects.some(d => d.code === defect.code);
+    handleCheckpointUpdate(cp.id, { defects: picked ? cp.defects.filter(d => d.code !== defect.code) : [...cp.defects, toDefectRef(defect)] });
+  };
+
+  // Checkpoint changes need both the role's edit_checkpoints permission and the
+  // template's allowance. Checkpoints added during the inspection are optional
+  // and always editable by those who may edit.
+  const isCustomCheckpoint = (cp: CheckpointResult) => cp.id.startsWith('custom_');
+  const canEditCheckpoints = hasPermission(currentUser, 'edit_checkpoints');
+  const canAddCheckpoints = canEditCheckpoints && !!activeTemplate?.inspectorChanges.addCheckpoints;
+  const canRenameCheckpoint = (cp: CheckpointResult) => canEditCheckpoints && (isCustomCheckpoint(cp) || !!activeTemplate?.inspectorChanges.renameCheckpoints);
+  const canRemoveCheckpoint = (cp: CheckpointResult) => canEditCheckpoints && (isCustomCheckpoint(cp) || (!cp.mandatory && !!activeTemplate?.inspectorChanges.removeOptional));
+  const helpTextFor = (id: string) => activeTemplate?.checkpoints.find(cp => cp.id === id)?.helpText;
+
   const handleAddCheckpoint = () => {
+    if (!canAddCheckpoints) return;
     const newId = `custom_${Date.now()}`;
-    setCheckpoints(prev => [...prev, { id: newId, label: 'New Checkpoint', status: null, image: null, reason: '' }]);
+    const label = 'New Checkpoint';
+    setCheckpoints(prev => [...prev, { id: newId, label, mandatory: false, spec: PASS_FAIL_SPEC, value: null, instrument: null, status: null, evidence: [], minEvidence: DEFAULT_MIN_EVIDENCE, aiInspect: false, defects: [], reason: '' }]);
+    audit('checkpoint.add', { type: 'checkpoint', id: newId }, { after: { label }, context: checkpointContext(false) });
+    editingOriginalLabel.current = label;
     setEditingId(newId);
   };
 
+  const startEditingCheckpoint = (cp: CheckpointResult) => {
+    if (!canRenameCheckpoint(cp)) return;
+    editingOriginalLabel.current = cp.label;
+    setEditingId(cp.id);
+  };
+
+  // Called on blur and Enter; only the first call for an edit records the rename
+  const finishEditingCheckpoint = (id: string) => {
+    const original = editingOriginalLabel.current;
+    const cp = checkpoints.find(c => c.id === id);
+    editingOriginalLabel.current = null;
+    setEditingId(null);
+    if (original !== null && cp && cp.label !== original) {
+      audit('checkpoint.rename', { type: 'checkpoint', id }, { before: { label: original }, after: { label: cp.label }, context: checkpointContext(cp.mandatory) });
+    }
+  };
+
   const handleDeleteCheckpoint = (id: string) => {
+    const removed = checkpoints.find(cp => cp.id === id);
+    if (!removed || !canRemoveCheckpoint(removed)) return;
     setCheckpoints(prev => prev.filter(cp => cp.id !== id));
     if (editingId === id) setEditingId(null);
+    audit('checkpoint.delete', { type: 'checkpoint', id }, { before: { label: removed.label, status: removed.status }, context: checkpointContext(removed.mandatory) });
+  };
+
+  // Compresses and stores a captured photo; returns null (after alerting) if it could not be processed
+  const storePhoto = async (file: File): Promise<MediaRef | null> => {
+    try {
+      return await saveImage(file);
+    } catch (err) {
+      console.error('Failed to store photo:', err);
+      alert('Photo could not be saved. Please retake it.');
+      return null;
+    }
+  };
+
+  const addEvidence = (id: string, item: Evidence) =>
+    setCheckpoints(prev => prev.map(cp => cp.id === id ? { ...cp, evidence: [...cp.evidence, item] } : cp));
+
+  const handleCheckpointPhoto = async (id: string, file: File) => {
+    const media = await storePhoto(file);
+    if (!media) return;
+    addEvidence(id, { kind: 'photo', media, annotations: [], durationMs: null, aiInspection: null });
+    const cp = checkpoints.find(c => c.id === id);
+    if (cp?.aiInspect && aiAssistant.provider !== 'rules') runPhotoInspection(cp, media);
+  };
+
+  // Advisory only: the verdict is shown beside the photo and compared with the inspector's call on submit
+  const runPhotoInspection = async (cp: CheckpointResult, media: MediaRef) => {
+    setInspectingPhotos(prev => [...prev, media.mediaId]);
+    try {
+      const image = await getMediaBlob(media.mediaId, 'full');
+      const aiInspection = image && await aiAssistant.inspectPhoto({ checkpointLabel: cp.label, stage: currentStageDefinition?.label ?? selectedStage ?? 'General', image });
+      // The photo may have been removed while it was being inspected
+      if (aiInspection) setCheckpoints(prev => prev.map(c => c.id === cp.id ? { ...c, evidence: c.evidence.map(e => e.media.mediaId === media.mediaId ? { ...e, aiInspection } : e) } : c));
+    } catch (err) {
+      console.error('Failed to run the AI pre-inspection:', err);
+    } finally {
+      setInspectingPhotos(prev => prev.filter(mediaId => mediaId !== media.mediaId));
+    }
+  };
+
+  const handleClipRecorded = async (id: string, kind: ClipKind, clip: RecordedClip) => {
+    setRecordingClip(null);
+    try {
+      const media = await saveClip(clip.blob, clip.width, clip.height);
+      addEvidence(id, { kind, media, annotations: [], durationMs: clip.durationMs, aiInspection: null });
+    } catch (err) {
+      console.error('Failed to store clip:', err);
+      alert('Recording could not be saved. Please record it again.');
+    }
+  };
+
+  const handleRemoveEvidence = (id: string, index: number) => {
+    const removed = checkpoints.find(cp => cp.id === id)?.evidence[index];
+    if (!removed) return;
+    setCheckpoints(prev => prev.map(cp => cp.id === id ? { ...cp, evidence: cp.evidence.filter(e => e.media.mediaId !== removed.media.mediaId) } : cp));
+    deleteMedia(removed.media.mediaId).catch(err => console.error('Failed to delete media:', err));
+  };
+
+  // Markup is stored beside the photo; the image itself is never redrawn
+  const handleSaveAnnotations = (cp: CheckpointResult, index: number, annotations: Evidence['annotations']) => {
+    setAnnotating(null);
+    const before = cp.evidence[index].annotations;
+    if (JSON.stringify(annotations) === JSON.stringify(before)) return;
+    handleCheckpointUpdate(cp.id, { evidence: cp.evidence.map((e, i) => i === index ? { ...e, annotations } : e) });
+    audit('checkpoint.annotate', { type: 'checkpoint', id: cp.id }, { before: { marks: before.length }, after: { mediaId: cp.evidence[index].media.mediaId, marks: annotations.length }, context: checkpointContext(cp.mandatory) });
+  };
+
+  const handleDevicePhoto = async (file: File) => {
+    const media = await storePhoto(file);
+    if (media) setDeviceImage(media);
+  };
+
+  const handleRemoveDevicePhoto = () => {
+    if (deviceImage) deleteMedia(deviceImage.mediaId).catch(err => console.error('Failed to delete media:', err));
+    setDeviceImage(null);
   };
 
   const handleAIReason = async (id: string, label: string) => {
-    const reason = await suggestFailureReason(label, selectedStage || 'General');
+    const { reason } = await aiAssistant.suggestFailureReason({ checkpointLabel: label, stage: currentStageDefinition?.label ?? selectedStage ?? 'General' });
     handleCheckpointUpdate(id, { reason });
   };
 
   const handleFinalSubmit = () => {
-    const isComplete = checkpoints.every(cp => cp.status !== null && cp.image !== null && (cp.status === 'Pass' || (cp.status === 'Fail' && cp.reason.trim() !== '')));
-    if (!isComplete) { alert('Please complete all checkpoints, images, and reasons.'); return; }
+    if (!activeTemplate) return;
+    // Optional checkpoints may be skipped, but once answered they need the same evidence.
+    // A failure needs a defect code, or a written reason where the catalog has none for the checkpoint.
+    const isFailureDescribed = (cp: CheckpointResult) => defectsFor(defectCatalog, cp.id).length > 0 ? cp.defects.length > 0 : cp.reason.trim() !== '';
+    const isAnswered = (cp: CheckpointResult) => cp.status !== null && hasValue(cp) && missingEvidence(cp).length === 0 && (cp.status === 'Pass' || (cp.status === 'Fail' && isFailureDescribed(cp)));
+    const isComplete = checkpoints.every(cp => isAnswered(cp) || (!cp.mandatory && cp.status === null && cp.value === null));
+    if (!isComplete) { alert('Please complete all mandatory checkpoints, values, photos and recordings, and defect codes.'); return; }
     setIsSubmitting(true);
-    const report: QCReport = { id: `REP-${Date.now()}`, timestamp: new Date().toISOString(), stage: selectedStage, userId: currentUser?.userId || 'Unknown', deviceId, checkpoints };
-    setTimeout(() => { 
-      saveReport(report);
-      // Update device status after successful submission
-      updateDeviceStatus(deviceId, selectedStage as 'FQC' | 'Packaging', report.checkpoints.some(cp => cp.status === 'Fail') ? 'failed' : 'completed');
-      setIsSubmitting(false); 
-      setCurrentStep(AppStep.SUCCESS); 
-    }, 1500);
+    const report: QCReport = {
+      id: `REP-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      stage: selectedStage,
+      userId: currentUser?.userId || 'Unknown',
+      deviceId,
+      templateId: activeTemplate.templateId,
+      templateVersion: activeTemplate.version,
+      attempt: reworkTicket ? reworkTicket.attempt + 1 : previousReport ? previousReport.attempt + 1 : 1,
+      reworkTicketId: reworkTicket?.ticketId ?? null,
+      lotId: activeLot?.lotId ?? null,
+      previousReportId: previousReport?.id ?? null,
+      repeatReason,
+      idSymbology,
+      // Codes picked before a checkpoint was changed back to Pass are dropped
+      checkpoints: checkpoints.map(cp => cp.status === 'Fail' ? cp : { ...cp, defects: [] })
+    };
+    (async () => {
+      try {
+        // The repository sets the device's stage status from the result
+        const opened = await repository.saveReport(report);
+        const result = reportResult(report);
+        const context = { deviceId, stage: selectedStage, reportId: report.id, templateId: report.templateId, templateVersion: report.templateVersion };
+        audit('report.submit', { type: 'report', id: report.id }, {
+          after: { result: result === 'failed' ? 'failed' : 'completed', checkpoints: report.checkpoints.length, attempt: report.attempt, previousReportId: report.previousReportId, repeatReason: report.repeatReason, idSymbology: report.idSymbology, defects: report.checkpoints.flatMap(cp => cp.defects.map(d => d.code)) },
+          context
+        });
+        // The inspector's status is the decision; log it against each AI verdict
+        report.checkpoints.forEach(cp => {
+          const suggested = aiVerdict(cp);
+          if (!suggested || !cp.status) return;
+          audit('checkpoint.ai_review', { type: 'checkpoint', id: cp.id }, {
+            before: { verdict: suggested, photos: cp.evidence.flatMap(e => e.aiInspection ? [{ mediaId: e.media.mediaId, verdict: e.aiInspection.verdict, confidence: e.aiInspection.confidence, source: e.aiInspection.source }] : []) },
+            after: { decision: cp.status, agreed: cp.status === suggested },
+            context: { ...context, mandatory: cp.mandatory }
+          });
+        });
+        if (reworkTicket) {
+          audit('rework.close', { type: 'rework', id: reworkTicket.ticketId }, { before: { status: reworkTicket.status }, after: { status: 'closed', outcome: result }, context });
+        }
+        if (opened) {
+          audit('rework.open', { type: 'rework', id: opened.ticketId }, { after: { failedCheckpoints: opened.failedCheckpoints.map(cp => cp.id), attempt: opened.attempt }, context });
+        }
+        if (report.lotId) {
+          const lot = await repository.getLot(report.lotId);
+          if (lot && lot.status !== 'open') {
+            audit('lot.decide', { type: 'lot', id: lot.lotId }, {
+              before: { status: 'open' },
+              after: { status: lot.status, sampled: lot.samples.length, nonconforming: nonconformingCount(lot), accept: lot.plan.accept, reject: lot.plan.reject },
+              context: { ...context, lotId: lot.lotId }
+            });
+          }
+          setActiveLot(lot && lot.status === 'open' ? lot : null);
+          setDecidedLot(lot && lot.status !== 'open' ? lot : null);
+        }
+        setOpenedTicket(opened);
+        setCurrentStep(AppStep.SUCCESS);
+      } catch (err) {
+        console.error('Failed to save report:', err);
+        alert('Report could not be saved. Please check the connection and submit again.');
+      } finally {
+        setIsSubmitting(false);
+      }
+    })();
+  };
+
+  const resetApp = () => { setDeviceId(''); setDeviceImage(null); setCheckpoints([]); setActiveTemplate(null); setDefectCatalog([]); setReworkTicket(null); setPreviousReport(null); setRepeatReason(null); setIdSymbology(null); setDraftStartedAt(null); setOpenedTicket(null); setDecidedLot(null); setCurrentStep(AppStep.DEVICE_ID_ENTRY); };
+  const clearSession = () => { setCurrentUser(null); setSelectedStage(null); setDeviceId(''); setDeviceImage(null); setCheckpoints([]); setActiveTemplate(null); setDefectCatalog([]); setReworkTicket(null); setPreviousReport(null); setRepeatReason(null); setIdSymbology(null); setDraftStartedAt(null); setMyDrafts([]); setOpenedTicket(null); setActiveLot(null); setDecidedLot(null); setError(''); setCurrentStep(AppStep.STAGE_SELECTION); };
+  const logout = () => {
+    if (currentUser) audit('auth.logout', { type: 'session', id: currentUser.userId });
+    clearSession();
   };
 
-  const resetApp = () => { setDeviceId(''); setDeviceImage(null); setCheckpoints([]); setCurrentStep(AppStep.DEVICE_ID_ENTRY); };
-  const logout = () => { setCurrentUser(null); setSelectedStage(null); setDeviceId(''); setDeviceImage(null); setCheckpoints([]); setError(''); setCurrentStep(AppStep.STAGE_SELECTION); };
+  // Shared tablets: sign the operator out after a period of inactivity
+  useEffect(() => {
+    if (!currentUser) return;
+    return watchIdle(SESSION_IDLE_TIMEOUT_MS, () => {
+      audit('auth.session_timeout', { type: 'session', id: currentUser.userId }, { context: { deviceId: deviceId || undefined, stage: selectedStage } });
+      clearSession();
+      setError('Session expired due to inactivity. Please log in again.');
+      setCurrentStep(AppStep.LOGIN);
+    });
+  }, [currentUser]);
   
-  const handleExportCSV = () => {
-    const reports = getStoredReports();
+  const handlePrintReport = async (report: QCReport) => {
+    try {
+      await printReport(report, stages);
+      audit('report.export', { type: 'report', id: report.id }, { after: { format: 'print' }, context: { deviceId: report.deviceId, stage: report.stage, reportId: report.id } });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Report could not be printed.');
+    }
+  };
+
+  const handleExportCSV = async () => {
+    if (!hasPermission(currentUser, 'export_reports')) return;
+    const reports = await repository.getReports();
     if (reports.length === 0) {
       alert('No reports available to export.');
       return;
     }
+    audit('report.export', { type: 'report', id: 'all' }, { after: { format: 'csv', reports: reports.length } });
+    downloadCsv(reportsToCsv(reports), `Flex_QC_Export_${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
-    // Helper to escape CSV values safely
-    const escape = (val) => `"${String(val || '').replace(/"/g, '""')}"`;
-
-    const headers = ['Report ID', 'Timestamp', 'Stage', 'User ID', 'Device ID', 'Checkpoints Summary'];
-    const rows = reports.map(r => {
-      // Create a detailed summary of checkpoints for a single column
-      const checkpointsSummary = r.checkpoints.map(cp => 
-        `${cp.label}: ${cp.status || 'N/A'}${cp.status === 'Fail' ? ' (Reason: ' + (cp.reason || 'Not provided') + ')' : ''}`
-      ).join(' | ');
-
-      return [
-        escape(r.id),
-        escape(r.timestamp),
-        escape(r.stage),
-        escape(r.userId),
-        escape(r.deviceId),
-        escape(checkpointsSummary)
-      ].join(',');
-    });
+  // Raw checkpoint values, one row each, for trending measurements
+  const handleExportMeasurements = async () => {
+    if (!hasPermission(currentUser, 'export_reports')) return;
+    const reports = await repository.getReports();
+    if (reports.length === 0) {
+      alert('No reports available to export.');
+      return;
+    }
+    audit('report.export', { type: 'report', id: 'all' }, { after: { format: 'measurements-csv', reports: reports.length } });
+    downloadCsv(measurementsToCsv(reports), `Flex_QC_Measurements_${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
-    const csvContent = [headers.join(','), ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    
-    // Set timestamped filename
-    const dateStr = new Date().toISOString().split('T')[0];
-    link.setAttribute('href', url);
-    link.setAttribute('download', `Flex_QC_Export_${dateStr}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // One row per defect code on a failed checkpoint, for Pareto analysis
+  const handleExportDefects = async () => {
+    if (!hasPermission(currentUser, 'export_reports')) return;
+    const reports = await repository.getReports();
+    if (reports.length === 0) {
+      alert('No reports available to export.');
+      return;
+    }
+    audit('report.export', { type: 'report', id: 'all' }, { after: { format: 'defects-csv', reports: reports.length } });
+    downloadCsv(defectsToCsv(reports), `Flex_QC_Defects_${new Date().toISOString().split('T')[0]}.csv`);
   };
   
   const renderHeader = () => (
@@ -351,12 +877,27 @@ const App: React.FC = () => {
         </div>
         <h1 className="text-xl font-bold tracking-tight uppercase">Flex <span className="font-light">QC</span></h1>
       </div>
+      {syncStats && (
+        <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest" title={syncStats.enabled ? 'Report sync queue' : 'Sync endpoint not configured; reports are queued locally'}>
+          <span className={`w-2 h-2 rounded-full ${!syncStats.enabled ? 'bg-slate-500' : syncStats.online ? 'bg-green-400' : 'bg-amber-400'}`}></span>
+          <span className="text-amber-300">{syncStats.pending} pending</span>
+          <span className="text-green-300">{syncStats.synced} synced</span>
+          {syncStats.failed > 0 ? (
+            <button onClick={() => retryFailed()} className="text-red-300 underline hover:text-red-200" title="Retry failed uploads">{syncStats.failed} failed</button>
+          ) : (
+            <span className="text-slate-400">0 failed</span>
+          )}
+        </div>
+      )}
       {currentUser && (
         <div className="flex items-center gap-4">
           <div className="text-right border-r border-white/10 pr-4">
-            <p className="text-[10px] text-blue-300 uppercase font-black tracking-widest leading-none">{selectedStage || (currentUser.isAdmin ? 'ADMIN' : 'CONSOLE')}</p>
+            <p className="text-[10px] text-blue-300 uppercase font-black tracking-widest leading-none">{selectedStage ? stageLabel(stages, selectedStage) : ROLE_LABELS[currentUser.role]}</p>
             <p className="text-sm font-bold">{currentUser.userId}</p>
           </div>
+          {hasPermission(currentUser, 'view_dashboard') && currentStep !== AppStep.DASHBOARD && currentStep !== AppStep.CHANGE_PASSWORD && (
+            <button onClick={() => setCurrentStep(AppStep.DASHBOARD)} className="bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-all font-black text-[10px] uppercase">Dashboard</button>
+          )}
           <button onClick={logout} className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg transition-all font-black text-[10px] uppercase shadow-lg active:scale-95">Logout</button>
         </div>
       )}
@@ -364,8 +905,8 @@ const App: React.FC = () => {
   );
 
   const renderDashboard = () => {
-    const reports = getStoredReports();
-    const deviceStatuses = getDeviceStatuses();
+    const reports = dashboardReports;
+    const deviceStatuses = dashboardStatuses;
     
     // Calculate dashboard metrics
     const dailyCount = reports.filter(r => {
@@ -376,8 +917,14 @@ const App: React.FC = () => {
              reportDate.getFullYear() === today.getFullYear();
     }).length;
     
-    const fqcCount = reports.filter(r => r.stage === 'FQC').length;
-    const packagingCount = reports.filter(r => r.stage === 'Packaging').length;
+    const stageCounts = enabledStages.map(stage => ({ stage, count: reports.filter(r => r.stage === stage.stageId).length }));
+
+    // First-pass vs reworked units, across stages and per stage
+    const units = summarizeUnits(reports);
+    const stageUnits = enabledStages.map(stage => ({ stage, ...summarizeUnits(reports, stage.stageId) }));
+    const firstPassYield = units.firstPass + units.reworked + units.inRework > 0
+      ? Math.round((units.firstPass / (units.firstPass + units.reworked + units.inRework)) * 100)
+      : null;
     
     const passCount = reports.reduce((count, report) => {
       return count + report.checkpoints.filter(cp => cp.status === 'Pass').length;
@@ -400,6 +947,10 @@ const App: React.FC = () => {
     const sortedFailures = Object.entries(failureCounts)
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5); // Top 5 failures
+
+    // Failures by defect code and severity
+    const defectSummary = summarizeDefects(reports);
+    const codedDefects = DEFECT_SEVERITIES.reduce((sum, { severity }) => sum + defectSummary.severities[severity], 0);
     
     // Inspector productivity
     const inspectorProductivity: Record<string, number> = {};
@@ -423,14 +974,44 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <button 
+              {hasPermission(currentUser, 'export_reports') && <button 
                 onClick={handleExportCSV}
                 className="bg-blue-600 text-white hover:bg-blue-700 px-4 py-2 rounded-xl transition-all shadow-md flex items-center gap-2 group border border-blue-500"
                 title="Download QC reports as CSV"
               >
                 <SaveIcon className="w-4 h-4 group-hover:translate-y-0.5 transition-transform" />
                 <span className="text-[10px] font-black uppercase">Export Reports</span>
-              </button>
+              </button>}
+              {hasPermission(currentUser, 'export_reports') && (
+                <button onClick={handleExportMeasurements} className="bg-white text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-xl transition-all shadow-md border border-blue-100 text-[10px] font-black uppercase" title="Download raw checkpoint values as CSV">Measurements</button>
+              )}
+              {hasPermission(currentUser, 'export_reports') && (
+                <button onClick={handleExportDefects} className="bg-white text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-xl transition-all shadow-md border border-blue-100 text-[10px] font-black uppercase" title="Download defect codes on failed checkpoints as CSV">Defects</button>
+              )}
+              {hasPermission(currentUser, 'manage_templates') && (
+                <button onClick={() => setCurrentStep(AppStep.TEMPLATES)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Checklists</button>
+              )}
+              {hasPermission(currentUser, 'manage_templates') && (
+                <button onClick={() => setCurrentStep(AppStep.PIPELINE)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Pipeline</button>
+              )}
+              {hasPermission(currentUser, 'manage_templates') && (
+                <button onClick={() => setCurrentStep(AppStep.SERIAL_FORMATS)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Serial Formats</button>
+              )}
+              {hasPermission(currentUser, 'manage_defects') && (
+                <button onClick={() => setCurrentStep(AppStep.DEFECTS)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Defect Codes</button>
+              )}
+              {hasPermission(currentUser, 'manage_lots') && (
+                <button onClick={() => setCurrentStep(AppStep.LOTS)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Lots</button>
+              )}
+              {hasPermission(currentUser, 'trace_shipments') && (
+                <button onClick={() => setCurrentStep(AppStep.AGGREGATION)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Cartons &amp; Pallets</button>
+              )}
+              {hasPermission(currentUser, 'record_repairs') && (
+                <button onClick={() => setCurrentStep(AppStep.REWORK)} className="bg-white text-slate-900 hover:bg-slate-50 px-4 py-2 rounded-xl transition-all shadow-md border border-gray-200 text-[10px] font-black uppercase">Rework</button>
+              )}
+              {hasPermission(currentUser, 'view_audit') && (
+                <button onClick={() => setCurrentStep(AppStep.AUDIT_LOG)} className="bg-slate-900 text-white hover:bg-slate-800 px-4 py-2 rounded-xl transition-all shadow-md text-[10px] font-black uppercase">Audit Trail</button>
+              )}
               <button onClick={logout} className="text-red-500 font-black text-xs uppercase border border-red-100 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors">Logout</button>
             </div>
           </div>
@@ -442,19 +1023,48 @@ const App: React.FC = () => {
             <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Daily Inspections</p>
             <p className="text-2xl font-black text-blue-600">{dailyCount}</p>
           </div>
-          <div className="bg-white p-4 rounded-xl shadow border border-gray-100">
-            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">FQC Progress</p>
-            <p className="text-2xl font-black text-green-600">{fqcCount}</p>
-          </div>
-          <div className="bg-white p-4 rounded-xl shadow border border-gray-100">
-            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Packaging Progress</p>
-            <p className="text-2xl font-black text-purple-600">{packagingCount}</p>
-          </div>
+          {stageCounts.map(({ stage, count }) => (
+            <div key={stage.stageId} className="bg-white p-4 rounded-xl shadow border border-gray-100">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{stage.label} Progress</p>
+              <p className="text-2xl font-black text-green-600">{count}</p>
+            </div>
+          ))}
           <div className="bg-white p-4 rounded-xl shadow border border-gray-100">
             <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Overall Status</p>
             <p className="text-2xl font-black text-slate-800">{passCount}/{(passCount + failCount)}</p>
           </div>
         </div>
+
+        {/* First-pass vs reworked units */}
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
+          <div className="px-4 py-3 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
+            <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">First Pass & Rework</h3>
+            <span className="text-[10px] font-black text-slate-500 uppercase">First-pass yield {firstPassYield === null ? '—' : `${firstPassYield}%`}</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 border-b border-gray-200 text-slate-500 font-black uppercase tracking-widest">
+                <tr><th className="px-4 py-3">Stage</th><th className="px-4 py-3">First Pass</th><th className="px-4 py-3">Reworked</th><th className="px-4 py-3">In Rework</th></tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-bold">
+                {stageUnits.map(({ stage, firstPass, reworked, inRework }) => (
+                  <tr key={stage.stageId}>
+                    <td className="px-4 py-4 text-gray-900">{stage.label}</td>
+                    <td className="px-4 py-4 text-green-600 font-black">{firstPass}</td>
+                    <td className="px-4 py-4 text-amber-600 font-black">{reworked}</td>
+                    <td className="px-4 py-4 text-red-600 font-black">{inRework}</td>
+                  </tr>
+                ))}
+                <tr className="bg-slate-50">
+                  <td className="px-4 py-4 text-gray-900 font-black uppercase">All stages</td>
+                  <td className="px-4 py-4 text-green-600 font-black">{units.firstPass}</td>
+                  <td className="px-4 py-4 text-amber-600 font-black">{units.reworked}</td>
+                  <td className="px-4 py-4 text-red-600 font-black">{units.inRework}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Pass/Fail Summary */}
@@ -514,6 +1124,37 @@ const App: React.FC = () => {
           </div>
         </div>
         
+        <DraftList title={`Mid-Inspection · ${allDrafts.length} device${allDrafts.length === 1 ? '' : 's'}`} drafts={allDrafts} stages={stages} showInspector />
+
+        {/* Defects by code and severity */}
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
+          <div className="px-4 py-3 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
+            <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Top Defects</h3>
+            <div className="flex gap-2">
+              {DEFECT_SEVERITIES.map(({ severity, label }) => (
+                <span key={severity} className={`px-2 py-0.5 rounded-full border text-[9px] font-black uppercase ${SEVERITY_STYLES[severity]}`}>{label} {defectSummary.severities[severity]}</span>
+              ))}
+            </div>
+          </div>
+          <div className="p-4">
+            {defectSummary.codes.length > 0 ? (
+              <ul className="space-y-2">
+                {defectSummary.codes.slice(0, 8).map(defect => (
+                  <li key={defect.code} className="flex items-center gap-3">
+                    <DefectBadge defect={defect} />
+                    <span className="flex-1 text-sm font-bold text-gray-700 truncate">{defect.description}</span>
+                    <span className="text-[10px] font-black text-gray-400 uppercase">{Math.round((defect.count / codedDefects) * 100)}%</span>
+                    <span className="text-sm font-black text-red-600 w-8 text-right">{defect.count}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-sm font-bold text-center py-4">No defect codes recorded</p>
+            )}
+            {defectSummary.uncoded > 0 && <p className="mt-3 text-[10px] font-black text-gray-400 uppercase tracking-widest">{defectSummary.uncoded} failure{defectSummary.uncoded === 1 ? '' : 's'} without a defect code</p>}
+          </div>
+        </div>
+
         {/* Inspector Productivity */}
         <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
           <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
@@ -540,15 +1181,16 @@ const App: React.FC = () => {
         <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
           <div className="px-4 py-3 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
             <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Serial Number Traceability</h3>
-            <button onClick={() => setCurrentStep(AppStep.ADMIN)} className="text-[9px] text-blue-600 font-black uppercase hover:underline transition-all">Manage Users</button>
+            {hasPermission(currentUser, 'manage_users') && (
+              <button onClick={() => setCurrentStep(AppStep.ADMIN)} className="text-[9px] text-blue-600 font-black uppercase hover:underline transition-all">Manage Users</button>
+            )}
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-left text-xs">
               <thead className="bg-slate-50 border-b border-gray-200 text-slate-500 font-black uppercase tracking-widest">
                 <tr>
                   <th className="px-4 py-3">Device ID</th>
-                  <th className="px-4 py-3">FQC Status</th>
-                  <th className="px-4 py-3">Packaging Status</th>
+                  {enabledStages.map(stage => <th key={stage.stageId} className="px-4 py-3">{stage.label}</th>)}
                   <th className="px-4 py-3">Last Updated</th>
                 </tr>
               </thead>
@@ -556,16 +1198,16 @@ const App: React.FC = () => {
                 {deviceStatuses.slice(0, 10).map((status, index) => (
                   <tr key={index}>
                     <td className="px-4 py-4 text-gray-900 font-bold">{status.deviceId}</td>
-                    <td className="px-4 py-4">
-                      <span className={`text-[10px] uppercase ${status.fqcStatus === 'completed' ? 'text-green-600' : status.fqcStatus === 'pending' ? 'text-yellow-600' : 'text-red-600'}`}>
-                        {status.fqcStatus}
-                      </span>
-                    </td>
-                    <td className="px-4 py-4">
-                      <span className={`text-[10px] uppercase ${status.packagingStatus === 'completed' ? 'text-green-600' : status.packagingStatus === 'pending' ? 'text-yellow-600' : 'text-red-600'}`}>
-                        {status.packagingStatus}
-                      </span>
-                    </td>
+                    {enabledStages.map(stage => {
+                      const state = getStageStatus(status, stage.stageId);
+                      return (
+                        <td key={stage.stageId} className="px-4 py-4">
+                          <span className={`text-[10px] uppercase ${state === 'completed' ? 'text-green-600' : state === 'pending' ? 'text-yellow-600' : state === 'skipped' ? 'text-slate-400' : state === 'repaired' ? 'text-amber-600' : 'text-red-600'}`}>
+                            {state}
+                          </span>
+                        </td>
+                      );
+                    })}
                     <td className="px-4 py-4 text-gray-500 text-[10px]">{new Date(status.lastUpdated).toLocaleDateString()}</td>
                   </tr>
                 ))}
@@ -588,9 +1230,14 @@ const App: React.FC = () => {
               <p className="text-gray-500 font-medium">Select station to initiate quality check</p>
             </div>
             <div className="grid gap-4">
-              <button onClick={() => handleStageSelect('FQC')} className="h-28 bg-white border-2 border-slate-200 hover:border-blue-600 rounded-2xl shadow-sm text-2xl font-black uppercase text-gray-800 transition-all active:scale-95">FQC</button>
-              <button onClick={() => handleStageSelect('Packaging')} className="h-28 bg-white border-2 border-slate-200 hover:border-blue-600 rounded-2xl shadow-sm text-2xl font-black uppercase text-gray-800 transition-all active:scale-95">Packaging</button>
-              <button onClick={handleAdminAccess} className="text-slate-400 font-bold uppercase text-xs hover:text-slate-600 mt-4 flex items-center justify-center gap-2 transition-colors"><UserIcon className="w-4 h-4" /> Admin Access</button>
+              {enabledStages.map(stage => (
+                <button key={stage.stageId} onClick={() => handleStageSelect(stage.stageId)} className="h-28 bg-white border-2 border-slate-200 hover:border-blue-600 rounded-2xl shadow-sm text-gray-800 transition-all active:scale-95 flex flex-col items-center justify-center gap-1">
+                  <span className="text-2xl font-black uppercase">{stage.label}</span>
+                  {stage.description && <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{stage.description}</span>}
+                </button>
+              ))}
+              {enabledStages.length === 0 && <p className="text-gray-400 font-bold text-sm">Loading stages...</p>}
+              <button onClick={handleAdminAccess} className="text-slate-400 font-bold uppercase text-xs hover:text-slate-600 mt-4 flex items-center justify-center gap-2 transition-colors"><UserIcon className="w-4 h-4" /> Supervisor / Admin Access</button>
             </div>
           </div>
         )}
@@ -609,7 +1256,27 @@ const App: React.FC = () => {
                 <input name="password" type="password" required placeholder="••••••••" className="w-full px-4 py-4 bg-white border border-gray-200 rounded-xl font-bold text-lg text-black" />
               </div>
               {error && <div className="text-red-600 font-bold text-sm p-4 bg-red-50 rounded-xl border border-red-100">{error}</div>}
-              <button type="submit" className="w-full bg-slate-900 text-white font-black py-4 rounded-xl shadow-lg uppercase tracking-widest active:scale-[0.98] transition-transform">Login</button>
+              <button type="submit" disabled={isAuthenticating} className={`w-full ${isAuthenticating ? 'bg-gray-400' : 'bg-slate-900'} text-white font-black py-4 rounded-xl shadow-lg uppercase tracking-widest active:scale-[0.98] transition-transform`}>{isAuthenticating ? 'Verifying...' : 'Login'}</button>
+            </form>
+          </div>
+        )}
+
+        {currentStep === AppStep.CHANGE_PASSWORD && currentUser && (
+          <div className="flex-1 flex flex-col justify-center animate-in slide-in-from-left duration-300">
+            <h2 className="text-2xl font-black uppercase mb-2">Change Password</h2>
+            <p className="text-gray-500 font-medium mb-6">{currentUser.userId} must set a new password before continuing.</p>
+            <form onSubmit={handleChangePassword} className="space-y-4">
+              <div>
+                <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1 ml-1">New Password</label>
+                <input name="newPassword" type="password" required minLength={MIN_PASSWORD_LENGTH} placeholder="••••••••" className="w-full px-4 py-4 bg-white border border-gray-200 rounded-xl font-bold text-lg text-black" />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1 ml-1">Confirm Password</label>
+                <input name="confirmPassword" type="password" required placeholder="••••••••" className="w-full px-4 py-4 bg-white border border-gray-200 rounded-xl font-bold text-lg text-black" />
+              </div>
+              {error && <div className="text-red-600 font-bold text-sm p-4 bg-red-50 rounded-xl border border-red-100">{error}</div>}
+              <button type="submit" disabled={isAuthenticating} className={`w-full ${isAuthenticating ? 'bg-gray-400' : 'bg-slate-900'} text-white font-black py-4 rounded-xl shadow-lg uppercase tracking-widest active:scale-[0.98] transition-transform`}>{isAuthenticating ? 'Saving...' : 'Set Password'}</button>
+              <button type="button" onClick={logout} className="w-full text-slate-400 font-bold uppercase text-xs hover:text-slate-600">Cancel</button>
             </form>
           </div>
         )}
@@ -623,12 +1290,16 @@ const App: React.FC = () => {
               <div className={`w-full h-64 rounded-2xl overflow-hidden transition-all border-2 ${deviceImage ? 'border-blue-500 shadow-md bg-slate-100' : 'border-dashed border-gray-300 hover:border-blue-400'}`}>
                 {!deviceImage ? (
                   <label className="w-full h-full flex flex-col items-center justify-center gap-3 cursor-pointer text-gray-500">
-                    <input type="file" accept="image/*" className="hidden" onChange={async (e) => { const file = e.target.files?.[0]; if (file) setDeviceImage(await fileToBase64(file)); }} />
+                    <input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleDevicePhoto(file); }} />
                     <CameraIcon className="w-10 h-10 text-blue-500" />
                     <span className="text-[10px] font-black uppercase tracking-widest">Device Photo Required</span>
                   </label>
                 ) : (
-                  <ZoomableImage src={deviceImage} onRemove={() => setDeviceImage(null)} />
+                  <ZoomableImage
+                    media={deviceImage}
+                    onRemove={handleRemoveDevicePhoto}
+                    overlay={photoCodes && <PhotoCodeOverlay codes={photoCodes} serial={deviceId} width={deviceImage.width} height={deviceImage.height} />}
+                  />
                 )}
               </div>
 
@@ -643,14 +1314,18 @@ const App: React.FC = () => {
               )}
             </div>
 
+            <DraftList title="Unfinished Inspections" drafts={myDrafts} stages={stages} onResume={handleResumeDraft} onDiscard={handleDiscardDraft} />
+
+            <LotPicker lots={openLots} activeLot={activeLot} onSelect={lot => { setActiveLot(lot); setError(''); }} onPickSerial={setDeviceId} />
+
             <div>
               <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1 ml-1">Serial Number</label>
               <div className="flex gap-2">
                 <input 
                   id="serialNumberInput"
                   value={deviceId} 
-                  onChange={(e) => setDeviceId(e.target.value.toUpperCase())} 
-                  placeholder="FLEX-XXXX" 
+                  onChange={(e) => { setDeviceId(e.target.value.toUpperCase()); setIdSymbology(null); }} 
+                  placeholder={serialFormats.find(f => f.active)?.example ?? 'FLEX-XXXX'} 
                   className="flex-1 px-4 py-4 bg-white border border-gray-200 rounded-xl text-center text-xl font-mono font-black tracking-widest text-black" 
                 />
                 <button 
@@ -662,7 +1337,25 @@ const App: React.FC = () => {
                 </button>
               </div>
             </div>
+            {deviceImage && (
+              <PhotoCodes
+                codes={photoCodes}
+                isReading={isReadingPhoto}
+                serial={deviceId}
+                serialFormats={serialFormats}
+                mismatch={photoMismatch(deviceId, photoCodes ?? [], serialFormats)}
+                onPick={handlePickPhotoCode}
+              />
+            )}
+            <DeviceHistory deviceId={deviceId} stages={enabledStages} onPrint={hasPermission(currentUser, 'export_reports') ? handlePrintReport : undefined} />
+            {error && <div className="text-red-600 font-bold text-sm p-4 bg-red-50 rounded-xl border border-red-100">{error}</div>}
             <button onClick={handleDeviceSubmit} className="w-full bg-blue-600 text-white font-black py-4 rounded-xl shadow-lg uppercase tracking-widest active:scale-[0.98] transition-transform">Continue <ChevronRightIcon className="inline ml-1" /></button>
+            {currentStageDefinition?.skippable && (
+              <button onClick={handleSkipStage} className="w-full py-3 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 font-black text-[10px] uppercase tracking-widest hover:border-gray-400 hover:text-gray-500 transition-all">Skip {currentStageDefinition.label} for this device</button>
+            )}
+            {selectedStage === PACKING_STAGE_ID && canInspectStage(currentUser, PACKING_STAGE_ID) && (
+              <button onClick={() => setCurrentStep(AppStep.AGGREGATION)} className="w-full py-3 rounded-xl bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest hover:bg-slate-800 transition-all">Cartons &amp; Pallets</button>
+            )}
           </div>
         )}
 
@@ -676,44 +1369,86 @@ const App: React.FC = () => {
               </div>
               <div className="text-right">
                 <p className="text-[9px] uppercase font-black text-gray-400">Stage</p>
-                <p className="text-xs font-black text-gray-700 uppercase">{selectedStage}</p>
+                <p className="text-xs font-black text-gray-700 uppercase">{stageLabel(stages, selectedStage)}</p>
               </div>
             </div>
+            {reworkTicket && (
+              <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 text-xs font-bold text-amber-800 space-y-1">
+                <p className="text-[10px] font-black uppercase tracking-widest">Re-inspection · attempt {reworkTicket.attempt + 1}</p>
+                {reworkTicket.repair && <p>Repair by {reworkTicket.repair.technicianId}: {reworkTicket.repair.action}</p>}
+                <p>Previously failed: {reworkTicket.failedCheckpoints.map(cp => cp.defects.length > 0 ? `${cp.label} (${cp.defects.map(d => d.code).join(', ')})` : cp.label).join('; ')}</p>
+              </div>
+            )}
+            {!reworkTicket && previousReport && (
+              <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4 text-xs font-bold text-indigo-800 space-y-1">
+                <p className="text-[10px] font-black uppercase tracking-widest">Repeat inspection · attempt {previousReport.attempt + 1}</p>
+                <p>Follows report {previousReport.id} by {previousReport.userId} on {new Date(previousReport.timestamp).toLocaleString()} ({reportResult(previousReport)})</p>
+                {repeatReason && <p>Reason: {repeatReason}</p>}
+              </div>
+            )}
+            {checkpoints.some(cp => cp.spec.type === 'numeric') && instrumentState && <InstrumentBar state={instrumentState} specs={checkpoints.map(cp => cp.spec)} />}
             {checkpoints.map((cp, idx) => (
               <div key={cp.id} className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
                 <div className="p-3 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
                   <div className="flex items-center gap-2 flex-1">
                     <span className="text-[9px] bg-gray-200 px-2 py-0.5 rounded-full font-black text-gray-500 uppercase">Checkpoint {idx + 1}</span>
-                    {editingId === cp.id ? (
-                      <input autoFocus className="flex-1 bg-white border border-blue-300 rounded px-2 py-1 text-sm font-bold outline-none text-black" value={cp.label} onChange={(e) => handleCheckpointUpdate(cp.id, { label: e.target.value })} onBlur={() => setEditingId(null)} onKeyDown={(e) => e.key === 'Enter' && setEditingId(null)} />
+                    {!cp.mandatory && <span className="text-[9px] bg-white border border-gray-200 px-2 py-0.5 rounded-full font-black text-gray-400 uppercase">Optional</span>}
+                    {canRenameCheckpoint(cp) && editingId === cp.id ? (
+                      <input autoFocus className="flex-1 bg-white border border-blue-300 rounded px-2 py-1 text-sm font-bold outline-none text-black" value={cp.label} onChange={(e) => handleCheckpointUpdate(cp.id, { label: e.target.value })} onBlur={() => finishEditingCheckpoint(cp.id)} onKeyDown={(e) => e.key === 'Enter' && finishEditingCheckpoint(cp.id)} />
                     ) : (
-                      <h3 className="text-sm font-bold text-gray-800 flex items-center gap-2">{cp.label} <button onClick={() => setEditingId(cp.id)} className="text-gray-300 hover:text-blue-500 transition-colors"><EditIcon className="w-3.5 h-3.5" /></button></h3>
+                      <h3 className="text-sm font-bold text-gray-800 flex items-center gap-2">{cp.label} {canRenameCheckpoint(cp) && <button onClick={() => startEditingCheckpoint(cp)} className="text-gray-300 hover:text-blue-500 transition-colors"><EditIcon className="w-3.5 h-3.5" /></button>}</h3>
                     )}
                   </div>
-                  <button onClick={() => handleDeleteCheckpoint(cp.id)} className="text-gray-300 hover:text-red-500 ml-2 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                  {canRemoveCheckpoint(cp) && <button onClick={() => handleDeleteCheckpoint(cp.id)} className="text-gray-300 hover:text-red-500 ml-2 transition-colors"><TrashIcon className="w-4 h-4" /></button>}
                 </div>
                 <div className="p-4 space-y-4">
-                  <div className="grid grid-cols-2 gap-3">
-                    <button onClick={() => handleCheckpointUpdate(cp.id, { status: 'Pass' })} className={`py-3 rounded-xl flex items-center justify-center gap-2 font-black text-xs transition-all ${cp.status === 'Pass' ? 'bg-green-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}><CheckIcon className="w-4 h-4" /> PASS</button>
-                    <button onClick={() => handleCheckpointUpdate(cp.id, { status: 'Fail' })} className={`py-3 rounded-xl flex items-center justify-center gap-2 font-black text-xs transition-all ${cp.status === 'Fail' ? 'bg-red-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}><XIcon className="w-4 h-4" /> FAIL</button>
-                  </div>
-                  {!cp.image ? (
-                    <label className="w-full py-4 bg-blue-50 text-blue-700 rounded-xl border-2 border-dashed border-blue-200 flex items-center justify-center gap-2 font-black text-[10px] uppercase cursor-pointer hover:bg-blue-100 transition-colors"><input type="file" accept="image/*" className="hidden" onChange={async (e) => { const file = e.target.files?.[0]; if (file) handleCheckpointUpdate(cp.id, { image: await fileToBase64(file) }); }} /><CameraIcon className="w-4 h-4" /> Photo Required</label>
+                  {helpTextFor(cp.id) && <p className="text-xs font-bold text-slate-500 bg-slate-50 border border-slate-100 rounded-xl p-3">{helpTextFor(cp.id)}</p>}
+                  <CheckpointInput checkpoint={cp} deviceId={deviceId} instrument={instrumentState} onValue={(value, instrument) => handleCheckpointValue(cp, value, instrument)} onStatus={(status) => handleCheckpointUpdate(cp.id, { status })} />
+                  <EvidenceList evidence={cp.evidence} decision={cp.status} inspecting={inspectingPhotos} onRemove={index => handleRemoveEvidence(cp.id, index)} onAnnotate={index => setAnnotating({ id: cp.id, index })} />
+                  {recordingClip?.id === cp.id ? (
+                    <ClipRecorder kind={recordingClip.kind} onRecorded={clip => handleClipRecorded(cp.id, recordingClip.kind, clip)} onClose={() => setRecordingClip(null)} />
                   ) : (
-                    <div className="h-56 w-full rounded-xl overflow-hidden border border-gray-200 shadow-inner bg-slate-100">
-                      <ZoomableImage src={cp.image} onRemove={() => handleCheckpointUpdate(cp.id, { image: null })} />
+                    <div className="space-y-1.5">
+                      <div className="flex gap-2">
+                        <label className="flex-1 py-4 bg-blue-50 text-blue-700 rounded-xl border-2 border-dashed border-blue-200 flex items-center justify-center gap-2 font-black text-[10px] uppercase cursor-pointer hover:bg-blue-100 transition-colors"><input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleCheckpointPhoto(cp.id, file); }} /><CameraIcon className="w-4 h-4" /> Photo</label>
+                        {isRecordingSupported() && (['video', 'audio'] as ClipKind[]).map(kind => (
+                          <button key={kind} onClick={() => setRecordingClip({ id: cp.id, kind })} disabled={!!recordingClip} className="flex-1 py-4 bg-rose-50 text-rose-700 rounded-xl border-2 border-dashed border-rose-200 flex items-center justify-center gap-2 font-black text-[10px] uppercase hover:bg-rose-100 transition-colors disabled:opacity-40">● {kind === 'video' ? 'Video' : 'Audio'}</button>
+                        ))}
+                      </div>
+                      {missingEvidence(cp).length > 0 ? (
+                        <p className="text-[10px] font-black text-blue-700 uppercase tracking-widest">Needs {missingEvidence(cp).join(', ')} more</p>
+                      ) : describeMinimum(cp.minEvidence) && (
+                        <p className="text-[10px] font-black text-green-600 uppercase tracking-widest">Evidence complete: {describeMinimum(cp.minEvidence)}</p>
+                      )}
                     </div>
                   )}
                   {cp.status === 'Fail' && (
-                    <div className="animate-in slide-in-from-top duration-300">
-                      <div className="flex justify-between items-center mb-1.5"><label className="text-[10px] font-black text-red-600 uppercase tracking-widest">Failure Reason</label><button onClick={() => handleAIReason(cp.id, cp.label)} className="text-[9px] text-purple-600 font-black px-2 py-0.5 rounded border border-purple-100 uppercase hover:bg-purple-50 transition-colors">✨ AI Assist</button></div>
-                      <textarea value={cp.reason} onChange={(e) => handleCheckpointUpdate(cp.id, { reason: e.target.value })} placeholder="Enter defect details..." className="w-full p-3 bg-red-50 border border-red-100 rounded-xl text-sm outline-none font-bold h-20 text-black" />
+                    <div className="animate-in slide-in-from-top duration-300 space-y-3">
+                      {defectsFor(defectCatalog, cp.id).length > 0 && (
+                        <div>
+                          <label className="block text-[10px] font-black text-red-600 uppercase tracking-widest mb-1.5">Defect Codes</label>
+                          <div className="flex flex-wrap gap-2">
+                            {defectsFor(defectCatalog, cp.id).map(defect => (
+                              <button key={defect.code} onClick={() => toggleDefect(cp, defect)} className={`px-3 py-2 rounded-xl border-2 flex items-center gap-2 text-left text-xs font-bold transition-all ${cp.defects.some(d => d.code === defect.code) ? 'border-red-600 bg-red-50 text-red-800' : 'border-gray-100 text-gray-600 hover:border-gray-300'}`}>
+                                <DefectBadge defect={defect} /> {defect.description}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <div className="flex justify-between items-center mb-1.5"><label className="text-[10px] font-black text-red-600 uppercase tracking-widest">{defectsFor(defectCatalog, cp.id).length > 0 ? 'Notes (optional)' : 'Failure Reason'}</label><button onClick={() => handleAIReason(cp.id, cp.label)} className="text-[9px] text-purple-600 font-black px-2 py-0.5 rounded border border-purple-100 uppercase hover:bg-purple-50 transition-colors">✨ AI Assist</button></div>
+                        <textarea value={cp.reason} onChange={(e) => handleCheckpointUpdate(cp.id, { reason: e.target.value })} placeholder="Enter defect details..." className="w-full p-3 bg-red-50 border border-red-100 rounded-xl text-sm outline-none font-bold h-20 text-black" />
+                      </div>
                     </div>
                   )}
                 </div>
               </div>
             ))}
-            <button onClick={handleAddCheckpoint} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Checkpoint</button>
+            {checkpoints.filter(cp => cp.id === annotating?.id && cp.evidence[annotating.index]?.kind === 'photo').map(cp => (
+              <PhotoAnnotator key={cp.id} media={cp.evidence[annotating!.index].media} annotations={cp.evidence[annotating!.index].annotations} onSave={annotations => handleSaveAnnotations(cp, annotating!.index, annotations)} onClose={() => setAnnotating(null)} />
+            ))}
+            {canAddCheckpoints && <button onClick={handleAddCheckpoint} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Checkpoint</button>}
             <div className="fixed bottom-0 left-0 right-0 p-4 bg-white/95 backdrop-blur-sm border-t border-gray-200 z-30 max-w-2xl mx-auto w-full shadow-[0_-4px_10px_rgba(0,0,0,0.05)]">
                <button disabled={isSubmitting} onClick={handleFinalSubmit} className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest transition-all active:scale-[0.98] ${isSubmitting ? 'bg-gray-400' : 'bg-slate-900'} text-white shadow-xl`}>{isSubmitting ? 'Submitting...' : 'Submit Final Report'}</button>
             </div>
@@ -725,32 +1460,10 @@ const App: React.FC = () => {
             <button onClick={() => setCurrentStep(AppStep.DEVICE_ID_ENTRY)} className="self-start flex items-center text-blue-600 font-bold text-sm gap-1 hover:text-blue-800 transition-colors"><ArrowLeftIcon className="w-4 h-4" /> BACK</button>
             <h2 className="text-2xl font-black uppercase text-center">Scan Device ID</h2>
             
-            <div className="space-y-4">
-              <div className="w-full h-96 rounded-2xl overflow-hidden border-2 border-dashed border-gray-300 bg-gray-100 flex items-center justify-center relative">
-                <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                  <div className="border-4 border-blue-500 rounded-xl w-64 h-64"></div>
-                </div>
-                <div className="absolute bottom-4 left-0 right-0 text-center text-white font-bold bg-black/50 p-2 rounded-lg">
-                  Point camera at QR/Barcode
-                </div>
-              </div>
-              
-              <div className="flex gap-3">
-                <button 
-                  onClick={startScanning}
-                  className="flex-1 bg-blue-600 text-white font-black py-3 rounded-xl shadow-lg uppercase text-sm active:scale-[0.98] transition-transform"
-                >
-                  Start Scanning
-                </button>
-                <button 
-                  onClick={stopScanning}
-                  className="flex-1 bg-red-600 text-white font-black py-3 rounded-xl shadow-lg uppercase text-sm active:scale-[0.98] transition-transform"
-                >
-                  Stop
-                </button>
-              </div>
-            </div>
+            <BarcodeScanner
+              symbologies={currentStageDefinition?.symbologies ?? SYMBOLOGIES.map(s => s.symbology)}
+              onDetect={handleCodeScanned}
+            />
           </div>
         )}
 
@@ -758,11 +1471,26 @@ const App: React.FC = () => {
           <div className="flex-1 flex flex-col items-center justify-center text-center space-y-6 animate-in zoom-in duration-500">
             <div className="w-24 h-24 bg-green-100 text-green-600 rounded-full flex items-center justify-center shadow-inner"><CheckIcon className="w-12 h-12" /></div>
             <h2 className="text-3xl font-black uppercase tracking-tight">Report Submitted</h2>
+            {activeLot && (
+              <p className="text-sm font-bold text-indigo-800 bg-indigo-50 border border-indigo-100 rounded-xl p-4 max-w-sm">
+                Lot {activeLot.lotId}: {activeLot.samples.length} of {activeLot.plan.sampleSize} sampled, {nonconformingCount(activeLot)} nonconforming.
+              </p>
+            )}
+            {decidedLot && (
+              <p className={`text-sm font-black uppercase rounded-xl p-4 max-w-sm border ${decidedLot.status === 'accepted' ? 'text-green-700 bg-green-50 border-green-100' : 'text-red-700 bg-red-50 border-red-100'}`}>
+                Lot {decidedLot.lotId} {decidedLot.status}: {nonconformingCount(decidedLot)} nonconforming in {decidedLot.samples.length} sampled (Ac {decidedLot.plan.accept} / Re {decidedLot.plan.reject})
+              </p>
+            )}
+            {openedTicket && (
+              <p className="text-sm font-bold text-red-600 bg-red-50 border border-red-100 rounded-xl p-4 max-w-sm">
+                {openedTicket.deviceId} failed {openedTicket.failedCheckpoints.length} checkpoint(s). Rework ticket {openedTicket.ticketId} opened; the device can be re-inspected once the repair is recorded.
+              </p>
+            )}
             <button onClick={resetApp} className="w-full max-w-xs bg-slate-900 text-white font-black py-4 rounded-xl shadow-xl uppercase text-sm active:scale-95 transition-transform">Next Device</button>
           </div>
         )}
 
-        {currentStep === AppStep.ADMIN && (
+        {currentStep === AppStep.ADMIN && hasPermission(currentUser, 'manage_users') && (
           <div className="space-y-6 animate-in fade-in duration-500">
             <div className="flex justify-between items-center bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mb-4">
               <h2 className="text-xl font-black text-slate-800 uppercase tracking-tight">Admin Console</h2>
@@ -773,66 +1501,183 @@ const App: React.FC = () => {
                 >
                   Dashboard
                 </button>
+                {hasPermission(currentUser, 'manage_templates') && (
+                  <button onClick={() => setCurrentStep(AppStep.TEMPLATES)} className="bg-white text-slate-900 border border-gray-200 px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-50">Checklists</button>
+                )}
+                {hasPermission(currentUser, 'manage_templates') && (
+                  <button onClick={() => setCurrentStep(AppStep.PIPELINE)} className="bg-white text-slate-900 border border-gray-200 px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-50">Pipeline</button>
+                )}
+                {hasPermission(currentUser, 'manage_templates') && (
+                  <button onClick={() => setCurrentStep(AppStep.SERIAL_FORMATS)} className="bg-white text-slate-900 border border-gray-200 px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-50">Serial Formats</button>
+                )}
+                {hasPermission(currentUser, 'manage_defects') && (
+                  <button onClick={() => setCurrentStep(AppStep.DEFECTS)} className="bg-white text-slate-900 border border-gray-200 px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-50">Defect Codes</button>
+                )}
+                {hasPermission(currentUser, 'manage_lots') && (
+                  <button onClick={() => setCurrentStep(AppStep.LOTS)} className="bg-white text-slate-900 border border-gray-200 px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-50">Lots</button>
+                )}
+                {hasPermission(currentUser, 'view_audit') && (
+                  <button onClick={() => setCurrentStep(AppStep.AUDIT_LOG)} className="bg-slate-900 text-white px-4 py-2 rounded-lg transition-all font-black text-[10px] uppercase hover:bg-slate-800">Audit Trail</button>
+                )}
                 <button onClick={logout} className="text-red-500 font-black text-xs uppercase border border-red-100 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors">Logout</button>
               </div>
             </div>
-            <AdminPanel onBack={() => setCurrentStep(AppStep.STAGE_SELECTION)} onLogout={logout} onDashboard={() => setCurrentStep(AppStep.DASHBOARD)} />
+            <AdminPanel currentUser={currentUser} onBack={() => setCurrentStep(AppStep.STAGE_SELECTION)} onLogout={logout} onDashboard={() => setCurrentStep(AppStep.DASHBOARD)} />
           </div>
         )}
         
-        {currentStep === AppStep.DASHBOARD && renderDashboard()}
+        {currentStep === AppStep.DASHBOARD && hasPermission(currentUser, 'view_dashboard') && renderDashboard()}
+
+        {currentStep === AppStep.AUDIT_LOG && hasPermission(currentUser, 'view_audit') && (
+          <AuditLogViewer onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.TEMPLATES && hasPermission(currentUser, 'manage_templates') && (
+          <TemplateEditor currentUser={currentUser} onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.REWORK && hasPermission(currentUser, 'record_repairs') && (
+          <ReworkQueue currentUser={currentUser} onClose={hasPermission(currentUser, 'view_dashboard') ? () => setCurrentStep(AppStep.DASHBOARD) : undefined} />
+        )}
+
+        {currentStep === AppStep.PIPELINE && hasPermission(currentUser, 'manage_templates') && (
+          <PipelineEditor currentUser={currentUser} onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.SERIAL_FORMATS && hasPermission(currentUser, 'manage_templates') && (
+          <SerialFormatEditor currentUser={currentUser} onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.DEFECTS && hasPermission(currentUser, 'manage_defects') && (
+          <DefectCatalogEditor currentUser={currentUser} onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.LOTS && hasPermission(currentUser, 'manage_lots') && (
+          <LotManager currentUser={currentUser} stages={enabledStages} onClose={() => setCurrentStep(hasPermission(currentUser, 'manage_users') ? AppStep.ADMIN : AppStep.DASHBOARD)} />
+        )}
+
+        {currentStep === AppStep.AGGREGATION && (canInspectStage(currentUser, PACKING_STAGE_ID) || hasPermission(currentUser, 'trace_shipments')) && (
+          <AggregationStation
+            currentUser={currentUser}
+            stages={enabledStages}
+            canPack={canInspectStage(currentUser, PACKING_STAGE_ID)}
+            onClose={() => setCurrentStep(selectedStage ? AppStep.DEVICE_ID_ENTRY : AppStep.DASHBOARD)}
+          />
+        )}
       </main>
     </div>
   );
 };
 
-const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboard?: () => void }> = ({ onBack, onLogout, onDashboard }) => {
+const AdminPanel: React.FC<{ currentUser: User | null, onBack: () => void, onLogout: () => void, onDashboard?: () => void }> = ({ currentUser, onBack, onLogout, onDashboard }) => {
   const [users, setUsers] = useState<User[]>([]);
   const [newUserId, setNewUserId] = useState('');
   const [newPassword, setNewPassword] = useState('');
-  const [newStage, setNewStage] = useState<Stage>('FQC');
+  const [stages, setStages] = useState<StageDefinition[]>([]);
+  const [newStages, setNewStages] = useState<StageId[]>([]);
+  const [newRole, setNewRole] = useState<Role>('inspector');
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchStage, setSearchStage] = useState<Stage>('FQC');
+  const [searchStage, setSearchStage] = useState<Stage>(null);
   const [searchResult, setSearchResult] = useState<User | null | undefined>(undefined);
   const [hasSearched, setHasSearched] = useState(false);
 
-  useEffect(() => setUsers(getStoredUsers()), []);
+  useEffect(() => {
+    repository.getUsers().then(setUsers).catch(err => console.error('Failed to load users:', err));
+    repository.getStages()
+      .then(loaded => {
+        setStages(loaded);
+        const first = loaded.find(s => s.enabled)?.stageId ?? null;
+        setSearchStage(first);
+        setNewStages(first ? [first] : []);
+      })
+      .catch(err => console.error('Failed to load stages:', err));
+  }, []);
+
+  // New operators start with the first stage of the line selected
+  const defaultStages = () => {
+    const first = stages.find(s => s.enabled);
+    return first ? [first.stageId] : [];
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const audit = (action: AuditAction, userId: string, before: User | null | undefined, after: User | null) => {
+    const passwordChanged = !!before && !!after && before.passwordHash !== after.passwordHash;
+    recordAudit(repository, {
+      actor: currentUser?.userId ?? 'system',
+      action,
+      target: { type: 'user', id: userId },
+      before: auditableUser(before),
+      after: after ? { ...auditableUser(after), ...(passwordChanged ? { passwordReset: true } : {}) } : null
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newUserId || !newPassword) return;
+    // Password is optional when editing: blank keeps the current one
+    if (!newUserId || (!editingUserId && !newPassword)) return;
+    if (newPassword && newPassword.length < MIN_PASSWORD_LENGTH) {
+      alert(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (ROLE_PERMISSIONS[newRole].includes('inspect') && newStages.length === 0) {
+      alert('Select at least one section for this role.');
+      return;
+    }
 
-    let updated: User[];
-    if (editingUserId) {
-      updated = users.map(u => u.userId === editingUserId ? { ...u, password: newPassword, assignedStage: newStage } : u);
-      setEditingUserId(null);
-    } else {
-      const newUser: User = { 
-        userId: newUserId, 
-        password: newPassword, 
-        isAdmin: false, 
-        isActive: true, 
-        assignedStage: newStage 
-      };
-      updated = [...users, newUser];
+    let saved: User;
+    try {
+      if (editingUserId) {
+        const existing = users.find(u => u.userId === editingUserId);
+        if (!existing) return;
+        saved = {
+          ...existing,
+          role: newRole,
+          allowedStages: newStages,
+          ...(newPassword ? { passwordHash: await hashPassword(newPassword), failedAttempts: 0, lockedUntil: null } : {})
+        };
+      } else {
+        if (users.some(u => u.userId === newUserId)) {
+          alert(`Operator ${newUserId} already exists.`);
+          return;
+        }
+        saved = { 
+          userId: newUserId, 
+          passwordHash: await hashPassword(newPassword), 
+          role: newRole, 
+          isActive: true, 
+          allowedStages: newStages,
+          mustChangePassword: false,
+          failedAttempts: 0,
+          lockedUntil: null
+        };
+      }
+
+      await repository.saveUser(saved);
+    } catch (err) {
+      console.error('Failed to save user:', err);
+      alert('Operator could not be saved. Please try again.');
+      return;
     }
+    const before = editingUserId ? users.find(u => u.userId === editingUserId) : null;
+    audit(editingUserId ? 'user.update' : 'user.create', saved.userId, before, saved);
 
-    setUsers(updated);
-    saveUsers(updated);
+    setUsers(prev => editingUserId ? prev.map(u => u.userId === editingUserId ? saved : u) : [...prev, saved]);
+    setEditingUserId(null);
     setNewUserId('');
     setNewPassword('');
-    setNewStage('FQC'); // Reset to default
+    setNewStages(defaultStages()); // Reset to default
+    setNewRole('inspector');
     setHasSearched(false); 
   };
 
   const handleEdit = (user: User) => {
     setEditingUserId(user.userId);
     setNewUserId(user.userId);
-    setNewPassword(user.password);
-    setNewStage(user.assignedStage); // Correctly populate the stage toggle for editing
+    setNewPassword('');
+    setNewStages(user.allowedStages); // Correctly populate the stage toggles for editing
+    setNewRole(user.role);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
@@ -840,35 +1685,70 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
     setEditingUserId(null);
     setNewUserId('');
     setNewPassword('');
-    setNewStage('FQC'); // Reset to default
+    setNewStages(defaultStages()); // Reset to default
+    setNewRole('inspector');
   };
 
-  const deleteUser = (userId: string) => {
-    if (userId === 'admin') return;
+  const toggleNewStage = (stage: StageId) => {
+    setNewStages(prev => prev.includes(stage) ? prev.filter(s => s !== stage) : [...prev, stage]);
+  };
+
+  const deleteUser = async (userId: string) => {
+    if (userId === INITIAL_ADMIN_USER.userId) return;
     if (!confirm(`Confirm deletion of operator: ${userId}?`)) return;
-    const updated = users.filter(u => u.userId !== userId);
-    setUsers(updated);
-    saveUsers(updated);
+    try {
+      await repository.deleteUser(userId);
+    } catch (err) {
+      console.error('Failed to delete user:', err);
+      alert('Operator could not be deleted. Please try again.');
+      return;
+    }
+    audit('user.delete', userId, users.find(u => u.userId === userId), null);
+    setUsers(prev => prev.filter(u => u.userId !== userId));
     if (searchResult?.userId === userId) setSearchResult(null);
   };
 
-  const toggleStatus = (userId: string) => {
-    if (userId === 'admin') return;
-    const updated = users.map(u => u.userId === userId ? { ...u, isActive: !u.isActive } : u);
-    setUsers(updated);
-    saveUsers(updated);
+  const toggleStatus = async (userId: string) => {
+    if (userId === INITIAL_ADMIN_USER.userId) return;
+    const existing = users.find(u => u.userId === userId);
+    if (!existing) return;
+    const toggled = { ...existing, isActive: !existing.isActive };
+    try {
+      await repository.saveUser(toggled);
+    } catch (err) {
+      console.error('Failed to update user:', err);
+      alert('Operator status could not be changed. Please try again.');
+      return;
+    }
+    audit(toggled.isActive ? 'user.enable' : 'user.disable', userId, existing, toggled);
+    setUsers(prev => prev.map(u => u.userId === userId ? toggled : u));
     if (searchResult?.userId === userId) {
-        setSearchResult(updated.find(u => u.userId === userId));
+        setSearchResult(toggled);
     }
   };
 
+  const unlockUser = async (userId: string) => {
+    const existing = users.find(u => u.userId === userId);
+    if (!existing) return;
+    const unlocked = { ...existing, failedAttempts: 0, lockedUntil: null };
+    try {
+      await repository.saveUser(unlocked);
+    } catch (err) {
+      console.error('Failed to unlock user:', err);
+      alert('Operator could not be unlocked. Please try again.');
+      return;
+    }
+    audit('user.unlock', userId, existing, unlocked);
+    setUsers(prev => prev.map(u => u.userId === userId ? unlocked : u));
+  };
+
   const handleSearch = () => {
     if (!searchQuery.trim()) {
         setHasSearched(false);
         setSearchResult(undefined);
         return;
     }
-    const found = users.find(u => u.userId.toLowerCase() === searchQuery.toLowerCase().trim() && u.assignedStage === searchStage);
+    const found = users.find(u => u.userId.toLowerCase() === searchQuery.toLowerCase().trim() && !!searchStage && u.allowedStages.includes(searchStage));
     setSearchResult(found || null);
     setHasSearched(true);
   };
@@ -879,46 +1759,14 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
     setSearchResult(undefined);
   };
 
-  const handleExportCSV = () => {
-    const reports = getStoredReports();
+  const handleExportCSV = async () => {
+    const reports = await repository.getReports();
     if (reports.length === 0) {
       alert('No reports available to export.');
       return;
     }
-
-    // Helper to escape CSV values safely
-    const escape = (val: any) => `"${String(val || '').replace(/"/g, '""')}"`;
-
-    const headers = ['Report ID', 'Timestamp', 'Stage', 'User ID', 'Device ID', 'Checkpoints Summary'];
-    const rows = reports.map(r => {
-      // Create a detailed summary of checkpoints for a single column
-      const checkpointsSummary = r.checkpoints.map(cp => 
-        `${cp.label}: ${cp.status || 'N/A'}${cp.status === 'Fail' ? ` (Reason: ${cp.reason || 'Not provided'})` : ''}`
-      ).join(' | ');
-
-      return [
-        escape(r.id),
-        escape(r.timestamp),
-        escape(r.stage),
-        escape(r.userId),
-        escape(r.deviceId),
-        escape(checkpointsSummary)
-      ].join(',');
-    });
-
-    const csvContent = [headers.join(','), ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    
-    // Set timestamped filename
-    const dateStr = new Date().toISOString().split('T')[0];
-    link.setAttribute('href', url);
-    link.setAttribute('download', `Flex_QC_Export_${dateStr}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    recordAudit(repository, { actor: currentUser?.userId ?? 'system', action: 'report.export', target: { type: 'report', id: 'all' }, after: { format: 'csv', reports: reports.length } });
+    downloadCsv(reportsToCsv(reports), `Flex_QC_Export_${new Date().toISOString().split('T')[0]}.csv`);
   };
 
   return (
@@ -948,14 +1796,14 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
               <span className="text-[10px] font-black uppercase">Dashboard</span>
             </button>
             {/* Export Reports Button */}
-            <button 
+            {hasPermission(currentUser, 'export_reports') && <button 
               onClick={handleExportCSV}
               className="bg-blue-600 text-white hover:bg-blue-700 px-4 py-2 rounded-xl transition-all shadow-md flex items-center gap-2 group border border-blue-500"
               title="Download QC reports as CSV"
             >
               <SaveIcon className="w-4 h-4 group-hover:translate-y-0.5 transition-transform" />
               <span className="text-[10px] font-black uppercase">Export Reports</span>
-            </button>
+            </button>}
             <button onClick={onLogout} className="text-red-500 font-black text-xs uppercase border border-red-100 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors">Logout</button>
           </div>
         </div>
@@ -969,20 +1817,16 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
         
         <div className="space-y-3">
           <div className="grid grid-cols-2 gap-3">
-            <button 
-              type="button"
-              onClick={() => setSearchStage('FQC')}
-              className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${searchStage === 'FQC' ? 'bg-slate-900 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
-            >
-              FQC Inspection
-            </button>
-            <button 
-              type="button"
-              onClick={() => setSearchStage('Packaging')}
-              className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${searchStage === 'Packaging' ? 'bg-slate-900 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
-            >
-              Packaging & QC
-            </button>
+            {stages.filter(s => s.enabled).map(stage => (
+              <button 
+                key={stage.stageId}
+                type="button"
+                onClick={() => setSearchStage(stage.stageId)}
+                className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${searchStage === stage.stageId ? 'bg-slate-900 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+              >
+                {stage.label}
+              </button>
+            ))}
           </div>
           
           <div className="flex gap-2">
@@ -1008,7 +1852,7 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
                   <div>
                     <p className="text-[10px] font-black text-blue-600 uppercase tracking-widest">Search Result</p>
                     <p className="text-lg font-black text-slate-900">{searchResult.userId}</p>
-                    <p className="text-[10px] font-black text-slate-500 uppercase">{searchResult.assignedStage === 'FQC' ? 'FQC Inspection' : 'Packaging & QC'}</p>
+                    <p className="text-[10px] font-black text-slate-500 uppercase">{ROLE_LABELS[searchResult.role]} · {searchResult.allowedStages.map(s => stageLabel(stages, s)).join(', ')}</p>
                   </div>
                   <div className="flex gap-2">
                     <button onClick={() => handleEdit(searchResult)} className="text-blue-600 bg-white border border-blue-100 p-2 rounded-lg shadow-sm hover:bg-blue-50 transition-colors">
@@ -1051,29 +1895,37 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
             <input 
               value={newPassword} 
               onChange={e => setNewPassword(e.target.value)} 
-              placeholder="Password" 
+              placeholder={editingUserId ? 'New Password (optional)' : 'Password'} 
               type="password" 
               className="admin-input bg-slate-800 border-none rounded-xl px-4 py-3 outline-none focus:bg-slate-700" 
             />
           </div>
           
           <div className="space-y-1.5">
-            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Assigned Section</label>
+            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Role</label>
+            <select
+              value={newRole}
+              onChange={e => setNewRole(e.target.value as Role)}
+              disabled={editingUserId === INITIAL_ADMIN_USER.userId}
+              className="admin-input w-full bg-slate-800 border-none rounded-xl px-4 py-3 outline-none focus:bg-slate-700"
+            >
+              {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Allowed Sections</label>
             <div className="grid grid-cols-2 gap-3">
-              <button 
-                type="button"
-                onClick={() => setNewStage('FQC')}
-                className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${newStage === 'FQC' ? 'bg-blue-600 text-white shadow-lg scale-105' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
-              >
-                FQC Inspection
-              </button>
-              <button 
-                type="button"
-                onClick={() => setNewStage('Packaging')}
-                className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${newStage === 'Packaging' ? 'bg-blue-600 text-white shadow-lg scale-105' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
-              >
-                Packaging & QC
-              </button>
+              {stages.filter(s => s.enabled || newStages.includes(s.stageId)).map(stage => (
+                <button 
+                  key={stage.stageId}
+                  type="button"
+                  onClick={() => toggleNewStage(stage.stageId)}
+                  className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${newStages.includes(stage.stageId) ? 'bg-blue-600 text-white shadow-lg scale-105' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                >
+                  {stage.label}
+                </button>
+              ))}
             </div>
           </div>
           
@@ -1091,25 +1943,31 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
         <div className="overflow-x-auto">
             <table className="w-full text-left text-xs">
               <thead className="bg-slate-50 border-b border-gray-200 text-slate-500 font-black uppercase tracking-widest">
-                <tr><th className="px-4 py-3">Operator User ID</th><th className="px-4 py-3">Assigned Section</th><th className="px-4 py-3">Status</th><th className="px-4 py-3 text-right">Action</th></tr>
+                <tr><th className="px-4 py-3">Operator User ID</th><th className="px-4 py-3">Role</th><th className="px-4 py-3">Allowed Sections</th><th className="px-4 py-3">Status</th><th className="px-4 py-3 text-right">Action</th></tr>
               </thead>
               <tbody className="divide-y divide-gray-100 font-bold">
                 {users.map(u => (
                   <tr key={u.userId} className={`hover:bg-slate-50 transition-colors ${editingUserId === u.userId ? 'bg-blue-50' : ''} ${hasSearched && searchResult?.userId !== u.userId ? 'opacity-30' : ''}`}>
                     <td className="px-4 py-4 text-gray-900 font-bold">{u.userId}</td>
+                    <td className="px-4 py-4 uppercase text-[10px] text-gray-700 font-black">{ROLE_LABELS[u.role]}</td>
                     <td className="px-4 py-4 uppercase text-[10px] text-gray-700 font-black">
-                      {u.assignedStage === 'FQC' ? 'FQC Inspection' : 'Packaging & QC'}
+                      {u.allowedStages.length > 0 ? u.allowedStages.map(s => stageLabel(stages, s)).join(', ') : '—'}
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className={`text-[10px] uppercase ${u.isActive ? 'text-green-600' : 'text-red-600'}`}>{u.isActive ? 'Active' : 'Disabled'}</span>
+                      {isLocked(u) && (
+                        <button onClick={() => unlockUser(u.userId)} title={`Locked until ${new Date(u.lockedUntil!).toLocaleTimeString()}`} className="ml-2 text-[9px] uppercase font-black px-2 py-0.5 rounded border text-red-600 border-red-100 hover:bg-red-50 transition-colors">Locked · Unlock</button>
+                      )}
                     </td>
-                    <td className="px-4 py-4"><span className={`text-[10px] uppercase ${u.isActive ? 'text-green-600' : 'text-red-600'}`}>{u.isActive ? 'Active' : 'Disabled'}</span></td>
                     <td className="px-4 py-4 text-right flex justify-end gap-2">
                       <button 
-                        disabled={u.isAdmin} 
+                        disabled={u.userId === INITIAL_ADMIN_USER.userId} 
                         onClick={() => toggleStatus(u.userId)} 
-                        className={`text-[9px] uppercase font-black px-2 py-1 rounded border transition-colors ${u.isAdmin ? 'opacity-0' : (u.isActive ? 'text-amber-600 border-amber-100 hover:bg-amber-50' : 'text-green-600 border-green-100 hover:bg-green-50')}`}
+                        className={`text-[9px] uppercase font-black px-2 py-1 rounded border transition-colors ${u.userId === INITIAL_ADMIN_USER.userId ? 'opacity-0' : (u.isActive ? 'text-amber-600 border-amber-100 hover:bg-amber-50' : 'text-green-600 border-green-100 hover:bg-green-50')}`}
                       >
                         {u.isActive ? 'Disable' : 'Enable'}
                       </button>
-                      {!u.isAdmin && (
+                      {u.userId !== INITIAL_ADMIN_USER.userId && (
                         <>
                           <button onClick={() => handleEdit(u)} title="Edit Operator" className="text-blue-600 border border-blue-100 p-1 rounded hover:bg-blue-50 transition-colors">
                             <EditIcon className="w-4 h-4" />
@@ -1126,6 +1984,8 @@ const AdminPanel: React.FC<{ onBack: () => void, onLogout: () => void, onDashboa
             </table>
         </div>
       </div>
+
+      <MigrationReportPanel />
     </div>
   );
 };
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { AIPhotoInspection } from '../types';
+import { strokeWidthFor } from '../services/annotations';
+
+// Dashed box around the suspected defect, for ZoomableImage and thumbnails
+export const AIRegionOverlay: React.FC<{ inspection: AIPhotoInspection | null; width: number; height: number }> = ({ inspection, width, height }) => {
+  if (!inspection?.region) return null;
+  const { x, y, width: w, height: h } = inspection.region;
+  const stroke = strokeWidthFor(width, height);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+      <rect x={x * width} y={y * height} width={w * width} height={h * height} fill="none" stroke="#a855f7" strokeWidth={stroke} strokeDasharray={`${stroke * 3} ${stroke * 2}`} />
+    </svg>
+  );
+};
+
+// The AI's suggestion under a photo. It never sets the checkpoint; a decision
+// that differs is only pointed out here and logged on submit.
+const AIInspectionNote: React.FC<{
+  inspection: AIPhotoInspection | null;
+  isInspecting?: boolean;
+  decision?: 'Pass' | 'Fail' | null;
+}> = ({ inspection, isInspecting = false, decision = null }) => {
+  if (isInspecting) {
+    return <p className="text-[10px] font-black text-purple-400 uppercase tracking-widest animate-pulse">AI pre-inspection running...</p>;
+  }
+  if (!inspection) return null;
+  const disagrees = decision !== null && decision !== inspection.verdict;
+  return (
+    <div className="rounded-lg border border-purple-100 bg-purple-50 px-3 py-2 space-y-0.5">
+      <p className="text-[10px] font-black text-purple-700 uppercase tracking-widest">
+        AI suggests <span className={inspection.verdict === 'Fail' ? 'text-red-600' : 'text-green-600'}>{inspection.verdict}</span> · {Math.round(inspection.confidence * 100)}% confident
+      </p>
+      {inspection.finding && <p className="text-xs font-bold text-slate-600">{inspection.finding}</p>}
+      <p className="text-[9px] font-black text-purple-400 uppercase tracking-widest">
+        {disagrees ? `Advisory only · you marked ${decision}; the difference is logged` : 'Advisory only · your judgement decides'}
+      </p>
+    </div>
+  );
+};
+
+export default AIInspectionNote;
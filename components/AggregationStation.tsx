@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { Carton, Pallet, StageDefinition, User } from '../types';
+import { DEFAULT_CARTON_CAPACITY } from '../constants.tsx';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { findCartonFor, buildManifest, manifestToJson } from '../services/aggregation';
+import { manifestToCsv, downloadCsv, downloadFile } from '../services/reportExport';
+
+const newId = (prefix: string) => `${prefix}-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${Date.now().toString(36).slice(-4).toUpperCase()}`;
+
+const inputClass = 'p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black';
+const darkButton = 'px-4 py-3 rounded-xl bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-40';
+const lightButton = 'px-4 py-3 rounded-xl bg-slate-100 text-slate-700 font-black text-[10px] uppercase tracking-widest disabled:opacity-40';
+
+// Packs passed devices into cartons and cartons onto pallets, traces a serial
+// to its carton and pallet, and exports the shipping manifest of a pallet.
+// Without canPack the station is read-only: trace and manifests only.
+const AggregationStation: React.FC<{
+  currentUser: User | null;
+  stages: StageDefinition[];
+  canPack: boolean;
+  onClose: () => void;
+}> = ({ currentUser, stages, canPack, onClose }) => {
+  const [cartons, setCartons] = useState<Carton[]>([]);
+  const [pallets, setPallets] = useState<Pallet[]>([]);
+  const [activeCartonId, setActiveCartonId] = useState('');
+  const [activePalletId, setActivePalletId] = useState('');
+  const [capacity, setCapacity] = useState(String(DEFAULT_CARTON_CAPACITY));
+  const [serialScan, setSerialScan] = useState('');
+  const [cartonScan, setCartonScan] = useState('');
+  const [traceQuery, setTraceQuery] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const actor = currentUser?.userId ?? 'system';
+
+  const load = () => Promise.all([repository.getCartons(), repository.getPallets()])
+    .then(([c, p]) => { setCartons(c); setPallets(p); })
+    .catch(err => console.error('Failed to load cartons and pallets:', err));
+  useEffect(() => { load(); }, []);
+
+  const activeCarton = cartons.find(c => c.cartonId === activeCartonId) ?? null;
+  const activePallet = pallets.find(p => p.palletId === activePalletId) ?? null;
+
+  // Runs one station action, reporting its error or success and reloading
+  const run = async (action: () => Promise<string>) => {
+    setError('');
+    setNotice('');
+    try {
+      setNotice(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed.');
+    }
+    await load();
+  };
+
+  const handleCreateCarton = () => run(async () => {
+    const size = Number(capacity);
+    if (!Number.isInteger(size) || size < 1) throw new Error('Capacity must be a whole number of at least 1');
+    const carton: Carton = {
+      cartonId: newId('CTN'), capacity: size, serials: [], palletId: null,
+      status: 'open', createdAt: new Date().toISOString(), createdBy: actor, sealedAt: null
+    };
+    await repository.addCarton(carton);
+    recordAudit(repository, { actor, action: 'carton.create', target: { type: 'carton', id: carton.cartonId }, after: { capacity: size } });
+    setActiveCartonId(carton.cartonId);
+    return `Carton ${carton.cartonId} opened.`;
+  });
+
+  const handlePack = () => run(async () => {
+    const deviceId = serialScan.trim().toUpperCase();
+    setSerialScan('');
+    if (!activeCarton || !deviceId) throw new Error('Open a carton and scan a serial.');
+    const carton = await repository.packDevice(activeCarton.cartonId, deviceId);
+    recordAudit(repository, { actor, action: 'carton.pack', target: { type: 'carton', id: carton.cartonId }, after: { deviceId }, context: { deviceId } });
+    return `${deviceId} packed (${carton.serials.length}/${carton.capacity}).`;
+  });
+
+  const handleUnpack = (carton: Carton, deviceId: string) => run(async () => {
+    await repository.unpackDevice(carton.cartonId, deviceId);
+    recordAudit(repository, { actor, action: 'carton.unpack', target: { type: 'carton', id: carton.cartonId }, before: { deviceId }, context: { deviceId } });
+    return `${deviceId} removed from ${carton.cartonId}.`;
+  });
+
+  const handleSeal = (carton: Carton) => run(async () => {
+    const sealed = await repository.sealCarton(carton.cartonId);
+    recordAudit(repository, { actor, action: 'carton.seal', target: { type: 'carton', id: sealed.cartonId }, after: { serials: sealed.serials } });
+    setActiveCartonId('');
+    return `Carton ${sealed.cartonId} sealed with ${sealed.serials.length} devices.`;
+  });
+
+  const handleCreatePallet = () => run(async () => {
+    const pallet: Pallet = {
+      palletId: newId('PLT'), cartonIds: [], status: 'open',
+      createdAt: new Date().toISOString(), createdBy: actor, closedAt: null
+    };
+    await repository.addPallet(pallet);
+    recordAudit(repository, { actor, action: 'pallet.create', target: { type: 'pallet', id: pallet.palletId } });
+    setActivePalletId(pallet.palletId);
+    return `Pallet ${pallet.palletId} opened.`;
+  });
+
+  const handleLoad = () => run(async () => {
+    const cartonId = cartonScan.trim().toUpperCase();
+    setCartonScan('');
+    if (!activePallet || !cartonId) throw new Error('Open a pallet and scan a sealed carton.');
+    const pallet = await repository.loadCarton(activePallet.palletId, cartonId);
+    recordAudit(repository, { actor, action: 'pallet.load', target: { type: 'pallet', id: pallet.palletId }, after: { cartonId } });
+    return `Carton ${cartonId} loaded (${pallet.cartonIds.length} on pallet).`;
+  });
+
+  const handleUnload = (pallet: Pallet, cartonId: string) => run(async () => {
+    await repository.unloadCarton(pallet.palletId, cartonId);
+    recordAudit(repository, { actor, action: 'pallet.unload', target: { type: 'pallet', id: pallet.palletId }, before: { cartonId } });
+    return `Carton ${cartonId} removed from ${pallet.palletId}.`;
+  });
+
+  const handleClose = (pallet: Pallet) => run(async () => {
+    const closed = await repository.closePallet(pallet.palletId);
+    recordAudit(repository, { actor, action: 'pallet.close', target: { type: 'pallet', id: closed.palletId }, after: { cartonIds: closed.cartonIds } });
+    setActivePalletId('');
+    return `Pallet ${closed.palletId} closed.`;
+  });
+
+  const handleManifest = (pallet: Pallet, format: 'csv' | 'json') => run(async () => {
+    const rows = buildManifest(pallet, cartons, await repository.getReports(), stages);
+    recordAudit(repository, {
+      actor,
+      action: 'report.export',
+      target: { type: 'pallet', id: pallet.palletId },
+      after: { format: `manifest-${format}`, cartons: pallet.cartonIds.length, units: rows.length }
+    });
+    if (format === 'csv') downloadCsv(manifestToCsv(rows, stages), `Flex_QC_Manifest_${pallet.palletId}.csv`);
+    else downloadFile(manifestToJson(pallet, rows), `Flex_QC_Manifest_${pallet.palletId}.json`, 'application/json');
+    return `Manifest for ${pallet.palletId} exported (${rows.length} units).`;
+  });
+
+  // Serial, carton or pallet ID, resolved up and down the hierarchy
+  const query = traceQuery.trim().toUpperCase();
+  const tracedCarton = query ? cartons.find(c => c.cartonId === query) ?? findCartonFor(cartons, query) : null;
+  const tracedPallet = query ? pallets.find(p => p.palletId === query) ?? pallets.find(p => p.palletId === tracedCarton?.palletId) ?? null : null;
+
+  const openCartons = cartons.filter(c => c.status === 'open');
+  const openPallets = pallets.filter(p => p.status === 'open');
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Cartons &amp; Pallets</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{canPack ? 'Packing station' : 'Trace and manifests'}</p>
+        </div>
+        <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+      </div>
+
+      {error && <p className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100">{error}</p>}
+      {notice && <p className="text-green-700 font-bold text-xs p-3 bg-green-50 rounded-xl border border-green-100">{notice}</p>}
+
+      {canPack && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm space-y-3">
+            <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Carton</h3>
+            <div className="flex gap-2">
+              <select value={activeCartonId} onChange={e => setActiveCartonId(e.target.value)} className={`${inputClass} flex-1`}>
+                <option value="">Choose an open carton</option>
+                {openCartons.map(c => <option key={c.cartonId} value={c.cartonId}>{c.cartonId} · {c.serials.length}/{c.capacity}</option>)}
+              </select>
+              <input value={capacity} onChange={e => setCapacity(e.target.value)} type="number" min={1} title="Capacity" className={`${inputClass} w-20`} />
+              <button onClick={handleCreateCarton} className={lightButton}>New</button>
+            </div>
+            {activeCarton && (
+              <>
+                <form onSubmit={e => { e.preventDefault(); handlePack(); }} className="flex gap-2">
+                  <input value={serialScan} onChange={e => setSerialScan(e.target.value.toUpperCase())} autoFocus placeholder="Scan device serial" className={`${inputClass} flex-1`} />
+                  <button type="submit" className={darkButton}>Pack</button>
+                </form>
+                <div className="flex flex-wrap gap-1.5">
+                  {activeCarton.serials.map(serial => (
+                    <button key={serial} onClick={() => handleUnpack(activeCarton, serial)} title="Remove from carton" className="px-2 py-1 rounded-lg border border-gray-200 font-mono font-black text-[10px] text-gray-700 hover:bg-red-50 hover:border-red-200">{serial} ×</button>
+                  ))}
+                </div>
+                <div className="flex justify-between items-center">
+                  <p className="text-xs font-black text-slate-600">{activeCarton.serials.length} / {activeCarton.capacity} packed</p>
+                  <button onClick={() => handleSeal(activeCarton)} disabled={activeCarton.serials.length === 0} className={darkButton}>Seal Carton</button>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm space-y-3">
+            <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Pallet</h3>
+            <div className="flex gap-2">
+              <select value={activePalletId} onChange={e => setActivePalletId(e.target.value)} className={`${inputClass} flex-1`}>
+                <option value="">Choose an open pallet</option>
+                {openPallets.map(p => <option key={p.palletId} value={p.palletId}>{p.palletId} · {p.cartonIds.length} cartons</option>)}
+              </select>
+              <button onClick={handleCreatePallet} className={lightButton}>New</button>
+            </div>
+            {activePallet && (
+              <>
+                <form onSubmit={e => { e.preventDefault(); handleLoad(); }} className="flex gap-2">
+                  <input value={cartonScan} onChange={e => setCartonScan(e.target.value.toUpperCase())} placeholder="Scan sealed carton ID" list="sealed-cartons" className={`${inputClass} flex-1`} />
+                  <datalist id="sealed-cartons">
+                    {cartons.filter(c => c.status === 'sealed' && !c.palletId).map(c => <option key={c.cartonId} value={c.cartonId} />)}
+                  </datalist>
+                  <button type="submit" className={darkButton}>Load</button>
+                </form>
+                <div className="flex flex-wrap gap-1.5">
+                  {activePallet.cartonIds.map(cartonId => (
+                    <button key={cartonId} onClick={() => handleUnload(activePallet, cartonId)} title="Remove from pallet" className="px-2 py-1 rounded-lg border border-gray-200 font-mono font-black text-[10px] text-gray-700 hover:bg-red-50 hover:border-red-200">{cartonId} ×</button>
+                  ))}
+                </div>
+                <div className="flex justify-between items-center">
+                  <p className="text-xs font-black text-slate-600">{activePallet.cartonIds.length} cartons loaded</p>
+                  <button onClick={() => handleClose(activePallet)} disabled={activePallet.cartonIds.length === 0} className={darkButton}>Close Pallet</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm space-y-3">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Trace</h3>
+        <input value={traceQuery} onChange={e => setTraceQuery(e.target.value.toUpperCase())} placeholder="Serial, carton or pallet ID" className={`${inputClass} w-full`} />
+        {query && !tracedCarton && !tracedPallet && <p className="text-xs font-bold text-gray-400">{query} is not packed in any carton or pallet.</p>}
+        {tracedCarton && (
+          <p className="text-xs font-bold text-gray-700">
+            Carton <span className="font-mono">{tracedCarton.cartonId}</span> ({tracedCarton.status}) · {tracedCarton.serials.length} devices: <span className="font-mono">{tracedCarton.serials.join(', ')}</span>
+          </p>
+        )}
+        {tracedPallet && (
+          <p className="text-xs font-bold text-gray-700">
+            Pallet <span className="font-mono">{tracedPallet.palletId}</span> ({tracedPallet.status}) · cartons <span className="font-mono">{tracedPallet.cartonIds.join(', ') || 'none'}</span>
+          </p>
+        )}
+        {tracedCarton && !tracedPallet && <p className="text-xs font-bold text-gray-400">Carton is not on a pallet yet.</p>}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Pallets</h3>
+        {pallets.map(pallet => (
+          <div key={pallet.palletId} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-mono font-black text-gray-900">{pallet.palletId}</p>
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest truncate">
+                {pallet.cartonIds.length} cartons · {pallet.cartonIds.reduce((sum, id) => sum + (cartons.find(c => c.cartonId === id)?.serials.length ?? 0), 0)} units · by {pallet.createdBy}
+                {pallet.closedAt && ` · closed ${new Date(pallet.closedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase ${pallet.status === 'closed' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-blue-50 text-blue-700 border-blue-100'}`}>{pallet.status}</span>
+            <button onClick={() => handleManifest(pallet, 'csv')} className={lightButton}>CSV</button>
+            <button onClick={() => handleManifest(pallet, 'json')} className={lightButton}>JSON</button>
+          </div>
+        ))}
+        {pallets.length === 0 && <p className="text-gray-400 font-bold text-sm text-center py-4">No pallets yet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AggregationStation;
@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { Annotation } from '../types';
+import { arrowHead, fontSizeFor, strokeWidthFor, toPixels } from '../services/annotations';
+
+// One markup in the pixel space of an image of the given size
+export const AnnotationShape: React.FC<{ annotation: Annotation; width: number; height: number }> = ({ annotation, width, height }) => {
+  const stroke = strokeWidthFor(width, height);
+  const line = { stroke: annotation.color, strokeWidth: stroke, strokeLinecap: 'round' as const, strokeLinejoin: 'round' as const, fill: 'none' };
+
+  switch (annotation.kind) {
+    case 'arrow': {
+      const from = toPixels(annotation.from, width, height);
+      const to = toPixels(annotation.to, width, height);
+      const [left, right] = arrowHead(from, to, stroke * 4);
+      return <path d={`M${from.x},${from.y} L${to.x},${to.y} M${left.x},${left.y} L${to.x},${to.y} L${right.x},${right.y}`} {...line} />;
+    }
+    case 'circle': {
+      const center = toPixels(annotation.center, width, height);
+      return <circle cx={center.x} cy={center.y} r={annotation.radius * width} {...line} />;
+    }
+    case 'freehand':
+      return <polyline points={annotation.points.map(p => toPixels(p, width, height)).map(p => `${p.x},${p.y}`).join(' ')} {...line} />;
+    case 'text': {
+      const at = toPixels(annotation.at, width, height);
+      return (
+        <text x={at.x} y={at.y} fill={annotation.color} stroke="rgba(0, 0, 0, 0.7)" strokeWidth={stroke} paintOrder="stroke" dominantBaseline="middle" fontSize={fontSizeFor(width, height)} fontWeight="bold" fontFamily="sans-serif">
+          {annotation.text}
+        </text>
+      );
+    }
+  }
+};
+
+// Markup laid over an image shown with object-contain in the same box. The
+// viewBox uses the stored image size, so it lines up with the thumbnail and
+// the full image alike.
+const AnnotationOverlay: React.FC<{ annotations: Annotation[]; width: number; height: number }> = ({ annotations, width, height }) => {
+  if (annotations.length === 0) return null;
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+      {annotations.map((annotation, i) => <AnnotationShape key={i} annotation={annotation} width={width} height={height} />)}
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,201 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditEntry, AuditAction, AuditVerification } from '../types';
+import { repository } from '../storage';
+
+const ACTION_GROUPS: { label: string; prefix: string }[] = [
+  { label: 'Sign-in & Sessions', prefix: 'auth.' },
+  { label: 'Operators', prefix: 'user.' },
+  { label: 'Checkpoints', prefix: 'checkpoint.' },
+  { label: 'Reports', prefix: 'report.' },
+  { label: 'Checklist Templates', prefix: 'template.' },
+  { label: 'Pipeline & Stages', prefix: 'pipeline.' },
+  { label: 'Stage Skips', prefix: 'stage.' },
+  { label: 'Rework', prefix: 'rework.' },
+  { label: 'Defect Catalog', prefix: 'defects.' },
+  { label: 'Lots', prefix: 'lot.' },
+  { label: 'Cartons', prefix: 'carton.' },
+  { label: 'Pallets', prefix: 'pallet.' },
+  { label: 'Serial Formats', prefix: 'serials.' },
+  { label: 'Drafts', prefix: 'draft.' }
+];
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Sign-in failed',
+  'auth.lockout': 'Account locked',
+  'auth.logout': 'Signed out',
+  'auth.session_timeout': 'Session timed out',
+  'auth.password_change': 'Password changed',
+  'user.create': 'Operator created',
+  'user.update': 'Operator edited',
+  'user.enable': 'Operator enabled',
+  'user.disable': 'Operator disabled',
+  'user.delete': 'Operator deleted',
+  'user.unlock': 'Operator unlocked',
+  'checkpoint.add': 'Checkpoint added',
+  'checkpoint.rename': 'Checkpoint renamed',
+  'checkpoint.delete': 'Checkpoint deleted',
+  'checkpoint.annotate': 'Photo annotated',
+  'checkpoint.ai_review': 'AI pre-inspection reviewed',
+  'report.submit': 'Report submitted',
+  'report.export': 'Reports exported',
+  'template.save': 'Template draft saved',
+  'template.publish': 'Template published',
+  'template.discard': 'Template draft discarded',
+  'pipeline.update': 'Pipeline changed',
+  'stage.skip': 'Stage skipped',
+  'rework.open': 'Rework ticket opened',
+  'rework.repair': 'Repair recorded',
+  'rework.close': 'Rework ticket closed',
+  'defects.update': 'Defect catalog changed',
+  'lot.create': 'Lot created',
+  'lot.decide': 'Lot decided',
+  'carton.create': 'Carton opened',
+  'carton.pack': 'Device packed',
+  'carton.unpack': 'Device removed from carton',
+  'carton.seal': 'Carton sealed',
+  'pallet.create': 'Pallet opened',
+  'pallet.load': 'Carton loaded',
+  'pallet.unload': 'Carton removed from pallet',
+  'pallet.close': 'Pallet closed',
+  'serials.update': 'Serial formats updated',
+  'draft.resume': 'Inspection resumed',
+  'draft.discard': 'Draft discarded',
+  'draft.expire': 'Draft expired'
+};
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+// Read-only view of the hash-chained audit trail with filters and an integrity check
+const AuditLogViewer: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actorFilter, setActorFilter] = useState('');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [search, setSearch] = useState('');
+  const [expandedSeq, setExpandedSeq] = useState<number | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    repository.getAuditLog()
+      .then(setEntries)
+      .catch(err => console.error('Failed to load audit log:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const actors = useMemo(() => Array.from(new Set(entries.map(e => e.actor))).sort(), [entries]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries
+      .filter(e => !actorFilter || e.actor === actorFilter)
+      .filter(e => !groupFilter || e.action.startsWith(groupFilter))
+      .filter(e => !fromDate || e.timestamp.slice(0, 10) >= fromDate)
+      .filter(e => !toDate || e.timestamp.slice(0, 10) <= toDate)
+      .filter(e => !term || JSON.stringify(e).toLowerCase().includes(term))
+      .reverse();
+  }, [entries, actorFilter, groupFilter, fromDate, toDate, search]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await repository.verifyAuditLog());
+    } catch (err) {
+      setVerification({ ok: false, checked: 0, problem: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Audit Trail</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{entries.length} entries · append-only</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleVerify} disabled={verifying || loading} className="bg-blue-600 text-white px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest shadow-lg shadow-blue-100 disabled:opacity-50">
+            {verifying ? 'Verifying...' : 'Verify Integrity'}
+          </button>
+          <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+        </div>
+      </div>
+
+      {verification && (
+        <div className={`p-4 rounded-2xl border font-bold text-sm ${verification.ok ? 'bg-green-50 border-green-100 text-green-700' : 'bg-red-50 border-red-100 text-red-700'}`}>
+          {verification.ok
+            ? `Chain intact: all ${verification.checked} entries verified.`
+            : `Integrity check failed${verification.brokenAtSeq ? ` at entry #${verification.brokenAtSeq}` : ''}: ${verification.problem}. ${verification.checked} earlier entries verified.`}
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-2xl border border-gray-200 shadow-sm grid grid-cols-2 md:grid-cols-5 gap-3">
+        <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className="p-3 border-2 border-gray-100 rounded-xl text-xs font-bold outline-none focus:border-blue-500">
+          <option value="">All actors</option>
+          {actors.map(a => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select value={groupFilter} onChange={e => setGroupFilter(e.target.value)} className="p-3 border-2 border-gray-100 rounded-xl text-xs font-bold outline-none focus:border-blue-500">
+          <option value="">All actions</option>
+          {ACTION_GROUPS.map(g => <option key={g.prefix} value={g.prefix}>{g.label}</option>)}
+        </select>
+        <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="p-3 border-2 border-gray-100 rounded-xl text-xs font-bold outline-none focus:border-blue-500" />
+        <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="p-3 border-2 border-gray-100 rounded-xl text-xs font-bold outline-none focus:border-blue-500" />
+        <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search..." className="col-span-2 md:col-span-1 p-3 border-2 border-gray-100 rounded-xl text-xs font-bold outline-none focus:border-blue-500" />
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
+        {loading ? (
+          <p className="text-gray-500 text-sm font-bold text-center py-8">Loading audit trail...</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-gray-500 text-sm font-bold text-center py-8">No matching entries</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {filtered.map(entry => (
+              <li key={entry.seq} className="px-4 py-3">
+                <button onClick={() => setExpandedSeq(expandedSeq === entry.seq ? null : entry.seq)} className="w-full text-left flex justify-between items-start gap-4">
+                  <div>
+                    <p className="text-xs font-black text-gray-900">
+                      {ACTION_LABELS[entry.action] ?? entry.action} <span className="text-gray-400">·</span> {entry.target.type} {entry.target.id}
+                    </p>
+                    <p className="text-[11px] font-bold text-gray-500">
+                      by {entry.actor}
+                      {entry.context?.deviceId && ` · device ${entry.context.deviceId}`}
+                      {entry.context?.stage && ` · ${entry.context.stage}`}
+                      {entry.context?.mandatory && <span className="ml-1 text-red-600 font-black uppercase">mandatory</span>}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-[9px] font-black text-gray-400 uppercase">#{entry.seq}</p>
+                    <p className="text-[9px] font-black text-gray-400 uppercase">{new Date(entry.timestamp).toLocaleString()}</p>
+                  </div>
+                </button>
+                {expandedSeq === entry.seq && (
+                  <div className="mt-3 space-y-2">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <div>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Before</p>
+                        <pre className="p-2 bg-slate-900 text-slate-100 rounded-lg text-[10px] overflow-x-auto max-h-48">{entry.before === undefined ? '—' : formatValue(entry.before)}</pre>
+                      </div>
+                      <div>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">After</p>
+                        <pre className="p-2 bg-slate-900 text-slate-100 rounded-lg text-[10px] overflow-x-auto max-h-48">{entry.after === undefined ? '—' : formatValue(entry.after)}</pre>
+                      </div>
+                    </div>
+                    <p className="text-[9px] font-mono text-gray-400 break-all">station {entry.stationId} · hash {entry.hash}</p>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
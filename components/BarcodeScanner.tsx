@@ -0,0 +1,139 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Symbology } from '../types';
+import { DecodedCode, symbologyLabel } from '../services/barcode';
+import { CameraControls, SCAN_GUIDE, cameraControls, closeCamera, openCamera, setTorch, setZoom, startScanLoop } from '../services/scanner';
+
+// Camera preview for the device ID scan step. Only the area inside the guide
+// box is decoded; the camera is released on Stop, on a read and on unmount.
+const BarcodeScanner: React.FC<{
+  symbologies: Symbology[];
+  onDetect: (code: DecodedCode) => void;
+}> = ({ symbologies, onDetect }) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [controls, setControls] = useState<CameraControls>({ torch: false, zoom: null });
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState(1);
+  const [error, setError] = useState('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // The loop outlives renders, so it calls the latest handler through a ref
+  const onDetectRef = useRef(onDetect);
+  onDetectRef.current = onDetect;
+
+  const stop = () => {
+    if (streamRef.current) closeCamera(streamRef.current);
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setStream(null);
+    setTorchOn(false);
+  };
+
+  const start = async () => {
+    if (streamRef.current) return;
+    setError('');
+    try {
+      const s = await openCamera();
+      streamRef.current = s;
+      if (videoRef.current) videoRef.current.srcObject = s;
+      const c = cameraControls(s);
+      setControls(c);
+      setZoomLevel(c.zoom?.min ?? 1);
+      setStream(s);
+    } catch (err) {
+      console.error('Error accessing camera:', err);
+      setError('Camera access denied. Please enable camera permissions to scan QR codes/barcodes.');
+    }
+  };
+
+  useEffect(() => () => {
+    if (streamRef.current) closeCamera(streamRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!stream || !videoRef.current) return;
+    return startScanLoop(videoRef.current, {
+      symbologies,
+      onDetect: code => {
+        stop();
+        onDetectRef.current(code);
+      }
+    });
+  }, [stream, symbologies.join(',')]);
+
+  const handleTorch = () => {
+    if (!stream) return;
+    setTorch(stream, !torchOn)
+      .then(() => setTorchOn(!torchOn))
+      .catch(err => console.error('Failed to switch torch:', err));
+  };
+
+  const handleZoom = (value: number) => {
+    if (!stream) return;
+    setZoomLevel(value);
+    setZoom(stream, value).catch(err => console.error('Failed to set zoom:', err));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full h-96 rounded-2xl overflow-hidden border-2 border-dashed border-gray-300 bg-gray-100 relative">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        <div
+          className="absolute border-4 border-blue-500 rounded-xl pointer-events-none"
+          style={{ left: `${SCAN_GUIDE.x * 100}%`, top: `${SCAN_GUIDE.y * 100}%`, width: `${SCAN_GUIDE.width * 100}%`, height: `${SCAN_GUIDE.height * 100}%` }}
+        />
+        <div className="absolute bottom-4 left-4 right-4 text-center text-white font-bold bg-black/50 p-2 rounded-lg">
+          {stream ? 'Fit the code inside the box' : 'Point camera at'} {symbologies.map(symbologyLabel).join(' / ') || 'QR/Barcode'}
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-bold text-red-600 text-center">{error}</p>}
+
+      {stream && (controls.torch || controls.zoom) && (
+        <div className="flex items-center gap-3">
+          {controls.torch && (
+            <button
+              onClick={handleTorch}
+              className={`px-4 py-2 rounded-lg font-black text-[10px] uppercase border ${torchOn ? 'bg-yellow-400 border-yellow-500 text-slate-900' : 'bg-white border-gray-200 text-gray-500'}`}
+            >
+              Torch {torchOn ? 'On' : 'Off'}
+            </button>
+          )}
+          {controls.zoom && (
+            <label className="flex-1 flex items-center gap-2 text-[10px] font-black text-gray-500 uppercase">
+              Zoom
+              <input
+                type="range"
+                min={controls.zoom.min}
+                max={controls.zoom.max}
+                step={controls.zoom.step}
+                value={zoom}
+                onChange={e => handleZoom(Number(e.target.value))}
+                className="flex-1"
+              />
+              {zoom.toFixed(1)}x
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={start}
+          disabled={!!stream}
+          className="flex-1 bg-blue-600 text-white font-black py-3 rounded-xl shadow-lg uppercase text-sm active:scale-[0.98] transition-transform disabled:opacity-40"
+        >
+          {stream ? 'Scanning...' : 'Start Scanning'}
+        </button>
+        <button
+          onClick={stop}
+          className="flex-1 bg-red-600 text-white font-black py-3 rounded-xl shadow-lg uppercase text-sm active:scale-[0.98] transition-transform"
+        >
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
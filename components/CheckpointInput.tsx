@@ -0,0 +1,150 @@
+
+import React, { useRef } from 'react';
+import { CheckpointResult, InstrumentRef } from '../types';
+import { isAutoEvaluated, describeLimits, mismatchedReferences } from '../services/checkpointSpec';
+import { InstrumentState, convertReading } from '../services/instruments';
+import { CheckIcon, XIcon } from './Icons';
+
+const optionClass = (selected: boolean) =>
+  `py-3 px-2 rounded-xl font-black text-xs transition-all ${selected ? 'bg-slate-900 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`;
+
+// Answer controls for one checkpoint, by type. Auto-judged types show the
+// computed result; the rest keep the inspector's Pass/Fail buttons.
+const CheckpointInput: React.FC<{
+  checkpoint: CheckpointResult;
+  deviceId: string;
+  instrument: InstrumentState | null;
+  onValue: (value: CheckpointResult['value'], instrument: InstrumentRef | null) => void;
+  onStatus: (status: 'Pass' | 'Fail') => void;
+}> = ({ checkpoint: cp, deviceId, instrument, onValue: setValue, onStatus }) => {
+  const { spec } = cp;
+  const auto = isAutoEvaluated(spec);
+  // Typed or picked answers carry no instrument
+  const onValue = (value: CheckpointResult['value']) => setValue(value, null);
+
+  // Live reading in the checkpoint's unit; null when the units don't convert
+  const reading = spec.type === 'numeric' && instrument?.status === 'connected' ? instrument.reading : null;
+  const converted = reading ? convertReading(reading.value, reading.unit, spec.unit ?? '') : null;
+
+  // ID match: one ID per reference; Enter (sent by wedge scanners) moves to the next
+  const idFields = useRef<HTMLDivElement>(null);
+  const ids = spec.type === 'id_match' && Array.isArray(cp.value) ? cp.value : [];
+  const mismatched = spec.type === 'id_match' ? mismatchedReferences(spec, cp.value, deviceId) : [];
+  const setId = (index: number, id: string) => {
+    const next = (spec.references ?? []).map((_, i) => i === index ? id.toUpperCase() : ids[i] ?? '');
+    onValue(next.every(v => v === '') ? null : next);
+  };
+  const focusNextId = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const fields = Array.from<HTMLInputElement>(idFields.current?.querySelectorAll('input') ?? []);
+    fields[fields.indexOf(e.currentTarget) + 1]?.focus();
+  };
+
+  const toggleOption = (option: string) => {
+    const picked = Array.isArray(cp.value) ? cp.value : [];
+    const next = picked.includes(option) ? picked.filter(o => o !== option) : [...picked, option];
+    onValue(next.length > 0 ? next : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {spec.type === 'numeric' && (
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              inputMode="decimal"
+              step="any"
+              value={typeof cp.value === 'number' ? cp.value : ''}
+              onChange={e => onValue(e.target.value === '' ? null : Number(e.target.value))}
+              placeholder="Measured value"
+              className="flex-1 px-4 py-3 bg-white border border-gray-200 rounded-xl font-mono font-black text-lg text-black"
+            />
+            {spec.unit && <span className="text-sm font-black text-gray-500">{spec.unit}</span>}
+          </div>
+          <p className="mt-1 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+            Spec {describeLimits(spec)}{cp.instrument && ` · via ${cp.instrument.instrumentId}`}
+          </p>
+          {reading && (
+            <button
+              onClick={() => setValue(converted, instrument!.instrument)}
+              disabled={!reading.stable || converted === null}
+              className="mt-2 w-full py-2 rounded-xl bg-blue-600 text-white font-black text-[10px] uppercase tracking-widest disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              {converted === null
+                ? `Reading in ${reading.unit || 'unknown unit'} · cannot convert`
+                : `Use reading ${converted}${spec.unit ? ` ${spec.unit}` : ''}${reading.stable ? '' : ' · settling'}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {spec.type === 'text' && (
+        <input
+          value={typeof cp.value === 'string' ? cp.value : ''}
+          onChange={e => onValue(e.target.value === '' ? null : e.target.value)}
+          placeholder="Enter reading"
+          className="w-full px-4 py-3 bg-white border border-gray-200 rounded-xl font-bold text-sm text-black"
+        />
+      )}
+
+      {spec.type === 'id_match' && (
+        <div ref={idFields} className="space-y-2">
+          {(spec.references ?? []).map((reference, i) => (
+            <label key={reference} className="block">
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{reference}</span>
+              <input
+                value={ids[i] ?? ''}
+                onChange={e => setId(i, e.target.value)}
+                onKeyDown={focusNextId}
+                placeholder="Scan or type the ID"
+                className={`w-full px-4 py-3 bg-white border rounded-xl font-mono font-black text-sm text-black ${mismatched.includes(reference) ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {spec.type === 'single_choice' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(spec.options ?? []).map(option => (
+            <button key={option} onClick={() => onValue(option)} className={optionClass(cp.value === option)}>{option}</button>
+          ))}
+        </div>
+      )}
+
+      {spec.type === 'multi_choice' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(spec.options ?? []).map(option => (
+            <button key={option} onClick={() => toggleOption(option)} className={optionClass(Array.isArray(cp.value) && cp.value.includes(option))}>{option}</button>
+          ))}
+        </div>
+      )}
+
+      {spec.type === 'boolean' && (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => onValue(true)} className={optionClass(cp.value === true)}>YES</button>
+          <button onClick={() => onValue(false)} className={optionClass(cp.value === false)}>NO</button>
+        </div>
+      )}
+
+      {auto ? (
+        cp.status && (
+          <p className={`py-2 rounded-xl text-center font-black text-xs uppercase ${cp.status === 'Pass' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+            {spec.type === 'id_match'
+              ? (cp.status === 'Pass' ? `All IDs match ${deviceId} · Pass` : `${mismatched.join(', ')} ${mismatched.length === 1 ? 'does' : 'do'} not match ${deviceId} · Fail`)
+              : (cp.status === 'Pass' ? 'Within spec · Pass' : 'Out of spec · Fail')}
+          </p>
+        )
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => onStatus('Pass')} className={`py-3 rounded-xl flex items-center justify-center gap-2 font-black text-xs transition-all ${cp.status === 'Pass' ? 'bg-green-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}><CheckIcon className="w-4 h-4" /> PASS</button>
+          <button onClick={() => onStatus('Fail')} className={`py-3 rounded-xl flex items-center justify-center gap-2 font-black text-xs transition-all ${cp.status === 'Fail' ? 'bg-red-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}><XIcon className="w-4 h-4" /> FAIL</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckpointInput;
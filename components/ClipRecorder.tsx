@@ -0,0 +1,88 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { MAX_CLIP_MS } from '../constants.tsx';
+import { ClipKind, RecordedClip, Recording, startRecording } from '../services/recorder';
+import { formatDuration } from '../services/evidence';
+
+// Records a video or audio clip as soon as it opens and stops on Stop or at
+// MAX_CLIP_MS. Closing it without stopping throws the recording away.
+const ClipRecorder: React.FC<{
+  kind: ClipKind;
+  onRecorded: (clip: RecordedClip) => void;
+  onClose: () => void;
+}> = ({ kind, onRecorded, onClose }) => {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [isStopping, setIsStopping] = useState(false);
+  const [error, setError] = useState('');
+  const recordingRef = useRef<Recording | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    startRecording(kind)
+      .then(r => {
+        if (cancelled) {
+          r.cancel();
+          return;
+        }
+        recordingRef.current = r;
+        setRecording(r);
+      })
+      .catch(err => {
+        console.error('Failed to start recording:', err);
+        setError(err instanceof Error && err.name === 'NotAllowedError'
+          ? `${kind === 'video' ? 'Camera' : 'Microphone'} access was denied.`
+          : 'Recording is not available on this device.');
+      });
+    return () => {
+      cancelled = true;
+      recordingRef.current?.cancel();
+    };
+  }, [kind]);
+
+  const handleStop = () => {
+    const r = recordingRef.current;
+    if (!r) return;
+    recordingRef.current = null;
+    setIsStopping(true);
+    r.stop()
+      .then(onRecorded)
+      .catch(err => {
+        console.error('Failed to finish recording:', err);
+        setError('The recording could not be saved. Please try again.');
+      });
+  };
+
+  useEffect(() => {
+    if (!recording) return;
+    if (videoRef.current) videoRef.current.srcObject = recording.stream;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const ms = Date.now() - startedAt;
+      setElapsed(ms);
+      if (ms >= MAX_CLIP_MS) handleStop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  return (
+    <div className="rounded-xl border-2 border-red-200 bg-red-50 p-3 space-y-3">
+      {kind === 'video' && !error && <video ref={videoRef} autoPlay playsInline muted className="w-full h-48 rounded-lg bg-slate-900 object-cover" />}
+      {error ? (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      ) : (
+        <p className="flex items-center gap-2 text-[10px] font-black text-red-700 uppercase tracking-widest">
+          <span className={`w-2.5 h-2.5 rounded-full bg-red-600 ${recording && !isStopping ? 'animate-pulse' : 'opacity-30'}`} />
+          {!recording ? 'Starting...' : isStopping ? 'Saving...' : `Recording ${kind} · ${formatDuration(elapsed)} / ${formatDuration(MAX_CLIP_MS)}`}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button onClick={onClose} className="flex-1 py-2 rounded-lg border border-gray-200 bg-white text-gray-500 font-black text-[10px] uppercase">{error ? 'Close' : 'Cancel'}</button>
+        {!error && <button onClick={handleStop} disabled={!recording || isStopping} className="flex-1 py-2 rounded-lg bg-red-600 text-white font-black text-[10px] uppercase disabled:opacity-40">Stop</button>}
+      </div>
+    </div>
+  );
+};
+
+export default ClipRecorder;
@@ -0,0 +1,18 @@
+
+import React from 'react';
+import { DefectRef, DefectSeverity } from '../types';
+
+export const SEVERITY_STYLES: Record<DefectSeverity, string> = {
+  critical: 'bg-red-600 text-white border-red-600',
+  major: 'bg-amber-100 text-amber-800 border-amber-200',
+  minor: 'bg-slate-100 text-slate-600 border-slate-200'
+};
+
+// Code pill coloured by severity; the description shows on hover
+const DefectBadge: React.FC<{ defect: DefectRef }> = ({ defect }) => (
+  <span title={`${defect.description} · ${defect.category}`} className={`inline-block px-2 py-0.5 rounded-full border font-black text-[9px] uppercase tracking-widest ${SEVERITY_STYLES[defect.severity]}`}>
+    {defect.code}
+  </span>
+);
+
+export default DefectBadge;
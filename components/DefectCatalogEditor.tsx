@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { DefectCode, ChecklistTemplate, User } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { DEFECT_CATEGORIES, DEFECT_SEVERITIES, validateDefectCatalog } from '../services/defects';
+import { SEVERITY_STYLES } from './DefectBadge';
+import { PlusIcon } from './Icons';
+
+// Editor for the defect catalog. Codes can be deactivated but not deleted or
+// renamed, so reports and exports keep pointing at a known code.
+const DefectCatalogEditor: React.FC<{ currentUser: User | null; onClose: () => void }> = ({ currentUser, onClose }) => {
+  const [saved, setSaved] = useState<DefectCode[]>([]);
+  const [codes, setCodes] = useState<DefectCode[]>([]);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [search, setSearch] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    Promise.all([repository.getDefectCodes(), repository.getTemplates()])
+      .then(([c, t]) => {
+        setSaved(c);
+        setCodes(c);
+        setTemplates(t);
+      })
+      .catch(err => console.error('Failed to load defect catalog:', err));
+  }, []);
+
+  // Every checkpoint ID used by any template version, labelled by its latest version
+  const checkpointLabels = new Map<string, string>();
+  templates.forEach(t => t.checkpoints.forEach(cp => checkpointLabels.set(cp.id, cp.label)));
+  const checkpointIds = Array.from(checkpointLabels.keys()).sort();
+
+  // New codes are appended after the saved ones until the catalog is saved
+  const isNew = (index: number) => index >= saved.length;
+  const isChanged = (code: DefectCode) => {
+    const before = saved.find(s => s.code === code.code);
+    return !before || JSON.stringify(before) !== JSON.stringify(code);
+  };
+
+  const updateCode = (index: number, updates: Partial<DefectCode>) => {
+    setNotice('');
+    setCodes(prev => prev.map((c, i) => i === index ? { ...c, ...updates } : c));
+  };
+
+  const linkCheckpoint = (index: number, checkpointId: string) => {
+    if (!checkpointId || codes[index].checkpointIds.includes(checkpointId)) return;
+    updateCode(index, { checkpointIds: [...codes[index].checkpointIds, checkpointId] });
+  };
+
+  const unlinkCheckpoint = (index: number, checkpointId: string) =>
+    updateCode(index, { checkpointIds: codes[index].checkpointIds.filter(id => id !== checkpointId) });
+
+  const addCode = () => {
+    setNotice('');
+    setSearch('');
+    setCodes(prev => [...prev, {
+      code: '',
+      description: '',
+      category: 'functional',
+      severity: 'major',
+      checkpointIds: [],
+      active: true,
+      updatedAt: new Date().toISOString(),
+      updatedBy: currentUser?.userId ?? 'system'
+    }]);
+  };
+
+  const handleSave = async () => {
+    const problems = validateDefectCatalog(codes);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    const changed = codes.filter(isChanged);
+    if (changed.length === 0) {
+      setNotice('No changes to save.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const now = new Date().toISOString();
+      const stamped = codes.map(c => isChanged(c) ? { ...c, updatedAt: now, updatedBy: currentUser?.userId ?? 'system' } : c);
+      await repository.saveDefectCodes(stamped);
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'defects.update',
+        target: { type: 'defect', id: changed.map(c => c.code).join(', ') },
+        before: saved.filter(s => changed.some(c => c.code === s.code)),
+        after: changed
+      });
+      setSaved(stamped);
+      setCodes(stamped);
+      setNotice(`${changed.length} defect code${changed.length === 1 ? '' : 's'} saved.`);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Defect catalog could not be saved.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = codes
+    .map((code, index) => ({ code, index }))
+    .filter(({ code, index }) => !query || isNew(index) || `${code.code} ${code.description} ${code.checkpointIds.join(' ')}`.toLowerCase().includes(query));
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Defect Catalog</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Codes inspectors pick on failed checkpoints</p>
+        </div>
+        <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+      </div>
+
+      <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search codes, descriptions or checkpoint IDs..." className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black" />
+
+      <div className="space-y-3">
+        {visible.map(({ code, index }) => (
+          <div key={index} className={`bg-white p-4 rounded-2xl border shadow-sm space-y-3 ${code.active ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <input
+                value={code.code}
+                disabled={!isNew(index)}
+                onChange={e => updateCode(index, { code: e.target.value.trim().toUpperCase() })}
+                placeholder="Code, e.g. FUN-08"
+                className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black disabled:bg-gray-50"
+              />
+              <input value={code.description} onChange={e => updateCode(index, { description: e.target.value })} placeholder="Description" className="md:col-span-3 p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-bold text-black" />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select value={code.category} onChange={e => updateCode(index, { category: e.target.value as DefectCode['category'] })} className="p-2 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-xs font-bold text-black">
+                {DEFECT_CATEGORIES.map(c => <option key={c.category} value={c.category}>{c.label}</option>)}
+              </select>
+              {DEFECT_SEVERITIES.map(({ severity, label }) => (
+                <button
+                  key={severity}
+                  onClick={() => updateCode(index, { severity })}
+                  className={`px-3 py-1.5 rounded-lg border font-black text-[9px] uppercase tracking-widest ${code.severity === severity ? SEVERITY_STYLES[severity] : 'bg-white border-gray-100 text-gray-400'}`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => updateCode(index, { active: !code.active })}
+                className={`ml-auto px-3 py-1.5 rounded-lg border font-black text-[9px] uppercase tracking-widest ${code.active ? 'bg-slate-900 border-slate-900 text-white' : 'bg-gray-50 border-gray-100 text-gray-400'}`}
+              >
+                {code.active ? 'Active' : 'Inactive'}
+              </button>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">
+                {code.checkpointIds.length === 0 ? 'Offered on every checkpoint' : 'Offered on'}
+              </p>
+              <div className="flex flex-wrap gap-2 items-center">
+                {code.checkpointIds.map(id => (
+                  <button key={id} onClick={() => unlinkCheckpoint(index, id)} title={`${checkpointLabels.get(id) ?? 'Not in any template'} · click to remove`} className="px-2 py-1 rounded-lg bg-blue-50 border border-blue-100 text-blue-700 font-mono font-black text-[10px] hover:bg-red-50 hover:border-red-100 hover:text-red-600">
+                    {id} ×
+                  </button>
+                ))}
+                <select value="" onChange={e => linkCheckpoint(index, e.target.value)} className="p-1.5 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-[10px] font-bold text-black max-w-xs">
+                  <option value="">+ Link checkpoint</option>
+                  {checkpointIds.filter(id => !code.checkpointIds.includes(id)).map(id => (
+                    <option key={id} value={id}>{id} · {checkpointLabels.get(id)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+        ))}
+        {visible.length === 0 && <p className="text-gray-400 font-bold text-sm text-center py-4">No matching defect codes</p>}
+        <button onClick={addCode} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Defect Code</button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100 space-y-1">
+          {errors.map((e, i) => <p key={i}>{e}</p>)}
+        </div>
+      )}
+      {notice && <p className="text-green-700 font-bold text-xs p-3 bg-green-50 rounded-xl border border-green-100">{notice}</p>}
+
+      <button onClick={handleSave} disabled={isSaving} className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest text-white shadow-xl ${isSaving ? 'bg-gray-400' : 'bg-slate-900'}`}>
+        {isSaving ? 'Saving...' : 'Save Defect Catalog'}
+      </button>
+    </div>
+  );
+};
+
+export default DefectCatalogEditor;
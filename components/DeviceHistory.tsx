@@ -0,0 +1,74 @@
+
+import React, { useState, useEffect } from 'react';
+import { QCReport, DeviceStatus, StageDefinition } from '../types';
+import { repository } from '../storage';
+import { deviceReports } from '../services/inspectionHistory';
+import { getStageStatus, stageLabel } from '../services/pipeline';
+import { reportResult } from '../services/rework';
+import ReportEvidence from './ReportEvidence';
+
+// Earlier reports for the serial being entered, by stage, so a repeat
+// inspection is visible before it starts. Tapping a report shows its evidence.
+const DeviceHistory: React.FC<{
+  deviceId: string;
+  stages: StageDefinition[];
+  onPrint?: (report: QCReport) => void;
+}> = ({ deviceId, stages, onPrint }) => {
+  const [reports, setReports] = useState<QCReport[]>([]);
+  const [status, setStatus] = useState<DeviceStatus | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const id = deviceId.trim();
+    setReports([]);
+    setStatus(null);
+    if (!id) return;
+    // Wait for the serial to settle; scanners and inspectors enter it a character at a time
+    const timer = setTimeout(() => {
+      Promise.all([repository.getReports(), repository.getDeviceStatus(id)])
+        .then(([all, s]) => {
+          setReports(deviceReports(all, id));
+          setStatus(s);
+        })
+        .catch(err => console.error('Failed to load device history:', err));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [deviceId]);
+
+  if (reports.length === 0 && !status) return null;
+  const stageIds = Array.from(new Set([...stages.map(s => s.stageId), ...reports.map(r => r.stage)]));
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4 space-y-3">
+      <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest">Device History</label>
+      {stageIds.map(stageId => {
+        const atStage = reports.filter(r => r.stage === stageId);
+        const state = getStageStatus(status, stageId);
+        if (atStage.length === 0 && state === 'pending') return null;
+        return (
+          <div key={stageId} className="space-y-1">
+            <p className="flex justify-between text-xs font-black text-gray-700">
+              <span>{stageLabel(stages, stageId)}</span>
+              <span className={`text-[10px] uppercase ${state === 'completed' ? 'text-green-600' : state === 'pending' ? 'text-yellow-600' : state === 'skipped' ? 'text-slate-400' : state === 'repaired' ? 'text-amber-600' : 'text-red-600'}`}>{state}</span>
+            </p>
+            {atStage.map(report => (
+              <div key={report.id} className="flex flex-wrap gap-x-3 text-[10px] font-bold text-gray-500">
+                <button onClick={() => setOpenId(openId === report.id ? null : report.id)} className="font-mono hover:text-blue-600 hover:underline">{report.id}</button>
+                <span>{new Date(report.timestamp).toLocaleString()}</span>
+                <span>{report.userId}</span>
+                <span>attempt {report.attempt}</span>
+                <span className={`uppercase font-black ${reportResult(report) === 'passed' ? 'text-green-600' : 'text-red-600'}`}>{reportResult(report)}</span>
+                {report.lotId && <span>lot {report.lotId}</span>}
+                {report.repeatReason && <span className="text-indigo-600">repeat: {report.repeatReason}</span>}
+                {onPrint && <button onClick={() => onPrint(report)} className="font-black text-blue-600 uppercase hover:underline">Print</button>}
+                {openId === report.id && <div className="basis-full"><ReportEvidence report={report} /></div>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeviceHistory;
@@ -0,0 +1,41 @@
+
+import React from 'react';
+import { InspectionDraft, StageDefinition } from '../types';
+import { stageLabel } from '../services/pipeline';
+import { draftProgress } from '../services/drafts';
+
+// Inspections started but not submitted. Inspectors resume or discard their
+// own; supervisors see every device that is mid-inspection.
+const DraftList: React.FC<{
+  title: string;
+  drafts: InspectionDraft[];
+  stages: StageDefinition[];
+  showInspector?: boolean;
+  onResume?: (draft: InspectionDraft) => void;
+  onDiscard?: (draft: InspectionDraft) => void;
+}> = ({ title, drafts, stages, showInspector = false, onResume, onDiscard }) => {
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-amber-100 bg-amber-50 p-4 space-y-3">
+      <label className="block text-[10px] font-black text-amber-700 uppercase tracking-widest">{title}</label>
+      {drafts.map(draft => {
+        const { answered, total } = draftProgress(draft);
+        return (
+          <div key={draft.draftId} className="flex items-center gap-3 bg-white rounded-xl border border-amber-100 p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-mono font-black text-gray-900 truncate">{draft.deviceId}</p>
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest truncate">
+                {stageLabel(stages, draft.stage)}{showInspector && ` · ${draft.userId}`} · {answered}/{total} answered · saved {new Date(draft.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            {onDiscard && <button onClick={() => onDiscard(draft)} className="px-3 py-2 rounded-lg border border-gray-200 text-gray-500 font-black text-[10px] uppercase hover:bg-red-50 hover:text-red-600">Discard</button>}
+            {onResume && <button onClick={() => onResume(draft)} className="px-3 py-2 rounded-lg bg-amber-500 text-white font-black text-[10px] uppercase hover:bg-amber-600">Resume</button>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { Evidence } from '../types';
+import { formatDuration } from '../services/evidence';
+import ZoomableImage, { MissingMedia, useMediaUrl } from './ZoomableImage';
+import AIInspectionNote, { AIRegionOverlay } from './AIInspection';
+import { XIcon } from './Icons';
+
+// Playback for a recorded video or audio clip
+export const ClipPlayer: React.FC<{ evidence: Evidence; onRemove?: () => void }> = ({ evidence, onRemove }) => {
+  const { url, missing } = useMediaUrl(evidence.media.mediaId, 'full');
+  return (
+    <div className="relative rounded-xl border border-gray-200 bg-slate-50 p-2 space-y-1">
+      {url ? (
+        evidence.kind === 'video'
+          ? <video src={url} controls playsInline className="w-full max-h-56 rounded-lg bg-slate-900" />
+          : <audio src={url} controls className="w-full" />
+      ) : missing ? (
+        <p className="py-2"><MissingMedia /></p>
+      ) : (
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest animate-pulse py-2">Loading...</p>
+      )}
+      <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest">
+        {evidence.kind === 'video' ? 'Video' : 'Audio'}{evidence.durationMs !== null && ` · ${formatDuration(evidence.durationMs)}`}
+      </p>
+      {onRemove && (
+        <button onClick={onRemove} className="absolute top-2 right-2 bg-red-600/80 text-white p-1.5 rounded-full hover:bg-red-600 transition-colors shadow-lg">
+          <XIcon className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// A checkpoint's photos and clips on the checklist, with any AI pre-inspection
+// of the photos next to the inspector's decision
+const EvidenceList: React.FC<{
+  evidence: Evidence[];
+  decision?: 'Pass' | 'Fail' | null;
+  // Media IDs of photos still being inspected
+  inspecting?: string[];
+  onRemove: (index: number) => void;
+  onAnnotate: (index: number) => void;
+}> = ({ evidence, decision = null, inspecting = [], onRemove, onAnnotate }) => {
+  if (evidence.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      {evidence.map((item, index) => item.kind === 'photo' ? (
+        <div key={item.media.mediaId} className="space-y-1">
+          <div className="h-56 w-full rounded-xl overflow-hidden border border-gray-200 shadow-inner bg-slate-100">
+            <ZoomableImage
+              media={item.media}
+              annotations={item.annotations}
+              overlay={<AIRegionOverlay inspection={item.aiInspection} width={item.media.width} height={item.media.height} />}
+              onRemove={() => onRemove(index)}
+              onAnnotate={() => onAnnotate(index)}
+            />
+          </div>
+          <AIInspectionNote inspection={item.aiInspection} isInspecting={inspecting.includes(item.media.mediaId)} decision={decision} />
+        </div>
+      ) : (
+        <ClipPlayer key={item.media.mediaId} evidence={item} onRemove={() => onRemove(index)} />
+      ))}
+    </div>
+  );
+};
+
+export default EvidenceList;
@@ -0,0 +1,101 @@
+
+import React, { useState } from 'react';
+import { CheckpointSpec } from '../types';
+import {
+  InstrumentState,
+  SERIAL_PROFILES,
+  isSerialSupported,
+  isHidSupported,
+  pickSerialInstrument,
+  pickHidInstrument,
+  createSimulatedInstrument,
+  connectInstrument,
+  disconnectInstrument,
+  requestInstrumentReading,
+  tagConnectedInstrument
+} from '../services/instruments';
+
+// Midpoint of the first measurement's limits, so the simulator lands in spec by default
+const simulatorDefaults = (specs: CheckpointSpec[]) => {
+  const spec = specs.find(s => s.type === 'numeric');
+  const lsl = typeof spec?.lsl === 'number' ? spec.lsl : null;
+  const usl = typeof spec?.usl === 'number' ? spec.usl : null;
+  const nominal = lsl !== null && usl !== null ? (lsl + usl) / 2 : lsl ?? usl ?? 500;
+  return { nominal: String(nominal), unit: spec?.unit || 'g' };
+};
+
+// Connects the station's measuring instrument and shows its live reading
+const InstrumentBar: React.FC<{ state: InstrumentState; specs: CheckpointSpec[] }> = ({ state, specs }) => {
+  const defaults = simulatorDefaults(specs);
+  const [source, setSource] = useState<string>(isSerialSupported() ? SERIAL_PROFILES[0].id : 'simulator');
+  const [nominal, setNominal] = useState(defaults.nominal);
+  const [unit, setUnit] = useState(defaults.unit);
+  const [error, setError] = useState('');
+
+  const handleConnect = async () => {
+    setError('');
+    try {
+      if (source === 'simulator') {
+        const value = Number(nominal);
+        await connectInstrument(createSimulatedInstrument({ nominal: isNaN(value) ? 0 : value, unit, spread: Math.abs(value) * 0.005 }));
+      } else if (source === 'hid') {
+        await connectInstrument(await pickHidInstrument());
+      } else {
+        const profile = SERIAL_PROFILES.find(p => p.id === source) ?? SERIAL_PROFILES[0];
+        await connectInstrument(await pickSerialInstrument(profile));
+      }
+    } catch (err) {
+      // Closing the browser's device picker lands here too
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleTag = () => {
+    const tag = prompt('Asset tag for this instrument (e.g. SCALE-03):', state.instrument?.instrumentId ?? '');
+    if (tag !== null) tagConnectedInstrument(tag);
+  };
+
+  if (state.status === 'connected' || state.status === 'connecting') {
+    return (
+      <div className="bg-slate-900 text-white rounded-xl p-4 flex items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 truncate">{state.instrument?.name}</p>
+          <button onClick={handleTag} className="text-xs font-mono font-black text-blue-300 hover:underline" title="Set asset tag">{state.instrument?.instrumentId}</button>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-mono font-black">
+            {state.reading ? `${state.reading.value} ${state.reading.unit}` : state.status === 'connecting' ? '...' : '—'}
+          </p>
+          <p className={`text-[9px] font-black uppercase ${state.reading?.stable ? 'text-green-400' : 'text-amber-400'}`}>{state.reading ? (state.reading.stable ? 'Stable' : 'Settling') : 'Waiting'}</p>
+        </div>
+        <div className="flex flex-col gap-1">
+          <button onClick={() => requestInstrumentReading()} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[9px] font-black uppercase">Read</button>
+          <button onClick={() => disconnectInstrument()} className="px-3 py-1 rounded-lg bg-red-600/80 hover:bg-red-600 text-[9px] font-black uppercase">Disconnect</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-2">
+      <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Measuring instrument</p>
+      <div className="flex flex-wrap gap-2">
+        <select value={source} onChange={e => setSource(e.target.value)} className="flex-1 p-2 border-2 border-gray-100 rounded-lg text-xs font-bold text-black outline-none focus:border-blue-500">
+          {isSerialSupported() && SERIAL_PROFILES.map(p => <option key={p.id} value={p.id}>Serial · {p.name}</option>)}
+          {isHidSupported() && <option value="hid">USB HID scale</option>}
+          <option value="simulator">Simulator</option>
+        </select>
+        {source === 'simulator' && (
+          <>
+            <input value={nominal} onChange={e => setNominal(e.target.value)} type="number" step="any" className="w-24 p-2 border-2 border-gray-100 rounded-lg text-xs font-bold text-black" title="Nominal value" />
+            <input value={unit} onChange={e => setUnit(e.target.value)} className="w-16 p-2 border-2 border-gray-100 rounded-lg text-xs font-bold text-black" title="Unit" />
+          </>
+        )}
+        <button onClick={handleConnect} className="px-4 py-2 rounded-lg bg-blue-600 text-white text-[10px] font-black uppercase">Connect</button>
+      </div>
+      {(error || state.error) && <p className="text-red-600 font-bold text-xs">{error || state.error}</p>}
+    </div>
+  );
+};
+
+export default InstrumentBar;
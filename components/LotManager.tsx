@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { Lot, StageDefinition, InspectionLevel, User } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { INSPECTION_LEVELS, AQL_VALUES, samplingPlanFor, describePlan } from '../services/aql';
+import { createLot, nonconformingCount } from '../services/lots';
+
+const STATUS_STYLES: Record<Lot['status'], string> = {
+  open: 'bg-blue-50 text-blue-700 border-blue-100',
+  accepted: 'bg-green-50 text-green-700 border-green-100',
+  rejected: 'bg-red-50 text-red-700 border-red-100'
+};
+
+// Creates lots with their ISO 2859-1 sampling plan and follows each lot's
+// samples to the accept/reject decision
+const LotManager: React.FC<{ currentUser: User | null; stages: StageDefinition[]; onClose: () => void }> = ({ currentUser, stages, onClose }) => {
+  const [lots, setLots] = useState<Lot[]>([]);
+  const [lotId, setLotId] = useState(`LOT-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-`);
+  const [product, setProduct] = useState('');
+  const [line, setLine] = useState('');
+  const [lotSize, setLotSize] = useState('');
+  const [stage, setStage] = useState(stages[stages.length - 1]?.stageId ?? '');
+  const [level, setLevel] = useState<InspectionLevel>('II');
+  const [aql, setAql] = useState(1.0);
+  const [serialText, setSerialText] = useState('');
+  const [expandedLot, setExpandedLot] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadLots = () => repository.getLots().then(setLots).catch(err => console.error('Failed to load lots:', err));
+  useEffect(() => { loadLots(); }, []);
+
+  const serials = serialText.split(/[\s,;]+/).filter(Boolean);
+
+  // Live preview of the plan for the lot being entered
+  let preview = '';
+  try {
+    if (lotSize) preview = describePlan(samplingPlanFor(Number(lotSize), level, aql));
+  } catch (err) {
+    preview = err instanceof Error ? err.message : '';
+  }
+
+  const handleCreate = async () => {
+    setError('');
+    setNotice('');
+    try {
+      const lot = createLot({ lotId, product, line, lotSize: Number(lotSize), stage, level, aql, serials }, currentUser?.userId ?? 'system');
+      await repository.addLot(lot);
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'lot.create',
+        target: { type: 'lot', id: lot.lotId },
+        after: { product: lot.product, line: lot.line, lotSize: lot.lotSize, stage: lot.stage, plan: lot.plan, drawnSerials: lot.drawnSerials },
+        context: { stage: lot.stage, lotId: lot.lotId }
+      });
+      setNotice(`Lot ${lot.lotId} created: ${describePlan(lot.plan)}.`);
+      setLotSize('');
+      setSerialText('');
+      setExpandedLot(lot.lotId);
+      loadLots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lot could not be created.');
+    }
+  };
+
+  const stageName = (stageId: string) => stages.find(s => s.stageId === stageId)?.label ?? stageId;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Lot Inspection</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">ISO 2859-1 single sampling · normal inspection</p>
+        </div>
+        <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm space-y-3">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">New Lot</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input value={lotId} onChange={e => setLotId(e.target.value.toUpperCase())} placeholder="Lot number" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black" />
+          <input value={product} onChange={e => setProduct(e.target.value)} placeholder="Product" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black" />
+          <input value={line} onChange={e => setLine(e.target.value)} placeholder="Production line" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black" />
+          <input value={lotSize} onChange={e => setLotSize(e.target.value)} type="number" min={2} placeholder="Lot size" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black" />
+          <select value={stage} onChange={e => setStage(e.target.value)} className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black">
+            {stages.map(s => <option key={s.stageId} value={s.stageId}>Samples inspected at {s.label}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={level} onChange={e => setLevel(e.target.value as InspectionLevel)} className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black">
+              {INSPECTION_LEVELS.map(l => <option key={l} value={l}>Level {l}</option>)}
+            </select>
+            <select value={aql} onChange={e => setAql(Number(e.target.value))} className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black">
+              {AQL_VALUES.map(v => <option key={v} value={v}>AQL {v}</option>)}
+            </select>
+          </div>
+        </div>
+        <textarea
+          value={serialText}
+          onChange={e => setSerialText(e.target.value)}
+          placeholder="Optional: every serial in the lot, one per line. The sample is then drawn from this list at random."
+          className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black h-24"
+        />
+        <div className="flex justify-between items-center">
+          <p className="text-xs font-black text-slate-600">{preview || 'Enter the lot size to see the sampling plan'}{serials.length > 0 && ` · ${serials.length} serials listed`}</p>
+          <button onClick={handleCreate} className="px-5 py-3 rounded-xl bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest">Create Lot</button>
+        </div>
+        {error && <p className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100">{error}</p>}
+        {notice && <p className="text-green-700 font-bold text-xs p-3 bg-green-50 rounded-xl border border-green-100">{notice}</p>}
+      </div>
+
+      <div className="space-y-3">
+        {lots.map(lot => (
+          <div key={lot.lotId} className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+            <button onClick={() => setExpandedLot(expandedLot === lot.lotId ? null : lot.lotId)} className="w-full p-4 flex items-center gap-4 text-left hover:bg-gray-50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-mono font-black text-gray-900">{lot.lotId}</p>
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest truncate">{lot.product}{lot.line && ` · ${lot.line}`} · {lot.lotSize} units · {stageName(lot.stage)}</p>
+              </div>
+              <div className="text-right text-xs font-black text-slate-600">
+                <p>{lot.samples.length} / {lot.plan.sampleSize} sampled</p>
+                <p className={nonconformingCount(lot) > lot.plan.accept ? 'text-red-600' : ''}>{nonconformingCount(lot)} nonconforming · Ac {lot.plan.accept} / Re {lot.plan.reject}</p>
+              </div>
+              <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase ${STATUS_STYLES[lot.status]}`}>{lot.status}</span>
+            </button>
+            {expandedLot === lot.lotId && (
+              <div className="border-t border-gray-100 p-4 space-y-3 text-xs font-bold text-gray-700">
+                <p>
+                  Level {lot.plan.level} · AQL {lot.plan.aql} · code letter {lot.plan.codeLetter}
+                  {lot.plan.planLetter !== lot.plan.codeLetter && ` (plan taken from ${lot.plan.planLetter})`} · created by {lot.createdBy} on {new Date(lot.createdAt).toLocaleString()}
+                  {lot.decidedAt && ` · decided ${new Date(lot.decidedAt).toLocaleString()}`}
+                </p>
+                {lot.drawnSerials.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {lot.drawnSerials.map(serial => {
+                      const sample = lot.samples.find(s => s.deviceId === serial);
+                      return (
+                        <span key={serial} className={`px-2 py-1 rounded-lg border font-mono text-[10px] ${!sample ? 'border-gray-200 text-gray-400' : sample.result === 'passed' ? 'border-green-200 bg-green-50 text-green-700' : 'border-red-200 bg-red-50 text-red-700'}`}>{serial}</span>
+                      );
+                    })}
+                  </div>
+                )}
+                {lot.samples.length > 0 ? (
+                  <table className="w-full text-left">
+                    <thead className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+                      <tr><th className="py-1">Serial</th><th className="py-1">Report</th><th className="py-1">Inspector</th><th className="py-1">Result</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {lot.samples.map(sample => (
+                        <tr key={sample.reportId}>
+                          <td className="py-2 font-mono">{sample.deviceId}</td>
+                          <td className="py-2 font-mono text-gray-500">{sample.reportId}</td>
+                          <td className="py-2">{sample.inspectedBy}</td>
+                          <td className={`py-2 uppercase font-black ${sample.result === 'passed' ? 'text-green-600' : 'text-red-600'}`}>{sample.result}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-gray-400">No samples inspected yet. Inspectors pick this lot on the device entry screen at {stageName(lot.stage)}.</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {lots.length === 0 && <p className="text-gray-400 font-bold text-sm text-center py-4">No lots yet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LotManager;
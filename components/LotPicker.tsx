@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { Lot } from '../types';
+import { describePlan } from '../services/aql';
+import { nonconformingCount, remainingSerials } from '../services/lots';
+
+// Lets the inspector sample the next device for an open lot at this stage
+const LotPicker: React.FC<{
+  lots: Lot[];
+  activeLot: Lot | null;
+  onSelect: (lot: Lot | null) => void;
+  onPickSerial: (serial: string) => void;
+}> = ({ lots, activeLot, onSelect, onPickSerial }) => {
+  if (lots.length === 0 && !activeLot) return null;
+  const remaining = activeLot ? remainingSerials(activeLot) : [];
+
+  return (
+    <div className={`rounded-xl border p-4 space-y-3 ${activeLot ? 'bg-indigo-50 border-indigo-100' : 'bg-white border-gray-200'}`}>
+      <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest">Lot Sampling</label>
+      <select
+        value={activeLot?.lotId ?? ''}
+        onChange={e => onSelect(lots.find(l => l.lotId === e.target.value) ?? null)}
+        className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black bg-white"
+      >
+        <option value="">No lot – inspect a single unit</option>
+        {lots.map(lot => <option key={lot.lotId} value={lot.lotId}>{lot.lotId} · {lot.product}{lot.line ? ` · ${lot.line}` : ''}</option>)}
+      </select>
+      {activeLot && (
+        <>
+          <div className="flex justify-between text-xs font-black text-indigo-900">
+            <span>Sampled {activeLot.samples.length} / {activeLot.plan.sampleSize}</span>
+            <span>Nonconforming {nonconformingCount(activeLot)} · {describePlan(activeLot.plan)}</span>
+          </div>
+          {remaining.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-1">Drawn serials to inspect</p>
+              <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                {remaining.map(serial => (
+                  <button key={serial} onClick={() => onPickSerial(serial)} className="px-2 py-1 rounded-lg bg-white border border-indigo-100 font-mono font-black text-[10px] text-indigo-700 hover:bg-indigo-100">{serial}</button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LotPicker;
@@ -0,0 +1,86 @@
+
+import React, { useState, useEffect } from 'react';
+import { MigrationReport, QuarantinedRecord } from '../types';
+import { repository } from '../storage';
+
+// Admin view of the last startup migration and any quarantined records
+const MigrationReportPanel: React.FC = () => {
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([repository.getMigrationReport(), repository.getQuarantine()])
+      .then(([r, q]) => {
+        setReport(r);
+        setQuarantine(q);
+      })
+      .catch(err => console.error('Failed to load migration report:', err));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Data Schema & Migrations</h3>
+        {report && <span className="text-[9px] font-black text-slate-500 uppercase">Schema v{report.targetVersion}</span>}
+      </div>
+      {!report ? (
+        <p className="text-gray-500 text-sm font-bold text-center py-4">No migration has run yet</p>
+      ) : (
+        <div className="p-4 space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Last run {new Date(report.finishedAt).toLocaleString()}</p>
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50 border-b border-gray-200 text-slate-500 font-black uppercase tracking-widest">
+              <tr><th className="px-3 py-2">Collection</th><th className="px-3 py-2">Version</th><th className="px-3 py-2">Migrated</th><th className="px-3 py-2">Quarantined</th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 font-bold">
+              {report.collections.map(c => (
+                <tr key={c.collection}>
+                  <td className="px-3 py-3 text-gray-900">{c.collection}</td>
+                  <td className="px-3 py-3 text-gray-700">{c.fromVersion === c.toVersion ? `v${c.toVersion}` : `v${c.fromVersion} → v${c.toVersion}`}</td>
+                  <td className="px-3 py-3 text-blue-600 font-black">{c.migrated}</td>
+                  <td className={`px-3 py-3 font-black ${c.quarantined > 0 ? 'text-red-600' : 'text-gray-400'}`}>{c.quarantined}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.collections.some(c => c.applied.length > 0) && (
+            <ul className="space-y-1">
+              {Array.from(new Set(report.collections.flatMap(c => c.applied))).map(desc => (
+                <li key={desc} className="text-[11px] font-bold text-gray-600">• {desc}</li>
+              ))}
+            </ul>
+          )}
+          {report.errors.length > 0 && (
+            <div className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100 space-y-1">
+              {report.errors.map((e, i) => <p key={i}>{e}</p>)}
+            </div>
+          )}
+        </div>
+      )}
+      {quarantine.length > 0 && (
+        <div className="border-t border-gray-100">
+          <div className="px-4 py-3 bg-red-50 border-b border-red-100">
+            <h3 className="text-[10px] font-black text-red-600 uppercase tracking-widest">Quarantined Records ({quarantine.length})</h3>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {quarantine.map(q => (
+              <li key={q.id} className="px-4 py-3">
+                <button onClick={() => setExpandedId(expandedId === q.id ? null : q.id)} className="w-full text-left">
+                  <p className="text-xs font-black text-gray-900">{q.collection} / {q.key}</p>
+                  <p className="text-[11px] font-bold text-red-600">{q.reasons.join('; ')}</p>
+                  <p className="text-[9px] font-black text-gray-400 uppercase">{new Date(q.quarantinedAt).toLocaleString()} · schema v{q.schemaVersion}</p>
+                </button>
+                {expandedId === q.id && (
+                  <pre className="mt-2 p-2 bg-slate-900 text-slate-100 rounded-lg text-[10px] overflow-x-auto max-h-48">{typeof q.raw === 'string' ? q.raw : JSON.stringify(q.raw, null, 2)}</pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MigrationReportPanel;
@@ -0,0 +1,114 @@
+
+import React, { useState, useRef } from 'react';
+import { Annotation, AnnotationPoint, AnnotationTool, MediaRef } from '../types';
+import { ANNOTATION_COLORS, ANNOTATION_TOOLS, isDrawn } from '../services/annotations';
+import { useMediaUrl } from './ZoomableImage';
+import { AnnotationShape } from './AnnotationOverlay';
+
+// Full-screen markup editor for a checkpoint photo. Edits a copy of the
+// annotations; nothing is kept until Save, and the photo is never changed.
+const PhotoAnnotator: React.FC<{
+  media: MediaRef;
+  annotations: Annotation[];
+  onSave: (annotations: Annotation[]) => void;
+  onClose: () => void;
+}> = ({ media, annotations: initial, onSave, onClose }) => {
+  const [annotations, setAnnotations] = useState<Annotation[]>(initial);
+  const [drawing, setDrawing] = useState<Annotation | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { url } = useMediaUrl(media.mediaId, 'full');
+
+  // Pointer position as a fraction of the image, clamped to its edges.
+  // The screen matrix accounts for the letterboxing of the fitted image.
+  const pointFor = (e: React.PointerEvent): AnnotationPoint => {
+    const svg = svgRef.current!;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+    const clamp = (v: number) => Math.min(Math.max(v, 0), 1);
+    return { x: clamp(p.x / media.width), y: clamp(p.y / media.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const point = pointFor(e);
+    if (tool === 'text') {
+      const text = prompt('Label text');
+      if (text?.trim()) setAnnotations(prev => [...prev, { kind: 'text', color, at: point, text: text.trim() }]);
+      return;
+    }
+    svgRef.current!.setPointerCapture(e.pointerId);
+    if (tool === 'arrow') setDrawing({ kind: 'arrow', color, from: point, to: point });
+    if (tool === 'circle') setDrawing({ kind: 'circle', color, center: point, radius: 0 });
+    if (tool === 'freehand') setDrawing({ kind: 'freehand', color, points: [point] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drawing) return;
+    const point = pointFor(e);
+    switch (drawing.kind) {
+      case 'arrow': setDrawing({ ...drawing, to: point }); break;
+      case 'circle': {
+        // Radius is kept as a fraction of the width so the circle stays round
+        const dx = point.x - drawing.center.x;
+        const dy = (point.y - drawing.center.y) * media.height / media.width;
+        setDrawing({ ...drawing, radius: Math.hypot(dx, dy) });
+        break;
+      }
+      case 'freehand': setDrawing({ ...drawing, points: [...drawing.points, point] }); break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drawing && isDrawn(drawing)) setAnnotations(prev => [...prev, drawing]);
+    setDrawing(null);
+  };
+
+  const shown = drawing ? [...annotations, drawing] : annotations;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-900 border-b border-white/10">
+        {ANNOTATION_TOOLS.map(t => (
+          <button key={t.tool} onClick={() => setTool(t.tool)} className={`px-3 py-2 rounded-lg font-black text-[10px] uppercase tracking-widest border ${tool === t.tool ? 'bg-white text-slate-900 border-white' : 'text-white border-white/20 hover:bg-white/10'}`}>
+            {t.label}
+          </button>
+        ))}
+        <div className="flex gap-1.5 mx-2">
+          {ANNOTATION_COLORS.map(c => (
+            <button key={c} onClick={() => setColor(c)} aria-label={`Colour ${c}`} style={{ backgroundColor: c }} className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-white scale-110' : 'border-transparent opacity-70'}`} />
+          ))}
+        </div>
+        <button onClick={() => setAnnotations(prev => prev.slice(0, -1))} disabled={annotations.length === 0} className="px-3 py-2 rounded-lg text-white border border-white/20 font-black text-[10px] uppercase tracking-widest disabled:opacity-30">Undo</button>
+        <button onClick={() => setAnnotations([])} disabled={annotations.length === 0} className="px-3 py-2 rounded-lg text-white border border-white/20 font-black text-[10px] uppercase tracking-widest disabled:opacity-30">Clear</button>
+        <div className="ml-auto flex gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-700 text-white font-black text-[10px] uppercase tracking-widest">Cancel</button>
+          <button onClick={() => onSave(annotations)} className="px-4 py-2 rounded-lg bg-blue-600 text-white font-black text-[10px] uppercase tracking-widest hover:bg-blue-700">Save Markup</button>
+        </div>
+      </div>
+      <div className="relative flex-1 m-4">
+        {url ? (
+          <img src={url} alt="Checkpoint photo" className="absolute inset-0 w-full h-full object-contain select-none" draggable={false} />
+        ) : (
+          <span className="absolute inset-0 flex items-center justify-center text-[10px] font-black text-slate-400 uppercase tracking-widest animate-pulse">Loading...</span>
+        )}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${media.width} ${media.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrawing(null)}
+          className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+        >
+          {shown.map((annotation, i) => <AnnotationShape key={i} annotation={annotation} width={media.width} height={media.height} />)}
+        </svg>
+      </div>
+      <p className="pb-4 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        {tool === 'text' ? 'Tap where the label goes' : tool === 'circle' ? 'Drag out from the centre' : tool === 'arrow' ? 'Drag from the tail to the defect' : 'Draw around the defect'}
+      </p>
+    </div>
+  );
+};
+
+export default PhotoAnnotator;
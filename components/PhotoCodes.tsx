@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { SerialFormat } from '../types';
+import { PhotoCode, isSameSerial, isSerialCode } from '../services/photoCodes';
+import { DecodedCode, symbologyLabel } from '../services/barcode';
+import { fontSizeFor, strokeWidthFor } from '../services/annotations';
+
+// Numbered boxes around the codes found in the device photo, for ZoomableImage
+export const PhotoCodeOverlay: React.FC<{ codes: PhotoCode[]; serial: string; width: number; height: number }> = ({ codes, serial, width, height }) => {
+  if (codes.length < 2) return null;
+  const stroke = strokeWidthFor(width, height);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+      {codes.map((c, i) => c.region && (
+        <g key={`${c.code.symbology}:${c.code.text}`} stroke={isSameSerial(c.code.text, serial) ? '#22c55e' : '#f59e0b'} fill="none">
+          <rect x={c.region.x * width} y={c.region.y * height} width={c.region.width * width} height={c.region.height * height} strokeWidth={stroke} rx={stroke} />
+          <text x={c.region.x * width + stroke * 2} y={c.region.y * height - stroke * 2} fill="#fff" stroke="rgba(0, 0, 0, 0.7)" strokeWidth={stroke} paintOrder="stroke" fontSize={fontSizeFor(width, height)} fontWeight="bold" fontFamily="sans-serif">
+            {i + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// What the photo's labels read: a status line, a choice when there are
+// several, and a warning when none of its serial labels match the entry
+const PhotoCodes: React.FC<{
+  codes: PhotoCode[] | null;
+  isReading: boolean;
+  serial: string;
+  serialFormats: SerialFormat[];
+  mismatch: string[];
+  onPick: (code: DecodedCode) => void;
+}> = ({ codes, isReading, serial, serialFormats, mismatch, onPick }) => {
+  if (isReading) {
+    return <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center animate-pulse">Reading labels in the photo...</p>;
+  }
+  if (!codes) return null;
+  if (codes.length === 0) {
+    return <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">No barcode found in the photo</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {codes.length > 1 && (
+        <div className="space-y-1">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Codes in the photo</p>
+          <div className="flex flex-wrap gap-2">
+            {codes.map((c, i) => ({ c, i, isSerial: isSerialCode(c, serialFormats) }))
+              // Codes that look like serials first; numbers stay those on the photo
+              .sort((a, b) => Number(b.isSerial) - Number(a.isSerial))
+              .map(({ c, i, isSerial }) => (
+                <button
+                  key={`${c.code.symbology}:${c.code.text}`}
+                  type="button"
+                  onClick={() => onPick(c.code)}
+                  className={`px-3 py-1.5 rounded-lg border text-left transition-colors ${isSameSerial(c.code.text, serial) ? 'bg-green-50 border-green-300 text-green-800' : 'bg-white border-amber-200 text-slate-700 hover:border-amber-400'} ${isSerial ? '' : 'opacity-60'}`}
+                >
+                  <span className="font-mono font-black text-xs">{c.region ? `${i + 1} · ` : ''}{c.code.text}</span>
+                  <span className="block text-[9px] font-black text-gray-400 uppercase tracking-widest">
+                    {symbologyLabel(c.code.symbology)}{!isSerial && ' · not a serial format'}
+                  </span>
+                </button>
+              ))}
+          </div>
+        </div>
+      )}
+      {mismatch.length > 0 && (
+        <p className="text-xs font-bold text-amber-800 bg-amber-50 border border-amber-200 rounded-xl p-3">
+          The label in the photo reads {mismatch.join(' or ')}, not {serial.trim()}. Check the serial or retake the photo.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PhotoCodes;
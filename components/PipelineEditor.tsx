@@ -0,0 +1,219 @@
+
+import React, { useState, useEffect } from 'react';
+import { StageDefinition, ChecklistTemplate, User } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { validatePipeline } from '../services/pipeline';
+import { REPEAT_POLICIES } from '../services/inspectionHistory';
+import { SYMBOLOGIES } from '../services/barcode';
+import { PlusIcon } from './Icons';
+
+// Editor for the ordered stage pipeline. Stages can be disabled but not
+// deleted, so reports and device statuses keep pointing at a known stage.
+const PipelineEditor: React.FC<{ currentUser: User | null; onClose: () => void }> = ({ currentUser, onClose }) => {
+  const [saved, setSaved] = useState<StageDefinition[]>([]);
+  const [stages, setStages] = useState<StageDefinition[]>([]);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    Promise.all([repository.getStages(), repository.getTemplates()])
+      .then(([s, t]) => {
+        setSaved(s);
+        setStages(s);
+        setTemplates(t);
+      })
+      .catch(err => console.error('Failed to load pipeline:', err));
+  }, []);
+
+  // Only templates with a published version can run an inspection
+  const templateOptions = Array.from(new Map<string, ChecklistTemplate>(
+    templates.filter(t => t.status === 'published').map(t => [t.templateId, t])
+  ).values());
+
+  const isNew = (stageId: string) => !saved.some(s => s.stageId === stageId);
+
+  const updateStage = (index: number, updates: Partial<StageDefinition>) => {
+    setNotice('');
+    setStages(prev => prev.map((s, i) => i === index ? { ...s, ...updates } : s));
+  };
+
+  // Renaming a new stage's ID keeps the other stages' prerequisites pointing at it
+  const renameStageId = (index: number, stageId: string) => {
+    const previous = stages[index].stageId;
+    setNotice('');
+    setStages(prev => prev.map((s, i) => i === index
+      ? { ...s, stageId }
+      : { ...s, prerequisites: s.prerequisites.map(p => p === previous ? stageId : p) }));
+  };
+
+  const moveStage = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    setNotice('');
+    setStages(next);
+  };
+
+  const togglePrerequisite = (index: number, prerequisite: string) => {
+    const current = stages[index].prerequisites;
+    updateStage(index, { prerequisites: current.includes(prerequisite) ? current.filter(p => p !== prerequisite) : [...current, prerequisite] });
+  };
+
+  const toggleSymbology = (index: number, symbology: StageDefinition['symbologies'][number]) => {
+    const current = stages[index].symbologies;
+    updateStage(index, { symbologies: current.includes(symbology) ? current.filter(s => s !== symbology) : [...current, symbology] });
+  };
+
+  const addStage = () => {
+    setNotice('');
+    setStages(prev => [...prev, {
+      stageId: `STAGE_${prev.length + 1}`,
+      label: 'New Stage',
+      description: '',
+      order: prev.length + 1,
+      prerequisites: prev.length > 0 ? [prev[prev.length - 1].stageId] : [],
+      optional: false,
+      skippable: false,
+      reinspectFailedOnly: false,
+      repeatPolicy: 'warn',
+      symbologies: ['qr', 'code128'],
+      templateId: templateOptions[0]?.templateId ?? '',
+      enabled: true
+    }]);
+  };
+
+  const handleSave = async () => {
+    // Order follows the list as shown
+    const ordered = stages.map((s, i) => ({ ...s, order: i + 1 }));
+    const problems = validatePipeline(ordered);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await repository.saveStages(ordered);
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'pipeline.update',
+        target: { type: 'stage', id: 'pipeline' },
+        before: saved,
+        after: ordered
+      });
+      setSaved(ordered);
+      setStages(ordered);
+      setNotice('Pipeline saved.');
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Pipeline could not be saved.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Inspection Pipeline</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Stages run top to bottom</p>
+        </div>
+        <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+      </div>
+
+      <div className="space-y-3">
+        {stages.map((stage, index) => (
+          <div key={index} className={`bg-white p-4 rounded-2xl border shadow-sm flex gap-3 ${stage.enabled ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+            <div className="flex flex-col gap-1">
+              <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-blue-600 disabled:opacity-20 font-black text-xs" title="Move up">▲</button>
+              <span className="text-[10px] font-black text-gray-300 text-center">{index + 1}</span>
+              <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className="text-gray-400 hover:text-blue-600 disabled:opacity-20 font-black text-xs" title="Move down">▼</button>
+            </div>
+            <div className="flex-1 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input
+                  value={stage.stageId}
+                  disabled={!isNew(stage.stageId)}
+                  onChange={e => renameStageId(index, e.target.value.trim())}
+                  placeholder="Stage ID"
+                  className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black disabled:bg-gray-50"
+                />
+                <input value={stage.label} onChange={e => updateStage(index, { label: e.target.value })} placeholder="Label" className="md:col-span-2 p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-bold text-black" />
+              </div>
+              <input value={stage.description} onChange={e => updateStage(index, { description: e.target.value })} placeholder="Description shown on the stage selection screen" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black" />
+              <select value={stage.templateId} onChange={e => updateStage(index, { templateId: e.target.value })} className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black">
+                {!templateOptions.some(t => t.templateId === stage.templateId) && <option value={stage.templateId}>{stage.templateId || 'Select a checklist template'}</option>}
+                {templateOptions.map(t => <option key={t.templateId} value={t.templateId}>{t.name}</option>)}
+              </select>
+              {index > 0 && (
+                <div>
+                  <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">Requires</p>
+                  <div className="flex flex-wrap gap-2">
+                    {stages.slice(0, index).map(other => (
+                      <button
+                        key={other.stageId}
+                        onClick={() => togglePrerequisite(index, other.stageId)}
+                        className={`px-3 py-1.5 rounded-lg border-2 font-black text-[9px] uppercase tracking-widest transition-all ${stage.prerequisites.includes(other.stageId) ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-100 text-gray-400 hover:border-gray-300'}`}
+                      >
+                        {other.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div>
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">Scans</p>
+                <div className="flex flex-wrap gap-2">
+                  {SYMBOLOGIES.map(({ symbology, label }) => (
+                    <button
+                      key={symbology}
+                      onClick={() => toggleSymbology(index, symbology)}
+                      className={`px-3 py-1.5 rounded-lg border-2 font-black text-[9px] uppercase tracking-widest transition-all ${stage.symbologies.includes(symbology) ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-100 text-gray-400 hover:border-gray-300'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {([
+                  ['enabled', 'Enabled'],
+                  ['optional', 'Optional'],
+                  ['skippable', 'Skippable'],
+                  ['reinspectFailedOnly', 'Re-inspect failed only']
+                ] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => updateStage(index, { [key]: !stage[key] })}
+                    className={`px-3 py-1.5 rounded-lg border font-black text-[9px] uppercase tracking-widest ${stage[key] ? 'bg-slate-900 border-slate-900 text-white' : 'bg-gray-50 border-gray-100 text-gray-400'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <select value={stage.repeatPolicy} onChange={e => updateStage(index, { repeatPolicy: e.target.value as StageDefinition['repeatPolicy'] })} title="When a device that already has a report here is entered again" className="px-2 py-1.5 rounded-lg border border-gray-100 font-black text-[9px] uppercase tracking-widest text-black outline-none focus:border-blue-500">
+                  {REPEAT_POLICIES.map(p => <option key={p.policy} value={p.policy}>{p.label}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+        ))}
+        <button onClick={addStage} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Stage</button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100 space-y-1">
+          {errors.map((e, i) => <p key={i}>{e}</p>)}
+        </div>
+      )}
+      {notice && <p className="text-green-700 font-bold text-xs p-3 bg-green-50 rounded-xl border border-green-100">{notice}</p>}
+
+      <button onClick={handleSave} disabled={isSaving} className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest text-white shadow-xl ${isSaving ? 'bg-gray-400' : 'bg-slate-900'}`}>
+        {isSaving ? 'Saving...' : 'Save Pipeline'}
+      </button>
+    </div>
+  );
+};
+
+export default PipelineEditor;
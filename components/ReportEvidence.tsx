@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { Evidence, QCReport } from '../types';
+import { MissingMedia, useMediaUrl } from './ZoomableImage';
+import AnnotationOverlay from './AnnotationOverlay';
+import { AIRegionOverlay } from './AIInspection';
+import { ClipPlayer } from './EvidenceList';
+
+const PhotoThumb: React.FC<{ photo: Evidence; label: string; failed: boolean }> = ({ photo, label, failed }) => {
+  const { url, missing } = useMediaUrl(photo.media.mediaId, 'thumb');
+  return (
+    <figure className="w-28 space-y-1">
+      <div className="relative w-28 h-28 rounded-lg overflow-hidden bg-slate-900 flex items-center justify-center">
+        {url && <img src={url} alt={label} className="w-full h-full object-contain" />}
+        {missing && <MissingMedia className="px-2" />}
+        <AnnotationOverlay annotations={photo.annotations} width={photo.media.width} height={photo.media.height} />
+        <AIRegionOverlay inspection={photo.aiInspection} width={photo.media.width} height={photo.media.height} />
+      </div>
+      <figcaption className={`text-[9px] font-black uppercase truncate ${failed ? 'text-red-600' : 'text-gray-500'}`}>{label}</figcaption>
+      {photo.aiInspection && (
+        <p className="text-[9px] font-black uppercase text-purple-600">AI: {photo.aiInspection.verdict} {Math.round(photo.aiInspection.confidence * 100)}%</p>
+      )}
+    </figure>
+  );
+};
+
+// Checkpoint photos with their markup, and playable clips, for the history views
+const ReportEvidence: React.FC<{ report: QCReport; failedOnly?: boolean }> = ({ report, failedOnly = false }) => {
+  const shown = report.checkpoints.filter(cp => cp.evidence.length > 0 && (!failedOnly || cp.status === 'Fail'));
+  if (shown.length === 0) return null;
+  const clips = shown.flatMap(cp => cp.evidence.filter(e => e.kind !== 'photo').map(e => ({ cp, clip: e })));
+  return (
+    <div className="space-y-2 pt-1">
+      <div className="flex flex-wrap gap-2">
+        {shown.flatMap(cp => cp.evidence.filter(e => e.kind === 'photo').map(photo => (
+          <PhotoThumb key={photo.media.mediaId} photo={photo} label={cp.label} failed={cp.status === 'Fail'} />
+        )))}
+      </div>
+      {clips.map(({ cp, clip }) => (
+        <div key={clip.media.mediaId} className="space-y-1">
+          <p className={`text-[9px] font-black uppercase truncate ${cp.status === 'Fail' ? 'text-red-600' : 'text-gray-500'}`}>{cp.label}</p>
+          <ClipPlayer evidence={clip} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReportEvidence;
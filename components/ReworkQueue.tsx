@@ -0,0 +1,229 @@
+
+import React, { useState, useEffect } from 'react';
+import { ReworkTicket, QCReport, StageDefinition, User } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { hasPermission } from '../services/permissions';
+import { stageLabel } from '../services/pipeline';
+import { deviceHistory } from '../services/rework';
+import { printReport } from '../services/reportPrint';
+import DefectBadge from './DefectBadge';
+import ReportEvidence from './ReportEvidence';
+
+const FILTERS: { label: string; status: ReworkTicket['status'] }[] = [
+  { label: 'Awaiting Repair', status: 'open' },
+  { label: 'Awaiting Re-inspection', status: 'repaired' },
+  { label: 'Closed', status: 'closed' }
+];
+
+// Rework tickets opened by failed inspections, repair entry and per-device history
+const ReworkQueue: React.FC<{ currentUser: User | null; onClose?: () => void }> = ({ currentUser, onClose }) => {
+  const [tickets, setTickets] = useState<ReworkTicket[]>([]);
+  const [reports, setReports] = useState<QCReport[]>([]);
+  const [stages, setStages] = useState<StageDefinition[]>([]);
+  const [filter, setFilter] = useState<ReworkTicket['status']>('open');
+  const [repairingId, setRepairingId] = useState<string | null>(null);
+  const [action, setAction] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [historyDevice, setHistoryDevice] = useState<string | null>(null);
+
+  const canRecord = hasPermission(currentUser, 'record_repairs');
+  const canPrint = hasPermission(currentUser, 'export_reports');
+
+  useEffect(() => {
+    Promise.all([repository.getReworkTickets(), repository.getReports(), repository.getStages()])
+      .then(([t, r, s]) => {
+        setTickets(t);
+        setReports(r);
+        setStages(s);
+      })
+      .catch(err => console.error('Failed to load rework tickets:', err));
+  }, []);
+
+  const visible = tickets.filter(t => t.status === filter).reverse();
+
+  const startRepair = (ticketId: string) => {
+    setRepairingId(ticketId);
+    setAction('');
+    setNotes('');
+  };
+
+  const handleRecordRepair = async (ticket: ReworkTicket) => {
+    if (!action.trim()) {
+      alert('Describe the repair before saving.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const repaired = await repository.recordRepair(ticket.ticketId, {
+        technicianId: currentUser?.userId ?? 'Unknown',
+        action: action.trim(),
+        notes: notes.trim(),
+        repairedAt: new Date().toISOString()
+      });
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'rework.repair',
+        target: { type: 'rework', id: ticket.ticketId },
+        before: { status: ticket.status },
+        after: { status: repaired.status, repair: repaired.repair },
+        context: { deviceId: ticket.deviceId, stage: ticket.stage, reportId: ticket.reportId }
+      });
+      setTickets(prev => prev.map(t => t.ticketId === repaired.ticketId ? repaired : t));
+      setRepairingId(null);
+    } catch (err) {
+      console.error('Failed to record repair:', err);
+      alert(err instanceof Error ? err.message : 'Repair could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const showHistory = (deviceId: string) => {
+    setHistoryQuery(deviceId);
+    setHistoryDevice(deviceId);
+  };
+
+  const handlePrint = async (report: QCReport) => {
+    try {
+      await printReport(report, stages);
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'report.export',
+        target: { type: 'report', id: report.id },
+        after: { format: 'print' },
+        context: { deviceId: report.deviceId, stage: report.stage, reportId: report.id }
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Report could not be printed.');
+    }
+  };
+
+  const history = historyDevice ? deviceHistory(historyDevice, reports, tickets) : [];
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Rework</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {tickets.filter(t => t.status === 'open').length} awaiting repair · {tickets.filter(t => t.status === 'repaired').length} awaiting re-inspection
+          </p>
+        </div>
+        {onClose && <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FILTERS.map(f => (
+          <button
+            key={f.status}
+            onClick={() => setFilter(f.status)}
+            className={`py-3 rounded-xl font-black text-[10px] uppercase transition-all ${filter === f.status ? 'bg-slate-900 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {visible.length === 0 && <p className="text-gray-500 text-sm font-bold text-center py-8 bg-white rounded-2xl border border-gray-200">No tickets</p>}
+        {visible.map(ticket => (
+          <div key={ticket.ticketId} className="bg-white p-4 rounded-2xl border border-gray-200 shadow-sm space-y-3">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <button onClick={() => showHistory(ticket.deviceId)} className="text-lg font-mono font-black text-blue-600 hover:underline">{ticket.deviceId}</button>
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                  {stageLabel(stages, ticket.stage)} · attempt {ticket.attempt} · failed by {ticket.openedBy}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-[9px] font-black text-gray-400 uppercase">{ticket.ticketId}</p>
+                <p className="text-[9px] font-black text-gray-400 uppercase">{new Date(ticket.openedAt).toLocaleString()}</p>
+                {ticket.outcome && (
+                  <p className={`text-[10px] font-black uppercase ${ticket.outcome === 'passed' ? 'text-green-600' : 'text-red-600'}`}>Re-inspection {ticket.outcome}</p>
+                )}
+              </div>
+            </div>
+            <ul className="space-y-1">
+              {ticket.failedCheckpoints.map(cp => (
+                <li key={cp.id} className="text-xs font-bold text-gray-700 bg-red-50 border border-red-100 rounded-xl p-2">
+                  {cp.label}
+                  {cp.defects.length > 0 && <span className="flex flex-wrap gap-1 mt-1">{cp.defects.map(d => <DefectBadge key={d.code} defect={d} />)}</span>}
+                  {cp.reason && <span className="block text-red-600 font-bold">{cp.reason}</span>}
+                </li>
+              ))}
+            </ul>
+            {ticket.repair && (
+              <p className="text-xs font-bold text-slate-600 bg-slate-50 border border-slate-100 rounded-xl p-3">
+                Repaired by {ticket.repair.technicianId} on {new Date(ticket.repair.repairedAt).toLocaleString()}: {ticket.repair.action}
+                {ticket.repair.notes && <span className="block text-slate-400">{ticket.repair.notes}</span>}
+              </p>
+            )}
+            {ticket.status === 'open' && canRecord && (repairingId === ticket.ticketId ? (
+              <div className="space-y-2">
+                <input value={action} onChange={e => setAction(e.target.value)} placeholder="Repair performed (e.g. replaced top cover)" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-bold text-black" />
+                <textarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (parts, root cause...)" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold h-20 text-black" />
+                <div className="flex gap-2">
+                  <button onClick={() => handleRecordRepair(ticket)} disabled={isSaving} className={`flex-1 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest text-white ${isSaving ? 'bg-gray-400' : 'bg-blue-600'}`}>{isSaving ? 'Saving...' : 'Save Repair'}</button>
+                  <button onClick={() => setRepairingId(null)} className="px-4 py-3 rounded-xl font-black text-[10px] uppercase bg-gray-100 text-gray-500">Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <button onClick={() => startRepair(ticket.ticketId)} className="w-full py-3 rounded-xl bg-slate-900 text-white font-black text-[10px] uppercase tracking-widest">Record Repair</button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden shadow-sm">
+        <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Device History</h3>
+        </div>
+        <div className="p-4 space-y-4">
+          <form onSubmit={e => { e.preventDefault(); setHistoryDevice(historyQuery.trim().toUpperCase() || null); }} className="flex gap-2">
+            <input value={historyQuery} onChange={e => setHistoryQuery(e.target.value.toUpperCase())} placeholder="Device ID" className="flex-1 p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-mono font-bold text-black" />
+            <button type="submit" className="px-5 rounded-xl bg-blue-600 text-white font-black text-[10px] uppercase">Show</button>
+          </form>
+          {historyDevice && (history.length === 0 ? (
+            <p className="text-gray-500 text-sm font-bold text-center py-4">No inspections recorded for {historyDevice}</p>
+          ) : (
+            <ol className="space-y-2">
+              {history.map(event => event.kind === 'inspection' ? (
+                <li key={event.report.id} className="flex justify-between items-start gap-4 p-3 rounded-xl border border-gray-100">
+                  <div>
+                    <p className="text-xs font-black text-gray-900">
+                      {stageLabel(stages, event.report.stage)} inspection · attempt {event.report.attempt}
+                      {event.report.reworkTicketId && <span className="text-gray-400"> · re-inspection</span>}
+                    </p>
+                    <p className="text-[11px] font-bold text-gray-500">
+                      by {event.report.userId} · {event.report.checkpoints.length} checkpoints
+                      {event.result === 'failed' && ` · failed: ${event.report.checkpoints.filter(cp => cp.status === 'Fail').map(cp => cp.label).join('; ')}`}
+                    </p>
+                    <ReportEvidence report={event.report} failedOnly />
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className={`text-[10px] font-black uppercase ${event.result === 'passed' ? 'text-green-600' : 'text-red-600'}`}>{event.result}</p>
+                    <p className="text-[9px] font-black text-gray-400 uppercase">{new Date(event.at).toLocaleString()}</p>
+                    {canPrint && <button onClick={() => handlePrint(event.report)} className="mt-1 text-[9px] font-black text-blue-600 uppercase hover:underline">Print</button>}
+                  </div>
+                </li>
+              ) : (
+                <li key={`${event.ticket.ticketId}-repair`} className="flex justify-between items-center gap-4 p-3 rounded-xl border border-amber-100 bg-amber-50">
+                  <div>
+                    <p className="text-xs font-black text-gray-900">Repair · {stageLabel(stages, event.ticket.stage)}</p>
+                    <p className="text-[11px] font-bold text-gray-500">by {event.ticket.repair!.technicianId} · {event.ticket.repair!.action}</p>
+                  </div>
+                  <p className="text-[9px] font-black text-gray-400 uppercase shrink-0">{new Date(event.at).toLocaleString()}</p>
+                </li>
+              ))}
+            </ol>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReworkQueue;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { SerialFormat, User } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { CHECK_DIGIT_SCHEMES, checkSerial, validateSerialFormats } from '../services/serialFormat';
+import { PlusIcon } from './Icons';
+
+// Editor for the serial number rules checked on device entry. Formats are
+// deactivated rather than deleted, like defect codes.
+const SerialFormatEditor: React.FC<{ currentUser: User | null; onClose: () => void }> = ({ currentUser, onClose }) => {
+  const [saved, setSaved] = useState<SerialFormat[]>([]);
+  const [formats, setFormats] = useState<SerialFormat[]>([]);
+  const [trySerial, setTrySerial] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    repository.getSerialFormats()
+      .then(f => {
+        setSaved(f);
+        setFormats(f);
+      })
+      .catch(err => console.error('Failed to load serial formats:', err));
+  }, []);
+
+  const isChanged = (format: SerialFormat) => {
+    const before = saved.find(s => s.formatId === format.formatId);
+    return !before || JSON.stringify(before) !== JSON.stringify(format);
+  };
+
+  const updateFormat = (index: number, updates: Partial<SerialFormat>) => {
+    setNotice('');
+    setFormats(prev => prev.map((f, i) => i === index ? { ...f, ...updates } : f));
+  };
+
+  const addFormat = () => {
+    setNotice('');
+    setFormats(prev => [...prev, {
+      formatId: `fmt-${Date.now().toString(36)}`,
+      label: '',
+      pattern: '',
+      checkDigit: 'none',
+      example: '',
+      active: true,
+      updatedAt: new Date().toISOString(),
+      updatedBy: currentUser?.userId ?? 'system'
+    }]);
+  };
+
+  const handleSave = async () => {
+    const problems = validateSerialFormats(formats);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    const changed = formats.filter(isChanged);
+    if (changed.length === 0) {
+      setNotice('No changes to save.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const now = new Date().toISOString();
+      const stamped = formats.map(f => isChanged(f) ? { ...f, updatedAt: now, updatedBy: currentUser?.userId ?? 'system' } : f);
+      await repository.saveSerialFormats(stamped);
+      recordAudit(repository, {
+        actor: currentUser?.userId ?? 'system',
+        action: 'serials.update',
+        target: { type: 'serialFormat', id: changed.map(f => f.formatId).join(', ') },
+        before: saved.filter(s => changed.some(f => f.formatId === s.formatId)),
+        after: changed
+      });
+      setSaved(stamped);
+      setFormats(stamped);
+      setNotice(`${changed.length} serial format${changed.length === 1 ? '' : 's'} saved.`);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Serial formats could not be saved.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Checks a serial against the formats as edited, before they are saved
+  const trial = trySerial.trim() ? checkSerial(trySerial.trim(), formats) : null;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Serial Formats</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Device IDs must match an active format</p>
+        </div>
+        <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+      </div>
+
+      <div className="space-y-3">
+        {formats.map((format, index) => (
+          <div key={format.formatId} className={`bg-white p-4 rounded-2xl border shadow-sm space-y-3 ${format.active ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <input value={format.label} onChange={e => updateFormat(index, { label: e.target.value })} placeholder="Label, e.g. Calculator V5" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-bold text-black" />
+              <input value={format.example} onChange={e => updateFormat(index, { example: e.target.value.toUpperCase() })} placeholder="Example serial" className="p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black" />
+              <input value={format.pattern} onChange={e => updateFormat(index, { pattern: e.target.value })} placeholder="Pattern, e.g. FLEX-([0-9]{8})" className="md:col-span-2 p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black" />
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              <select value={format.checkDigit} onChange={e => updateFormat(index, { checkDigit: e.target.value as SerialFormat['checkDigit'] })} className="p-2 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-xs font-bold text-black">
+                {CHECK_DIGIT_SCHEMES.map(s => <option key={s.scheme} value={s.scheme}>{s.label}</option>)}
+              </select>
+              {format.checkDigit !== 'none' && (
+                <span className="text-[10px] font-bold text-gray-400">Covers the first ( ) group of the pattern, or the whole serial; the check character is last</span>
+              )}
+              <button
+                onClick={() => updateFormat(index, { active: !format.active })}
+                className={`ml-auto px-3 py-1.5 rounded-lg border font-black text-[9px] uppercase tracking-widest ${format.active ? 'bg-slate-900 border-slate-900 text-white' : 'bg-gray-50 border-gray-100 text-gray-400'}`}
+              >
+                {format.active ? 'Active' : 'Inactive'}
+              </button>
+            </div>
+          </div>
+        ))}
+        {formats.length === 0 && <p className="text-gray-400 font-bold text-sm text-center py-4">No serial formats: any device ID is accepted</p>}
+        <button onClick={addFormat} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Serial Format</button>
+      </div>
+
+      <div className="bg-white p-4 rounded-2xl border border-gray-200 shadow-sm space-y-2">
+        <input value={trySerial} onChange={e => setTrySerial(e.target.value.toUpperCase())} placeholder="Try a serial against the active formats" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-mono font-bold text-black" />
+        {trial && (
+          <p className={`text-xs font-bold ${trial.ok ? 'text-green-700' : 'text-red-600'}`}>
+            {trial.ok === false ? trial.reason : trial.format ? `Accepted as ${trial.format.label}.` : 'Accepted: no format is active.'}
+          </p>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100 space-y-1">
+          {errors.map((e, i) => <p key={i}>{e}</p>)}
+        </div>
+      )}
+      {notice && <p className="text-green-700 font-bold text-xs p-3 bg-green-50 rounded-xl border border-green-100">{notice}</p>}
+
+      <button onClick={handleSave} disabled={isSaving} className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest text-white shadow-xl ${isSaving ? 'bg-gray-400' : 'bg-slate-900'}`}>
+        {isSaving ? 'Saving...' : 'Save Serial Formats'}
+      </button>
+    </div>
+  );
+};
+
+export default SerialFormatEditor;
@@ -0,0 +1,384 @@
+
+import React, { useState, useEffect } from 'react';
+import { ChecklistTemplate, TemplateCheckpoint, InspectorChanges, User, StageDefinition, CheckpointSpec, CheckpointType } from '../types';
+import { repository } from '../storage';
+import { recordAudit } from '../services/auditLog';
+import { CHECKPOINT_TYPES, PASS_FAIL_SPEC, defaultSpec, validateSpec } from '../services/checkpointSpec';
+import { EVIDENCE_KINDS, MAX_EVIDENCE_PER_KIND } from '../services/evidence';
+import { DEFAULT_MIN_EVIDENCE } from '../constants.tsx';
+import { ArrowLeftIcon, TrashIcon, PlusIcon } from './Icons';
+
+const CHANGE_OPTIONS: { key: keyof InspectorChanges; label: string }[] = [
+  { key: 'addCheckpoints', label: 'Add checkpoints' },
+  { key: 'renameCheckpoints', label: 'Rename checkpoints' },
+  { key: 'removeOptional', label: 'Remove optional checkpoints' }
+];
+
+const newCheckpointId = () => `cp_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const parseLimit = (text: string) => text.trim() === '' || isNaN(Number(text)) ? null : Number(text);
+
+const parseOptions = (text: string) => text.split(',').map(o => o.trim()).filter(o => o !== '');
+
+// Type-specific fields of a checkpoint: unit and limits, options, the passing
+// answer, or the references an ID is read from
+const SpecFields: React.FC<{ spec: CheckpointSpec; onChange: (spec: CheckpointSpec) => void }> = ({ spec, onChange }) => {
+  const fieldClass = 'p-2 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-xs font-bold text-black';
+  if (spec.type === 'numeric') {
+    return (
+      <div className="grid grid-cols-3 gap-2">
+        <input value={spec.unit ?? ''} onChange={e => onChange({ ...spec, unit: e.target.value })} placeholder="Unit (g, V, nits)" className={fieldClass} />
+        <input type="number" step="any" value={spec.lsl ?? ''} onChange={e => onChange({ ...spec, lsl: parseLimit(e.target.value) })} placeholder="Lower limit" className={fieldClass} />
+        <input type="number" step="any" value={spec.usl ?? ''} onChange={e => onChange({ ...spec, usl: parseLimit(e.target.value) })} placeholder="Upper limit" className={fieldClass} />
+      </div>
+    );
+  }
+  if (spec.type === 'single_choice' || spec.type === 'multi_choice') {
+    const options = spec.options ?? [];
+    const passOptions = spec.passOptions ?? [];
+    return (
+      <div className="space-y-2">
+        <input
+          key={spec.type}
+          defaultValue={options.join(', ')}
+          onBlur={e => {
+            const next = parseOptions(e.target.value);
+            onChange({ ...spec, options: next, passOptions: passOptions.filter(o => next.includes(o)) });
+          }}
+          placeholder="Options, comma separated"
+          className={`w-full ${fieldClass}`}
+        />
+        {options.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest">{spec.type === 'single_choice' ? 'Passing answers' : 'Must all be picked'}</span>
+            {options.map(option => (
+              <button
+                key={option}
+                onClick={() => onChange({ ...spec, passOptions: passOptions.includes(option) ? passOptions.filter(o => o !== option) : [...passOptions, option] })}
+                className={`px-2 py-1 rounded-lg border font-black text-[9px] uppercase ${passOptions.includes(option) ? 'bg-green-600 border-green-600 text-white' : 'bg-gray-50 border-gray-100 text-gray-400'}`}
+              >
+                {option}
+              </button>
+            ))}
+            {passOptions.length === 0 && <span className="text-[9px] font-bold text-gray-400">none: inspector judges Pass/Fail</span>}
+          </div>
+        )}
+      </div>
+    );
+  }
+  if (spec.type === 'id_match') {
+    return (
+      <input
+        key={spec.type}
+        defaultValue={(spec.references ?? []).join(', ')}
+        onBlur={e => onChange({ ...spec, references: parseOptions(e.target.value) })}
+        placeholder="Where the ID is read, comma separated: System info, Device label, Box label"
+        className={`w-full ${fieldClass}`}
+      />
+    );
+  }
+  if (spec.type === 'boolean') {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest">Passes on</span>
+        {[true, false].map(answer => (
+          <button key={String(answer)} onClick={() => onChange({ ...spec, passValue: answer })} className={`px-3 py-1 rounded-lg border font-black text-[9px] uppercase ${spec.passValue === answer ? 'bg-green-600 border-green-600 text-white' : 'bg-gray-50 border-gray-100 text-gray-400'}`}>
+            {answer ? 'Yes' : 'No'}
+          </button>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+// Groups every stored version under its template ID, newest version last
+const groupVersions = (templates: ChecklistTemplate[]) => {
+  const groups = new Map<string, ChecklistTemplate[]>();
+  templates.forEach(t => groups.set(t.templateId, [...(groups.get(t.templateId) || []), t]));
+  return Array.from(groups.values()).map(versions => versions.sort((a, b) => a.version - b.version));
+};
+
+// Admin editor for checklist templates: drafts are edited freely, publishing freezes a version
+const TemplateEditor: React.FC<{ currentUser: User | null; onClose: () => void }> = ({ currentUser, onClose }) => {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [stages, setStages] = useState<StageDefinition[]>([]);
+  const [working, setWorking] = useState<ChecklistTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const actor = currentUser?.userId ?? 'system';
+
+  const reload = () => repository.getTemplates().then(setTemplates).catch(err => console.error('Failed to load templates:', err));
+
+  useEffect(() => {
+    reload();
+    repository.getStages().then(setStages).catch(err => console.error('Failed to load stages:', err));
+  }, []);
+
+  const usedBy = (templateId: string) => stages.filter(s => s.templateId === templateId).map(s => s.label).join(', ');
+
+  const groups = groupVersions(templates);
+
+  // Opens the existing draft, or starts the next version from the latest published one
+  const openTemplate = (versions: ChecklistTemplate[]) => {
+    const latest = versions[versions.length - 1];
+    setError('');
+    setWorking(latest.status === 'draft' ? latest : {
+      ...latest,
+      version: latest.version + 1,
+      status: 'draft',
+      checkpoints: latest.checkpoints.map(cp => ({ ...cp })),
+      publishedAt: null,
+      publishedBy: null
+    });
+  };
+
+  const createTemplate = () => {
+    setError('');
+    setWorking({
+      templateId: `tpl-${Date.now().toString(36)}`,
+      version: 1,
+      name: 'New Checklist',
+      status: 'draft',
+      checkpoints: [],
+      inspectorChanges: { addCheckpoints: false, renameCheckpoints: false, removeOptional: false },
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+      publishedAt: null,
+      publishedBy: null
+    });
+  };
+
+  const updateWorking = (updates: Partial<ChecklistTemplate>) => setWorking(prev => prev ? { ...prev, ...updates } : prev);
+
+  const updateCheckpoint = (id: string, updates: Partial<TemplateCheckpoint>) =>
+    setWorking(prev => prev ? { ...prev, checkpoints: prev.checkpoints.map(cp => cp.id === id ? { ...cp, ...updates } : cp) } : prev);
+
+  const moveCheckpoint = (index: number, offset: -1 | 1) => {
+    setWorking(prev => {
+      if (!prev) return prev;
+      const target = index + offset;
+      if (target < 0 || target >= prev.checkpoints.length) return prev;
+      const checkpoints = [...prev.checkpoints];
+      [checkpoints[index], checkpoints[target]] = [checkpoints[target], checkpoints[index]];
+      return { ...prev, checkpoints };
+    });
+  };
+
+  const addCheckpoint = () =>
+    setWorking(prev => prev ? { ...prev, checkpoints: [...prev.checkpoints, { id: newCheckpointId(), label: '', mandatory: true, helpText: '', spec: PASS_FAIL_SPEC, minEvidence: DEFAULT_MIN_EVIDENCE, aiInspect: false }] } : prev);
+
+  const removeCheckpoint = (id: string) =>
+    setWorking(prev => prev ? { ...prev, checkpoints: prev.checkpoints.filter(cp => cp.id !== id) } : prev);
+
+  const persistDraft = async (draft: ChecklistTemplate) => {
+    const before = templates.find(t => t.templateId === draft.templateId && t.version === draft.version) ?? null;
+    const saved = { ...draft, updatedAt: new Date().toISOString(), updatedBy: actor };
+    await repository.saveTemplateDraft(saved);
+    recordAudit(repository, {
+      actor, action: 'template.save', target: { type: 'template', id: draft.templateId }, before, after: saved,
+      context: { templateId: draft.templateId, templateVersion: draft.version }
+    });
+    return saved;
+  };
+
+  const handleSave = async () => {
+    if (!working) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      setWorking(await persistDraft(working));
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Draft could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!working) return;
+    if (working.checkpoints.length === 0 || working.checkpoints.some(cp => !cp.label.trim())) {
+      setError('Every checkpoint needs a label before publishing.');
+      return;
+    }
+    const specProblems = working.checkpoints.flatMap((cp, i) => validateSpec(cp.spec).map(problem => `Checkpoint ${i + 1} ${problem}.`));
+    if (specProblems.length > 0) {
+      setError(specProblems.join(' '));
+      return;
+    }
+    const stagesUsing = usedBy(working.templateId);
+    if (!confirm(`Publish ${working.name} v${working.version}?${stagesUsing ? ` New inspections on ${stagesUsing} will use this version.` : ''}`)) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      await persistDraft(working);
+      const published = await repository.publishTemplate(working.templateId, working.version, actor);
+      recordAudit(repository, {
+        actor, action: 'template.publish', target: { type: 'template', id: published.templateId }, after: published,
+        context: { templateId: published.templateId, templateVersion: published.version }
+      });
+      setWorking(null);
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Template could not be published.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!working) return;
+    const stored = templates.find(t => t.templateId === working.templateId && t.version === working.version);
+    if (stored) {
+      if (!confirm(`Discard draft v${working.version} of ${working.name}?`)) return;
+      try {
+        await repository.discardTemplateDraft(working.templateId, working.version);
+        recordAudit(repository, { actor, action: 'template.discard', target: { type: 'template', id: working.templateId }, before: stored });
+        await reload();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Draft could not be discarded.');
+        return;
+      }
+    }
+    setWorking(null);
+  };
+
+  if (working) {
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+        <button onClick={() => setWorking(null)} className="flex items-center text-blue-600 font-bold text-sm gap-1 hover:text-blue-800 transition-colors"><ArrowLeftIcon className="w-4 h-4" /> ALL TEMPLATES</button>
+
+        <div className="bg-white p-6 rounded-2xl shadow-md border border-gray-100 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-slate-900 font-black uppercase text-xs tracking-widest">Draft v{working.version}</h3>
+            <span className="text-[9px] font-black text-slate-400 uppercase">{working.templateId}</span>
+          </div>
+          <input value={working.name} onChange={e => updateWorking({ name: e.target.value })} placeholder="Template name" className="w-full p-4 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 font-bold text-black" />
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Used by: {usedBy(working.templateId) || 'no stage yet (assign it in the pipeline)'}</p>
+          <div>
+            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Inspectors may</p>
+            <div className="flex flex-wrap gap-2">
+              {CHANGE_OPTIONS.map(opt => (
+                <button
+                  key={opt.key}
+                  type="button"
+                  onClick={() => updateWorking({ inspectorChanges: { ...working.inspectorChanges, [opt.key]: !working.inspectorChanges[opt.key] } })}
+                  className={`px-3 py-2 rounded-xl border-2 font-black text-[10px] uppercase tracking-widest transition-all ${working.inspectorChanges[opt.key] ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-100 text-gray-400 hover:border-gray-300'}`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {working.checkpoints.map((cp, index) => (
+            <div key={cp.id} className="bg-white p-4 rounded-2xl border border-gray-200 shadow-sm flex gap-3">
+              <div className="flex flex-col gap-1">
+                <button onClick={() => moveCheckpoint(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-blue-600 disabled:opacity-20 font-black text-xs" title="Move up">▲</button>
+                <span className="text-[10px] font-black text-gray-300 text-center">{index + 1}</span>
+                <button onClick={() => moveCheckpoint(index, 1)} disabled={index === working.checkpoints.length - 1} className="text-gray-400 hover:text-blue-600 disabled:opacity-20 font-black text-xs" title="Move down">▼</button>
+              </div>
+              <div className="flex-1 space-y-2">
+                <input value={cp.label} onChange={e => updateCheckpoint(cp.id, { label: e.target.value })} placeholder="Checkpoint label" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-sm font-bold text-black" />
+                <select value={cp.spec.type} onChange={e => updateCheckpoint(cp.id, { spec: defaultSpec(e.target.value as CheckpointType) })} className="w-full p-2 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-xs font-bold text-black">
+                  {CHECKPOINT_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                </select>
+                <SpecFields spec={cp.spec} onChange={spec => updateCheckpoint(cp.id, { spec })} />
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Evidence at least</span>
+                  {EVIDENCE_KINDS.map(({ kind, plural }) => (
+                    <label key={kind} className="flex items-center gap-1 text-[10px] font-bold text-gray-500">
+                      <select value={cp.minEvidence[kind]} onChange={e => updateCheckpoint(cp.id, { minEvidence: { ...cp.minEvidence, [kind]: Number(e.target.value) } })} className="p-1.5 border-2 border-gray-100 rounded-lg outline-none focus:border-blue-500 text-xs font-bold text-black">
+                        {Array.from({ length: MAX_EVIDENCE_PER_KIND + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                      </select>
+                      {plural}
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-1 text-[10px] font-bold text-purple-600" title="Photos are sent to the AI assistant for an advisory verdict">
+                    <input type="checkbox" checked={cp.aiInspect} onChange={e => updateCheckpoint(cp.id, { aiInspect: e.target.checked })} />
+                    AI photo check
+                  </label>
+                </div>
+                <textarea value={cp.helpText} onChange={e => updateCheckpoint(cp.id, { helpText: e.target.value })} placeholder="Help text shown to inspectors (optional)" className="w-full p-3 border-2 border-gray-100 rounded-xl outline-none focus:border-blue-500 text-xs font-bold text-black h-16" />
+              </div>
+              <div className="flex flex-col items-end justify-between">
+                <button onClick={() => removeCheckpoint(cp.id)} className="text-gray-300 hover:text-red-500 transition-colors" title="Remove checkpoint"><TrashIcon className="w-4 h-4" /></button>
+                <button
+                  onClick={() => updateCheckpoint(cp.id, { mandatory: !cp.mandatory })}
+                  className={`px-2 py-1 rounded-lg font-black text-[9px] uppercase tracking-widest ${cp.mandatory ? 'bg-red-50 text-red-600 border border-red-100' : 'bg-gray-50 text-gray-400 border border-gray-100'}`}
+                >
+                  {cp.mandatory ? 'Mandatory' : 'Optional'}
+                </button>
+              </div>
+            </div>
+          ))}
+          <button onClick={addCheckpoint} className="w-full py-4 border-2 border-dashed border-gray-200 rounded-2xl flex items-center justify-center gap-2 text-gray-400 font-black text-[10px] uppercase hover:border-gray-400 hover:text-gray-500 transition-all"><PlusIcon className="w-4 h-4" /> Add Checkpoint</button>
+        </div>
+
+        {error && <p className="text-red-600 font-bold text-xs p-3 bg-red-50 rounded-xl border border-red-100">{error}</p>}
+
+        <div className="grid grid-cols-3 gap-3">
+          <button onClick={handleDiscard} disabled={isSaving} className="py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-slate-100 text-slate-600">Discard</button>
+          <button onClick={handleSave} disabled={isSaving} className="py-4 rounded-xl font-black text-xs uppercase tracking-widest bg-white border-2 border-slate-900 text-slate-900">Save Draft</button>
+          <button onClick={handlePublish} disabled={isSaving} className={`py-4 rounded-xl font-black text-xs uppercase tracking-widest text-white shadow-xl ${isSaving ? 'bg-gray-400' : 'bg-slate-900'}`}>{isSaving ? 'Saving...' : 'Publish'}</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div className="flex justify-between items-center bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div>
+          <h2 className="text-xl font-black text-gray-900 uppercase tracking-tighter">Checklist Templates</h2>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Edit a draft, then publish a new version</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={createTemplate} className="bg-blue-600 text-white px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest shadow-lg shadow-blue-100">New Template</button>
+          <button onClick={onClose} className="bg-slate-100 text-slate-600 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest">Back</button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {groups.map(versions => {
+          const latest = versions[versions.length - 1];
+          const published = versions.filter(v => v.status === 'published');
+          const current = published[published.length - 1];
+          return (
+            <div key={latest.templateId} className="bg-white p-5 rounded-2xl border border-gray-200 shadow-sm">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="text-sm font-black text-gray-900">{(current ?? latest).name}</p>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    {usedBy(latest.templateId) || 'Unassigned'} · {current ? `v${current.version} live · ${current.checkpoints.length} checkpoints` : 'never published'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {latest.status === 'draft' && <span className="text-[9px] font-black text-amber-600 bg-amber-50 border border-amber-100 px-2 py-1 rounded uppercase">Draft v{latest.version}</span>}
+                  <button onClick={() => openTemplate(versions)} className="bg-slate-900 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest">
+                    {latest.status === 'draft' ? 'Continue Draft' : 'Edit'}
+                  </button>
+                </div>
+              </div>
+              {published.length > 0 && (
+                <ul className="mt-3 border-t border-gray-100 pt-2 space-y-1">
+                  {[...published].reverse().map(v => (
+                    <li key={v.version} className="text-[10px] font-bold text-gray-500">
+                      v{v.version} · published {v.publishedAt ? new Date(v.publishedAt).toLocaleString() : ''} by {v.publishedBy}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
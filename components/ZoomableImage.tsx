@@ -0,0 +1,134 @@
+
+import React, { useState, useEffect } from 'react';
+import { Annotation, MediaRef, MediaVariant } from '../types';
+import { getMediaBlob } from '../services/mediaStore';
+import AnnotationOverlay from './AnnotationOverlay';
+import { XIcon, EditIcon } from './Icons';
+
+// Resolves a stored media item to an object URL and revokes it on cleanup.
+// A blob that is not in storage, or cannot be fetched, comes back missing
+// rather than loading forever.
+export const useMediaUrl = (mediaId: string | null, variant: MediaVariant) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    setUrl(null);
+    setMissing(false);
+    if (!mediaId) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    getMediaBlob(mediaId, variant)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error('Failed to load media:', err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [mediaId, variant]);
+
+  return { url, missing };
+};
+
+// Shown in place of a photo or clip the storage backend cannot return
+export const MissingMedia: React.FC<{ className?: string }> = ({ className = '' }) => (
+  <span className={`text-[9px] font-black text-slate-400 uppercase tracking-widest text-center ${className}`} title="This photo or clip could not be loaded from storage">
+    Media unavailable
+  </span>
+);
+
+// Shows the thumbnail straight away and only fetches the full-size blob
+// once the inspector zooms or taps the image. Markup and any overlay zoom
+// with the photo.
+const ZoomableImage: React.FC<{
+  media: MediaRef;
+  annotations?: Annotation[];
+  overlay?: React.ReactNode;
+  onRemove?: () => void;
+  onAnnotate?: () => void;
+}> = ({ media, annotations = [], overlay, onRemove, onAnnotate }) => {
+  const [scale, setScale] = useState(1);
+  const [wantFull, setWantFull] = useState(false);
+  const { url: thumbUrl, missing } = useMediaUrl(media.mediaId, 'thumb');
+  const { url: fullUrl } = useMediaUrl(wantFull ? media.mediaId : null, 'full');
+  const src = fullUrl || thumbUrl;
+
+  const handleZoomIn = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setWantFull(true);
+    setScale(prev => Math.min(prev + 0.25, 4));
+  };
+
+  const handleZoomOut = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setScale(prev => Math.max(prev - 0.25, 0.5));
+  };
+
+  return (
+    <div className="relative w-full h-full bg-slate-900 flex items-center justify-center overflow-hidden rounded-xl">
+      {src ? (
+        <div
+          onClick={() => setWantFull(true)}
+          style={{ transform: `scale(${scale})` }}
+          className="absolute inset-0 transition-transform duration-200 ease-out"
+        >
+          <img src={src} alt="Uploaded Preview" className="w-full h-full object-contain" />
+          <AnnotationOverlay annotations={annotations} width={media.width} height={media.height} />
+          {overlay}
+        </div>
+      ) : missing ? (
+        <MissingMedia />
+      ) : (
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest animate-pulse">Loading...</span>
+      )}
+      {!fullUrl && thumbUrl && (
+        <span className="absolute top-3 left-3 bg-black/60 text-white px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest z-10">Preview</span>
+      )}
+      <div className="absolute bottom-3 left-3 flex gap-2 z-10">
+        <button
+          onClick={handleZoomOut}
+          className="bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-lg border border-white/20 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-colors"
+        >
+          - Zoom
+        </button>
+        <button
+          onClick={handleZoomIn}
+          className="bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-lg border border-white/20 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-colors"
+        >
+          + Zoom
+        </button>
+      </div>
+      {onAnnotate && (
+        <button
+          onClick={(e) => { e.preventDefault(); onAnnotate(); }}
+          className="absolute bottom-3 right-3 bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-lg border border-white/20 text-[10px] font-black uppercase tracking-widest hover:bg-black transition-colors z-10 flex items-center gap-1"
+        >
+          <EditIcon className="w-3 h-3" /> Mark up{annotations.length > 0 && ` (${annotations.length})`}
+        </button>
+      )}
+      {onRemove && (
+        <button
+          onClick={(e) => { e.preventDefault(); onRemove(); }}
+          className="absolute top-3 right-3 bg-red-600/80 text-white p-2 rounded-full hover:bg-red-600 transition-colors z-10 shadow-lg"
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ZoomableImage;
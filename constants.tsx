@@ -1,24 +1,34 @@
 
 import React from 'react';
-import { CheckpointResult, User } from './types';
+import { User, Role, Permission, ChecklistTemplate, TemplateCheckpoint, StageDefinition, DefectCode, SerialFormat, EvidenceMinimum } from './types';
 
-export const FQC_CHECKPOINTS: Omit<CheckpointResult, 'status' | 'image' | 'reason'>[] = [
-  { id: 'fqc_01', label: 'Check for outer body – no scratches, cracks, dents (Top & Bottom Panel)' },
+type SeedCheckpoint = Pick<TemplateCheckpoint, 'id' | 'label'> & Partial<Pick<TemplateCheckpoint, 'spec' | 'minEvidence' | 'aiInspect'>>;
+
+// One photo per checkpoint, as every checkpoint needed before evidence lists
+export const DEFAULT_MIN_EVIDENCE: EvidenceMinimum = { photo: 1, video: 0, audio: 0 };
+
+// Longest video or audio clip an inspector can record
+export const MAX_CLIP_MS = 30 * 1000;
+
+// Checklists seeded as version 1 of the standard templates on an empty
+// database. After that, checklists are edited in the template editor.
+const FQC_CHECKPOINTS: SeedCheckpoint[] = [
+  { id: 'fqc_01', label: 'Check for outer body – no scratches, cracks, dents (Top & Bottom Panel)', minEvidence: { photo: 2, video: 0, audio: 0 }, aiInspect: true },
   { id: 'fqc_02', label: 'Check for all 7 screws properly mounted' },
   { id: 'fqc_03', label: 'Check for keypad – all buttons present as per layout, symbols clear and legible' },
-  { id: 'fqc_04', label: 'Check display segment placement with Tohands logo and protective film attached; no dent, scratches, or gap between display and top cover' },
+  { id: 'fqc_04', label: 'Check display segment placement with Tohands logo and protective film attached; no dent, scratches, or gap between display and top cover', aiInspect: true },
   { id: 'fqc_05', label: 'Check for laser marking: Smart Calculator V5 Powered by AI' },
   { id: 'fqc_06', label: 'Check both C-Type USB pin connectors – Charging (Right side) & Printer (Left side)' },
-  { id: 'fqc_07', label: 'Verify LED light working during Power ON and charger connectivity' },
+  { id: 'fqc_07', label: 'Verify LED light working during Power ON and charger connectivity', minEvidence: { photo: 0, video: 1, audio: 0 } },
   { id: 'fqc_08', label: 'Display turns ON properly – no missing segments / black spots, proper brightness and contrast' },
-  { id: 'fqc_09', label: 'Check Device ID verification with respect to System Info and Device Label' },
-  { id: 'fqc_10', label: 'Observe speaker sound and voice quality' },
+  { id: 'fqc_09', label: 'Check Device ID verification with respect to System Info and Device Label', spec: { type: 'id_match', references: ['System Info', 'Device label'] } },
+  { id: 'fqc_10', label: 'Observe speaker sound and voice quality', minEvidence: { photo: 0, video: 0, audio: 1 } },
   { id: 'fqc_11', label: 'Check battery cover properly fixed and sticker position as per standard' },
   { id: 'fqc_12', label: 'Check label content clearly printed' },
 ];
 
-export const PACKAGING_CHECKPOINTS: Omit<CheckpointResult, 'status' | 'image' | 'reason'>[] = [
-  { id: 'pkg_01', label: 'Verify that the Device ID matches exactly across all three references: Internal Device ID (Calculator), Device ID on the bottom panel of the device, Device ID on the outer box label' },
+const PACKAGING_CHECKPOINTS: SeedCheckpoint[] = [
+  { id: 'pkg_01', label: 'Verify that the Device ID matches exactly across all three references: Internal Device ID (Calculator), Device ID on the bottom panel of the device, Device ID on the outer box label', spec: { type: 'id_match', references: ['Calculator (internal)', 'Bottom panel label', 'Box label'] } },
   { id: 'pkg_02', label: 'Ensure the protective case is properly attached to the device' },
   { id: 'pkg_03', label: 'Verify the device is correctly placed inside the white device sleeve with logo, and ensure proper logo alignment' },
   { id: 'pkg_04', label: 'Confirm Packing Box Insert – 1 is present inside the packaging box' },
@@ -30,10 +40,148 @@ export const PACKAGING_CHECKPOINTS: Omit<CheckpointResult, 'status' | 'image' |
   { id: 'pkg_10', label: 'Verify the packed box weight falls within the approved acceptable range' },
 ];
 
-export const INITIAL_ADMIN_USER: User = {
+export const DEFAULT_TEMPLATE_IDS = { FQC: 'fqc-standard', Packaging: 'packaging-standard' } as const;
+
+const seedTemplate = (templateId: string, name: string, checkpoints: SeedCheckpoint[]): ChecklistTemplate => ({
+  templateId,
+  version: 1,
+  name,
+  status: 'published',
+  checkpoints: checkpoints.map(cp => ({ mandatory: true, helpText: '', spec: { type: 'pass_fail' }, minEvidence: DEFAULT_MIN_EVIDENCE, aiInspect: false, ...cp })),
+  inspectorChanges: { addCheckpoints: false, renameCheckpoints: false, removeOptional: false },
+  updatedAt: new Date(0).toISOString(),
+  updatedBy: 'system',
+  publishedAt: new Date(0).toISOString(),
+  publishedBy: 'system'
+});
+
+export const DEFAULT_TEMPLATES: ChecklistTemplate[] = [
+  seedTemplate(DEFAULT_TEMPLATE_IDS.FQC, 'FQC Standard', FQC_CHECKPOINTS),
+  seedTemplate(DEFAULT_TEMPLATE_IDS.Packaging, 'Packaging Standard', PACKAGING_CHECKPOINTS)
+];
+
+// The original two-step line, seeded on an empty database. Further stages
+// (incoming QC, burn-in, outgoing audit...) are added in the pipeline editor.
+export const DEFAULT_STAGES: StageDefinition[] = [
+  {
+    stageId: 'FQC',
+    label: 'FQC Inspection',
+    description: 'Final quality check of the assembled device',
+    order: 1,
+    prerequisites: [],
+    optional: false,
+    skippable: false,
+    reinspectFailedOnly: false,
+    repeatPolicy: 'warn',
+    symbologies: ['qr', 'code128'],
+    templateId: DEFAULT_TEMPLATE_IDS.FQC,
+    enabled: true
+  },
+  {
+    stageId: 'Packaging',
+    label: 'Packaging & QC',
+    description: 'Packing and box verification',
+    order: 2,
+    prerequisites: ['FQC'],
+    optional: false,
+    skippable: false,
+    reinspectFailedOnly: false,
+    repeatPolicy: 'warn',
+    symbologies: ['qr', 'code128'],
+    templateId: DEFAULT_TEMPLATE_IDS.Packaging,
+    enabled: true
+  }
+];
+
+// Starter defect catalog for the standard checkpoints, seeded when the
+// catalog is empty. Quality engineers extend it in the defect catalog editor.
+const seedDefect = (code: string, description: string, category: DefectCode['category'], severity: DefectCode['severity'], checkpointIds: string[]): DefectCode => ({
+  code, description, category, severity, checkpointIds, active: true, updatedAt: new Date(0).toISOString(), updatedBy: 'system'
+});
+
+export const DEFAULT_DEFECT_CODES: DefectCode[] = [
+  seedDefect('COS-01', 'Scratch or scuff on housing', 'cosmetic', 'minor', ['fqc_01', 'fqc_04']),
+  seedDefect('COS-02', 'Dent or deformation', 'cosmetic', 'major', ['fqc_01', 'fqc_04']),
+  seedDefect('COS-03', 'Crack in housing or display window', 'cosmetic', 'critical', ['fqc_01', 'fqc_04']),
+  seedDefect('COS-04', 'Gap or misalignment between parts', 'cosmetic', 'minor', ['fqc_04', 'fqc_11']),
+  seedDefect('FUN-01', 'Screw missing or loose', 'functional', 'major', ['fqc_02']),
+  seedDefect('FUN-02', 'Key missing, stuck or unresponsive', 'functional', 'major', ['fqc_03']),
+  seedDefect('FUN-03', 'Missing display segments or black spots', 'functional', 'major', ['fqc_08']),
+  seedDefect('FUN-04', 'Display does not turn on', 'functional', 'critical', ['fqc_08']),
+  seedDefect('FUN-05', 'USB-C connector damaged or not working', 'functional', 'major', ['fqc_06']),
+  seedDefect('FUN-06', 'LED not lit on power-on or charging', 'functional', 'major', ['fqc_07']),
+  seedDefect('FUN-07', 'No sound or distorted speaker', 'functional', 'major', ['fqc_10']),
+  seedDefect('LAB-01', 'Laser marking wrong or illegible', 'labelling', 'minor', ['fqc_05']),
+  seedDefect('LAB-02', 'Label misprinted or illegible', 'labelling', 'minor', ['fqc_11', 'fqc_12']),
+  seedDefect('LAB-03', 'Device ID mismatch between references', 'labelling', 'critical', ['fqc_09', 'pkg_01']),
+  seedDefect('PKG-01', 'Protective case or sleeve missing or misplaced', 'packaging', 'minor', ['pkg_02', 'pkg_03']),
+  seedDefect('PKG-02', 'Accessory or document missing from box', 'packaging', 'major', ['pkg_04', 'pkg_05', 'pkg_06']),
+  seedDefect('PKG-03', 'Seal, sleeve or wrap missing or damaged', 'packaging', 'minor', ['pkg_07', 'pkg_08', 'pkg_09']),
+  seedDefect('PKG-04', 'Packed weight out of range', 'packaging', 'major', ['pkg_10'])
+];
+
+// Devices must have completed this stage before they can be packed into a
+// master carton
+export const PACKING_STAGE_ID = 'Packaging';
+
+export const DEFAULT_CARTON_CAPACITY = 20;
+
+// Seeded inactive so existing device IDs keep working until a quality
+// engineer confirms the line's serial scheme and activates it
+export const DEFAULT_SERIAL_FORMATS: SerialFormat[] = [
+  {
+    formatId: 'flex-serial',
+    label: 'Flex serial',
+    pattern: 'FLEX-[0-9A-Z]{4,}',
+    checkDigit: 'none',
+    example: 'FLEX-0001',
+    active: false,
+    updatedAt: new Date(0).toISOString(),
+    updatedBy: 'system'
+  }
+];
+
+// Seeded on an empty database; the password is hashed on write and must be
+// changed at first login.
+export const INITIAL_ADMIN_USER: Omit<User, 'passwordHash'> = {
   userId: 'admin',
-  password: '123',
-  isAdmin: true,
+  role: 'admin',
   isActive: true,
-  assignedStage: 'FQC'
+  allowedStages: ['FQC', 'Packaging'],
+  mustChangePassword: true,
+  failedAttempts: 0,
+  lockedUntil: null
+};
+
+export const INITIAL_ADMIN_PASSWORD = '123';
+
+export const ROLES: Role[] = ['inspector', 'technician', 'supervisor', 'quality_engineer', 'auditor', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  inspector: 'Inspector',
+  technician: 'Rework Technician',
+  supervisor: 'Line Supervisor',
+  quality_engineer: 'Quality Engineer',
+  auditor: 'Auditor',
+  admin: 'Admin'
+};
+
+// Permission matrix: what each role is allowed to do
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  inspector: ['inspect'],
+  technician: ['record_repairs'],
+  supervisor: ['inspect', 'view_dashboard', 'export_reports', 'record_repairs', 'manage_lots', 'trace_shipments'],
+  quality_engineer: ['inspect', 'view_dashboard', 'export_reports', 'edit_checkpoints', 'manage_templates', 'record_repairs', 'manage_defects', 'manage_lots', 'trace_shipments'],
+  auditor: ['view_dashboard', 'export_reports', 'view_audit'],
+  admin: ['inspect', 'view_dashboard', 'export_reports', 'edit_checkpoints', 'manage_templates', 'manage_users', 'view_audit', 'record_repairs', 'manage_defects', 'manage_lots', 'trace_shipments']
 };
+
+// Login and session policy
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+export const SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Checklist drafts not touched for this long are discarded with their photos,
+// unless QC_DRAFT_EXPIRY_HOURS sets another period (see storage.ts)
+export const DRAFT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 6;
@@ -0,0 +1,121 @@
+
+// Mock AI proxy for exercising the assistant (services/aiAssistant.ts) without
+// a provider key. Answers deterministically and can inject latency and
+// failures to try the timeout and the offline fallback. Photo verdicts follow
+// AI_VERDICT (Pass or Fail), or otherwise a hash of the photo, so the same
+// photo always gets the same answer.
+//
+//   npm run ai-mock                          -> http://localhost:4200/ai
+//   AI_FAIL_RATE=0.5 AI_LATENCY_MS=9000 npm run ai-mock
+//   AI_VERDICT=Fail npm run ai-mock
+//
+// Set QC_AI_URL=http://localhost:4200/ai in .env.local to point the app at it.
+//
+//   POST /ai/failure-reason   body: { checkpointLabel, stage }                    -> 200 { reason }
+//   POST /ai/inspect-photo    body: { checkpointLabel, stage, mimeType, image }   -> 200 { verdict, confidence, region, finding }
+//   GET  /ai/requests                                                            -> requests received (without images)
+//   POST /ai/reset                                                               -> clears them
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 4200);
+const FAIL_RATE = Number(process.env.AI_FAIL_RATE || 0);
+const LATENCY_MS = Number(process.env.AI_LATENCY_MS || 0);
+const VERDICT = process.env.AI_VERDICT || '';
+
+let requests = [];
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : null);
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hash = (text) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i += 97) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+const mockVerdict = ({ checkpointLabel, image }) => {
+  const h = hash(image);
+  const verdict = VERDICT === 'Pass' || VERDICT === 'Fail' ? VERDICT : h % 3 === 0 ? 'Fail' : 'Pass';
+  return {
+    verdict,
+    confidence: 0.55 + (h % 40) / 100,
+    region: verdict === 'Fail' ? { x: (h % 50) / 100, y: ((h >> 8) % 50) / 100, width: 0.25, height: 0.2 } : null,
+    finding: verdict === 'Fail' ? `Mock defect found for "${checkpointLabel}".` : `Mock: nothing wrong seen for "${checkpointLabel}".`
+  };
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  try {
+    if (req.method === 'GET' && pathname === '/ai/requests') return send(res, 200, requests);
+
+    if (req.method === 'POST' && pathname === '/ai/reset') {
+      requests = [];
+      return send(res, 200, { ok: true });
+    }
+
+    if (req.method === 'POST' && pathname === '/ai/failure-reason') {
+      const body = await readBody(req);
+      if (!body?.checkpointLabel || !body?.stage) return send(res, 422, { error: 'checkpointLabel and stage are required' });
+      requests.push({ ...body, receivedAt: new Date().toISOString() });
+      if (LATENCY_MS) await delay(LATENCY_MS);
+      if (Math.random() < FAIL_RATE) {
+        console.log(`failure-reason "${body.checkpointLabel}" -> 503 (injected)`);
+        return send(res, 503, { error: 'Injected failure' });
+      }
+      console.log(`failure-reason "${body.checkpointLabel}" (${body.stage})`);
+      return send(res, 200, { reason: `Mock reason for "${body.checkpointLabel}" at ${body.stage}.` });
+    }
+
+    if (req.method === 'POST' && pathname === '/ai/inspect-photo') {
+      const body = await readBody(req);
+      if (!body?.checkpointLabel || !body?.stage || typeof body?.image !== 'string' || !body.image) {
+        return send(res, 422, { error: 'checkpointLabel, stage and image are required' });
+      }
+      const { image, ...logged } = body;
+      requests.push({ ...logged, imageLength: image.length, receivedAt: new Date().toISOString() });
+      if (LATENCY_MS) await delay(LATENCY_MS);
+      if (Math.random() < FAIL_RATE) {
+        console.log(`inspect-photo "${body.checkpointLabel}" -> 503 (injected)`);
+        return send(res, 503, { error: 'Injected failure' });
+      }
+      const verdict = mockVerdict(body);
+      console.log(`inspect-photo "${body.checkpointLabel}" -> ${verdict.verdict} ${verdict.confidence}`);
+      return send(res, 200, verdict);
+    }
+
+    return send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    console.error('Request failed:', err);
+    return send(res, 400, { error: 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Flex QC AI mock listening on http://localhost:${PORT}/ai (fail rate ${FAIL_RATE}, latency ${LATENCY_MS}ms)`);
+});
@@ -0,0 +1,139 @@
+
+// AI proxy for the assistant (services/aiProxyProvider.ts). Holds the Gemini
+// key on the server so it is never bundled into the app on the tablets.
+//
+//   GEMINI_API_KEY=... npm run ai-proxy          -> http://localhost:4200/ai
+//   PORT=5200 AI_TIMEOUT_MS=10000 GEMINI_API_KEY=... npm run ai-proxy
+//
+// Set QC_AI_URL=http://localhost:4200/ai in .env.local to point the app at it.
+//
+//   POST /ai/failure-reason   body: { checkpointLabel, stage }                    -> 200 { reason }
+//   POST /ai/inspect-photo    body: { checkpointLabel, stage, mimeType, image }   -> 200 { verdict, confidence, region, finding }
+//                             (image is base64)
+
+import http from 'node:http';
+import { GoogleGenAI, Type } from '@google/genai';
+
+const PORT = Number(process.env.PORT || 4200);
+const TIMEOUT_MS = Number(process.env.AI_TIMEOUT_MS || 15000);
+const MODEL = process.env.AI_MODEL || 'gemini-3-flash-preview';
+const MAX_FIELD_LENGTH = 500;
+
+if (!process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+// Same prompts as services/geminiService.ts
+const failureReasonPrompt = (checkpointLabel, stage) =>
+  `The following factory QC checkpoint failed during the ${stage} stage: "${checkpointLabel}". Provide a concise, professional, 1-sentence reason why this might have failed for a quality report.`;
+
+const photoInspectionPrompt = (checkpointLabel, stage) =>
+  `This photo was taken for the factory QC checkpoint "${checkpointLabel}" during the ${stage} stage. Judge whether the device passes this checkpoint. Give the verdict Pass or Fail, your confidence from 0 to 1, a 1-sentence finding, and for a suspected defect its region as x, y, width and height fractions of the image from the top left (null if there is none).`;
+
+const PHOTO_VERDICT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: ['Pass', 'Fail'] },
+    confidence: { type: Type.NUMBER },
+    finding: { type: Type.STRING },
+    region: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: {
+        x: { type: Type.NUMBER },
+        y: { type: Type.NUMBER },
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER }
+      },
+      required: ['x', 'y', 'width', 'height']
+    }
+  },
+  required: ['verdict', 'confidence', 'finding']
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : null);
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+const isField = (value) => typeof value === 'string' && value.trim() !== '' && value.length <= MAX_FIELD_LENGTH;
+
+const generateJson = async (contents, responseSchema) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents,
+      config: { abortSignal: controller.signal, responseMimeType: 'application/json', responseSchema }
+    });
+    return JSON.parse(response.text || '{}');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const suggestFailureReason = async ({ checkpointLabel, stage }) =>
+  (await generateJson(failureReasonPrompt(checkpointLabel, stage), {
+    type: Type.OBJECT,
+    properties: { reason: { type: Type.STRING } },
+    required: ['reason']
+  })).reason;
+
+// The app checks the verdict before showing it
+const inspectPhoto = ({ checkpointLabel, stage, mimeType, image }) =>
+  generateJson([
+    { inlineData: { mimeType: mimeType || 'image/jpeg', data: image } },
+    { text: photoInspectionPrompt(checkpointLabel, stage) }
+  ], PHOTO_VERDICT_SCHEMA);
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  try {
+    if (req.method === 'POST' && pathname === '/ai/failure-reason') {
+      const body = await readBody(req);
+      if (!isField(body?.checkpointLabel) || !isField(body?.stage)) return send(res, 422, { error: 'checkpointLabel and stage are required' });
+      const reason = await suggestFailureReason(body);
+      if (typeof reason !== 'string' || !reason.trim()) return send(res, 502, { error: 'Provider returned no reason' });
+      return send(res, 200, { reason: reason.trim() });
+    }
+    if (req.method === 'POST' && pathname === '/ai/inspect-photo') {
+      const body = await readBody(req);
+      if (!isField(body?.checkpointLabel) || !isField(body?.stage) || typeof body?.image !== 'string' || !body.image) {
+        return send(res, 422, { error: 'checkpointLabel, stage and image are required' });
+      }
+      return send(res, 200, await inspectPhoto(body));
+    }
+    return send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    console.error('Request failed:', err);
+    return send(res, err instanceof SyntaxError ? 400 : 502, { error: err instanceof SyntaxError ? 'Bad request' : 'Provider unavailable' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Flex QC AI proxy listening on http://localhost:${PORT}/ai (model ${MODEL}, timeout ${TIMEOUT_MS}ms)`);
+});
@@ -0,0 +1,189 @@
+
+// Reference storage server for the HTTP adapter (services/httpAdapter.ts).
+// Stores every collection in a single JSON file so several tablets can share
+// users, reports and device statuses on a local network.
+//
+//   npm run server                 -> http://localhost:4000/api
+//   PORT=5000 QC_DATA_FILE=./qc.json npm run server
+//
+//   GET    /api/:collection              -> every record (?withKeys=1 for { key, value } rows,
+//                                           ?last=1 for the row with the highest key)
+//   GET    /api/:collection/:key         -> one record
+//   PUT    /api/:collection/:key         -> create or replace
+//   POST   /api/:collection/:key         -> create only; 409 when the key exists
+//   DELETE /api/:collection/:key
+//
+//   PUT    /api/media/:variant/:mediaId  -> store a photo or clip body (variant full or thumb)
+//   GET    /api/media/:variant/:mediaId  -> the stored body with its content type
+//   DELETE /api/media/:mediaId           -> both variants
+//
+// The audit trail is append-only: it takes POST but refuses PUT and DELETE.
+// Media bodies are files under QC_MEDIA_DIR (default ./qc-media), not part of the JSON file.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT || 4000);
+const DATA_FILE = path.resolve(process.env.QC_DATA_FILE || 'qc-data.json');
+const API_PREFIX = '/api/';
+const APPEND_ONLY = new Set(['audit']);
+const MEDIA_DIR = path.resolve(process.env.QC_MEDIA_DIR || 'qc-media');
+const MEDIA_PREFIX = `${API_PREFIX}media/`;
+const MEDIA_VARIANTS = new Set(['full', 'thumb']);
+const MAX_MEDIA_BYTES = 100 * 1024 * 1024;
+const SAFE_NAME = /^[A-Za-z0-9_-]+$/;
+
+const loadData = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch {
+    return {};
+  }
+};
+
+let data = loadData();
+
+const persist = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : null);
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+const readRaw = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_MEDIA_BYTES) {
+      reject(new Error('Media body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// Each body is stored as <variant>/<mediaId> with its content type alongside in <mediaId>.type
+const mediaFile = (variant, mediaId) => path.join(MEDIA_DIR, variant, mediaId);
+
+const handleMedia = async (req, res, parts) => {
+  if (req.method === 'DELETE' && parts.length === 1 && SAFE_NAME.test(parts[0])) {
+    for (const variant of MEDIA_VARIANTS) {
+      fs.rmSync(mediaFile(variant, parts[0]), { force: true });
+      fs.rmSync(`${mediaFile(variant, parts[0])}.type`, { force: true });
+    }
+    return send(res, 204);
+  }
+  const [variant, mediaId] = parts;
+  if (parts.length !== 2 || !MEDIA_VARIANTS.has(variant) || !SAFE_NAME.test(mediaId)) {
+    return send(res, 400, { error: 'Invalid media path' });
+  }
+  const file = mediaFile(variant, mediaId);
+  if (req.method === 'GET') {
+    if (!fs.existsSync(file)) return send(res, 404, { error: 'Not found' });
+    const type = fs.existsSync(`${file}.type`) ? fs.readFileSync(`${file}.type`, 'utf8') : 'application/octet-stream';
+    res.writeHead(200, { 'Content-Type': type, 'Access-Control-Allow-Origin': '*' });
+    return res.end(fs.readFileSync(file));
+  }
+  if (req.method === 'PUT') {
+    const body = await readRaw(req);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, body);
+    fs.renameSync(`${file}.tmp`, file);
+    fs.writeFileSync(`${file}.type`, req.headers['content-type'] || 'application/octet-stream');
+    return send(res, 204);
+  }
+  return send(res, 405, { error: 'Method not allowed' });
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const { pathname, searchParams } = new URL(req.url, `http://${req.headers.host}`);
+  if (!pathname.startsWith(API_PREFIX)) return send(res, 404, { error: 'Not found' });
+  if (pathname.startsWith(MEDIA_PREFIX)) {
+    try {
+      return await handleMedia(req, res, pathname.slice(MEDIA_PREFIX.length).split('/').map(decodeURIComponent));
+    } catch (err) {
+      console.error('Media request failed:', err);
+      return send(res, 400, { error: 'Bad request' });
+    }
+  }
+
+  const [collection, rawKey] = pathname.slice(API_PREFIX.length).split('/');
+  if (!collection || !SAFE_NAME.test(collection)) return send(res, 400, { error: 'Invalid collection' });
+  const key = rawKey ? decodeURIComponent(rawKey) : undefined;
+  const records = data[collection] || {};
+
+  try {
+    if (req.method === 'GET' && key === undefined && searchParams.has('last')) {
+      const last = Object.keys(records).sort().pop();
+      return last === undefined ? send(res, 404, { error: 'Not found' }) : send(res, 200, { key: last, value: records[last] });
+    }
+    if (req.method === 'GET' && key === undefined) {
+      return searchParams.has('withKeys')
+        ? send(res, 200, Object.entries(records).map(([k, value]) => ({ key: k, value })))
+        : send(res, 200, Object.values(records));
+    }
+    if (req.method === 'GET') {
+      return key in records ? send(res, 200, records[key]) : send(res, 404, { error: 'Not found' });
+    }
+    if ((req.method === 'PUT' || req.method === 'DELETE') && APPEND_ONLY.has(collection)) {
+      return send(res, 405, { error: `${collection} is append-only` });
+    }
+    // Checked and written without awaiting in between, so concurrent creates cannot both succeed
+    if (req.method === 'POST' && key !== undefined) {
+      const body = await readBody(req);
+      const current = data[collection] || {};
+      if (key in current) return send(res, 409, { error: 'Already exists' });
+      data[collection] = { ...current, [key]: body };
+      persist();
+      return send(res, 201);
+    }
+    if (req.method === 'PUT' && key !== undefined) {
+      data[collection] = { ...records, [key]: await readBody(req) };
+      persist();
+      return send(res, 204);
+    }
+    if (req.method === 'DELETE' && key !== undefined) {
+      delete records[key];
+      data[collection] = records;
+      persist();
+      return send(res, 204);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (err) {
+    console.error('Request failed:', err);
+    return send(res, 400, { error: 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Flex QC storage server listening on http://localhost:${PORT}/api (data: ${DATA_FILE}, media: ${MEDIA_DIR})`);
+});
@@ -0,0 +1,125 @@
+
+// Stub sync endpoint for exercising the outbox (services/syncQueue.ts) locally.
+// Keeps everything in memory and can inject latency and failures.
+//
+//   npm run sync-stub                          -> http://localhost:4100/sync
+//   SYNC_FAIL_RATE=0.5 SYNC_LATENCY_MS=800 npm run sync-stub
+//
+// Set QC_SYNC_URL=http://localhost:4100/sync in .env.local to point the app at it.
+//
+//   POST /sync/reports          body: QCReport            -> 200 { ok: true }
+//   POST /sync/device-status    body: DeviceStatusChange  -> 200 merged DeviceStatus
+//   GET  /sync/reports | /sync/device-status              -> stored records
+//   POST /sync/reset                                      -> clears all state
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 4100);
+const FAIL_RATE = Number(process.env.SYNC_FAIL_RATE || 0);
+const LATENCY_MS = Number(process.env.SYNC_LATENCY_MS || 0);
+
+let reports = {};
+let statuses = {};
+
+// Same deterministic rule as mergeDeviceStatus in services/syncQueue.ts:
+// per stage, the later updatedAt wins and stationId breaks ties.
+const compareVersions = (a, b) => {
+  if (!a && !b) return 0;
+  if (!a) return -1;
+  if (!b) return 1;
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? -1 : 1;
+  if (a.stationId !== b.stationId) return a.stationId < b.stationId ? -1 : 1;
+  return 0;
+};
+
+const applyChange = (current, change) => {
+  const base = current || {
+    deviceId: change.deviceId,
+    stages: {},
+    lastUpdated: change.updatedAt,
+    versions: {}
+  };
+  const version = { updatedAt: change.updatedAt, stationId: change.stationId };
+  if (compareVersions(base.versions?.[change.stage], version) >= 0) return base;
+
+  return {
+    ...base,
+    stages: { ...base.stages, [change.stage]: change.status },
+    lastUpdated: base.lastUpdated > change.updatedAt ? base.lastUpdated : change.updatedAt,
+    versions: { ...base.versions, [change.stage]: version }
+  };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Station-Id'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : null);
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const station = req.headers['x-station-id'] || 'unknown';
+
+  if (LATENCY_MS) await delay(LATENCY_MS);
+  if (req.method === 'POST' && pathname !== '/sync/reset' && Math.random() < FAIL_RATE) {
+    console.log(`[${station}] ${pathname} -> 503 (injected)`);
+    return send(res, 503, { error: 'Injected failure' });
+  }
+
+  try {
+    if (req.method === 'GET' && pathname === '/sync/reports') return send(res, 200, Object.values(reports));
+    if (req.method === 'GET' && pathname === '/sync/device-status') return send(res, 200, Object.values(statuses));
+
+    if (req.method === 'POST' && pathname === '/sync/reset') {
+      reports = {};
+      statuses = {};
+      return send(res, 200, { ok: true });
+    }
+
+    if (req.method === 'POST' && pathname === '/sync/reports') {
+      const report = await readBody(req);
+      if (!report?.id) return send(res, 422, { error: 'Report id missing' });
+      // Idempotent: a retried report simply overwrites itself
+      reports[report.id] = report;
+      console.log(`[${station}] report ${report.id} (${report.deviceId}, ${report.stage})`);
+      return send(res, 200, { ok: true });
+    }
+
+    if (req.method === 'POST' && pathname === '/sync/device-status') {
+      const change = await readBody(req);
+      if (!change?.deviceId || !change?.stage || !change?.updatedAt) return send(res, 422, { error: 'Invalid status change' });
+      statuses[change.deviceId] = applyChange(statuses[change.deviceId], change);
+      console.log(`[${station}] ${change.deviceId} ${change.stage}=${change.status} -> ${JSON.stringify(statuses[change.deviceId])}`);
+      return send(res, 200, statuses[change.deviceId]);
+    }
+
+    return send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    console.error('Request failed:', err);
+    return send(res, 400, { error: 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Flex QC sync stub listening on http://localhost:${PORT}/sync (fail rate ${FAIL_RATE}, latency ${LATENCY_MS}ms)`);
+});
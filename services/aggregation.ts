@@ -0,0 +1,90 @@
+
+import { Carton, Pallet, DeviceStatus, QCReport, StageDefinition, StageId } from '../types';
+import { PACKING_STAGE_ID } from '../constants.tsx';
+import { getStageStatus } from './pipeline';
+import { reportResult } from './rework';
+
+// Rules for packing devices into cartons and cartons onto pallets, and the
+// shipping manifest built from them
+
+export type AggregationCheck = { ok: true } | { ok: false; reason: string };
+
+export const findCartonFor = (cartons: Carton[], serial: string) =>
+  cartons.find(c => c.serials.includes(serial)) ?? null;
+
+export const checkPack = (carton: Carton, deviceId: string, status: DeviceStatus | null, cartons: Carton[]): AggregationCheck => {
+  if (carton.status !== 'open') return { ok: false, reason: `Carton ${carton.cartonId} is sealed.` };
+  if (carton.serials.length >= carton.capacity) return { ok: false, reason: `Carton ${carton.cartonId} is full (${carton.capacity}).` };
+  const packed = findCartonFor(cartons, deviceId);
+  if (packed) return { ok: false, reason: `${deviceId} is already packed in carton ${packed.cartonId}.` };
+  const packing = getStageStatus(status, PACKING_STAGE_ID);
+  if (packing !== 'completed') return { ok: false, reason: `${deviceId} has not completed ${PACKING_STAGE_ID} (status: ${packing}).` };
+  return { ok: true };
+};
+
+export const checkLoad = (pallet: Pallet, carton: Carton): AggregationCheck => {
+  if (pallet.status !== 'open') return { ok: false, reason: `Pallet ${pallet.palletId} is closed.` };
+  if (carton.status !== 'sealed') return { ok: false, reason: `Seal carton ${carton.cartonId} before loading it.` };
+  if (carton.palletId) return { ok: false, reason: `Carton ${carton.cartonId} is already on pallet ${carton.palletId}.` };
+  if (carton.serials.length === 0) return { ok: false, reason: `Carton ${carton.cartonId} is empty.` };
+  return { ok: true };
+};
+
+export const checkUnpack = (carton: Carton, deviceId: string): AggregationCheck => {
+  if (carton.status !== 'open') return { ok: false, reason: `Carton ${carton.cartonId} is sealed.` };
+  if (!carton.serials.includes(deviceId)) return { ok: false, reason: `${deviceId} is not in carton ${carton.cartonId}.` };
+  return { ok: true };
+};
+
+export const checkSeal = (carton: Carton): AggregationCheck => {
+  if (carton.status !== 'open') return { ok: false, reason: `Carton ${carton.cartonId} is already sealed.` };
+  if (carton.serials.length === 0) return { ok: false, reason: 'An empty carton cannot be sealed.' };
+  return { ok: true };
+};
+
+export const checkUnload = (pallet: Pallet, cartonId: string): AggregationCheck => {
+  if (pallet.status !== 'open') return { ok: false, reason: `Pallet ${pallet.palletId} is closed.` };
+  if (!pallet.cartonIds.includes(cartonId)) return { ok: false, reason: `Carton ${cartonId} is not on pallet ${pallet.palletId}.` };
+  return { ok: true };
+};
+
+export const checkClose = (pallet: Pallet): AggregationCheck => {
+  if (pallet.status !== 'open') return { ok: false, reason: `Pallet ${pallet.palletId} is already closed.` };
+  if (pallet.cartonIds.length === 0) return { ok: false, reason: 'An empty pallet cannot be closed.' };
+  return { ok: true };
+};
+
+export interface ManifestRow {
+  palletId: string;
+  cartonId: string;
+  serial: string;
+  // Latest passing report at each stage, by stage ID
+  reports: Record<StageId, string | null>;
+}
+
+// One row per serial on the pallet, in carton and packing order
+export const buildManifest = (pallet: Pallet, cartons: Carton[], reports: QCReport[], stages: StageDefinition[]): ManifestRow[] =>
+  pallet.cartonIds.flatMap(cartonId => {
+    const carton = cartons.find(c => c.cartonId === cartonId);
+    return (carton?.serials ?? []).map(serial => {
+      const passed = reports.filter(r => r.deviceId === serial && reportResult(r) === 'passed');
+      const byStage: Record<StageId, string | null> = {};
+      for (const stage of stages) {
+        const latest = passed.filter(r => r.stage === stage.stageId).pop();
+        byStage[stage.stageId] = latest?.id ?? null;
+      }
+      return { palletId: pallet.palletId, cartonId, serial, reports: byStage };
+    });
+  });
+
+export const manifestToJson = (pallet: Pallet, rows: ManifestRow[]) => JSON.stringify({
+  palletId: pallet.palletId,
+  status: pallet.status,
+  closedAt: pallet.closedAt,
+  generatedAt: new Date().toISOString(),
+  units: rows.length,
+  cartons: pallet.cartonIds.map(cartonId => ({
+    cartonId,
+    serials: rows.filter(r => r.cartonId === cartonId).map(r => ({ serial: r.serial, reports: r.reports }))
+  }))
+}, null, 2);
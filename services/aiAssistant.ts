@@ -0,0 +1,117 @@
+
+import { AIPhotoInspection, AIProvider, AISuggestion, FailureReasonRequest, ImageRegion, PhotoInspectionRequest, PhotoVerdict } from '../types';
+import { createProxyProvider } from './aiProxyProvider';
+import { createGeminiProvider } from './geminiService';
+import { ruleSuggester } from './ruleSuggester';
+
+// The AI assistant behind "AI Assist" and the photo pre-inspection. Asks the
+// configured provider with a time limit, remembers its failure reasons for
+// each checkpoint label, and falls back to the offline rules when the
+// provider fails or is too slow.
+
+const TIMEOUT_MS = 8000;
+// Photos take longer to upload and judge than a label
+const PHOTO_TIMEOUT_MS = 20000;
+
+export interface AIAssistant {
+  provider: AIProvider['id'];
+  suggestFailureReason(request: FailureReasonRequest): Promise<AISuggestion>;
+  // Null when there is no provider that can see photos, or it did not answer
+  inspectPhoto(request: PhotoInspectionRequest): Promise<AIPhotoInspection | null>;
+}
+
+// Rejects after ms and aborts the provider's request, even if the provider ignores the signal
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`No answer within ${ms}ms`));
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isFraction = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+// A box inside the photo, or null when the provider gave none or an unusable one
+const toRegion = (raw: unknown): ImageRegion | null => {
+  if (!isObject(raw)) return null;
+  const { x, y, width, height } = raw;
+  if (!isFraction(x) || !isFraction(y) || !isFraction(width) || !isFraction(height) || width === 0 || height === 0) return null;
+  return { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+};
+
+// Providers answer with parsed JSON, so the verdict is checked before it is shown.
+// A region that is not a box inside the photo is dropped rather than the verdict.
+const toPhotoVerdict = (raw: unknown): PhotoVerdict => {
+  if (!isObject(raw) || (raw.verdict !== 'Pass' && raw.verdict !== 'Fail')) throw new Error('Provider gave no Pass/Fail verdict');
+  const { verdict, confidence, finding, region } = raw;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) throw new Error('Provider gave no confidence');
+  return {
+    verdict,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    region: toRegion(region),
+    finding: typeof finding === 'string' ? finding.trim() : ''
+  };
+};
+
+export const createAIAssistant = (provider: AIProvider, fallback: AIProvider = ruleSuggester, timeoutMs = TIMEOUT_MS, photoTimeoutMs = PHOTO_TIMEOUT_MS): AIAssistant => {
+  // Only the provider's own answers are cached, so a fallback answer is retried next time
+  const cache = new Map<string, AISuggestion>();
+
+  return {
+    provider: provider.id,
+
+    suggestFailureReason: async (request) => {
+      const key = `${request.stage}\n${request.checkpointLabel}`;
+      const cached = cache.get(key);
+      if (cached) return cached;
+
+      if (provider.id !== fallback.id) {
+        try {
+          const reason = await withTimeout(signal => provider.suggestFailureReason(request, signal), timeoutMs);
+          const suggestion: AISuggestion = { reason, source: provider.id };
+          cache.set(key, suggestion);
+          return suggestion;
+        } catch (err) {
+          console.error(`AI provider ${provider.id} failed, using offline rules:`, err);
+        }
+      }
+      return { reason: await fallback.suggestFailureReason(request, new AbortController().signal), source: fallback.id };
+    },
+
+    // The offline rules cannot see photos, so there is no fallback here
+    inspectPhoto: async (request) => {
+      if (provider.id === ruleSuggester.id) return null;
+      try {
+        const raw = await withTimeout(signal => provider.inspectPhoto(request, signal), photoTimeoutMs);
+        return { ...toPhotoVerdict(raw), source: provider.id, inspectedAt: new Date().toISOString() };
+      } catch (err) {
+        console.error(`AI provider ${provider.id} could not inspect the photo:`, err);
+        return null;
+      }
+    }
+  };
+};
+
+// Provider is chosen at build time: QC_AI_PROVIDER=proxy (the default when
+// QC_AI_URL is set) goes through the AI proxy, gemini calls Gemini from the
+// browser with GEMINI_API_KEY, and rules (the default otherwise, also accepted
+// as offline) uses the keyword rules.
+const resolveProvider = (): AIProvider => {
+  const url = process.env.QC_AI_URL || '';
+  const choice = (process.env.QC_AI_PROVIDER || (url ? 'proxy' : 'rules')).toLowerCase();
+  if (choice === 'proxy') return createProxyProvider(url || 'http://localhost:4200/ai');
+  if (choice === 'gemini') {
+    if (process.env.GEMINI_API_KEY) return createGeminiProvider(process.env.GEMINI_API_KEY);
+    console.warn('QC_AI_PROVIDER=gemini needs GEMINI_API_KEY; using the offline rules');
+  } else if (choice !== 'rules' && choice !== 'offline') {
+    console.warn(`Unknown QC_AI_PROVIDER "${choice}"; using the offline rules`);
+  }
+  return ruleSuggester;
+};
+
+export const aiAssistant: AIAssistant = createAIAssistant(resolveProvider());
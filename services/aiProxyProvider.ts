@@ -0,0 +1,33 @@
+
+import { AIProvider } from '../types';
+import { blobToBase64 } from './mediaStore';
+
+// Talks to the AI proxy in server/ai-proxy.js (or server/ai-mock.js), which
+// holds the provider's API key so it never ships to the tablets.
+export const createProxyProvider = (baseUrl: string): AIProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown, signal: AbortSignal) => {
+    const response = await fetch(`${root}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) throw new Error(`AI proxy responded ${response.status} for ${path}`);
+    return response.json();
+  };
+
+  return {
+    id: 'proxy',
+
+    suggestFailureReason: async (request, signal) => {
+      const { reason } = await post('failure-reason', request, signal);
+      if (typeof reason !== 'string' || !reason.trim()) throw new Error('AI proxy returned no reason');
+      return reason.trim();
+    },
+
+    inspectPhoto: async ({ checkpointLabel, stage, image }, signal) =>
+      post('inspect-photo', { checkpointLabel, stage, mimeType: image.type || 'image/jpeg', image: await blobToBase64(image) }, signal)
+  };
+};
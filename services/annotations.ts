@@ -0,0 +1,94 @@
+
+import { Annotation, AnnotationPoint, AnnotationTool } from '../types';
+
+// Photo markup geometry shared by the on-screen overlay and printed reports
+
+export const ANNOTATION_TOOLS: { tool: AnnotationTool; label: string }[] = [
+  { tool: 'arrow', label: 'Arrow' },
+  { tool: 'circle', label: 'Circle' },
+  { tool: 'freehand', label: 'Draw' },
+  { tool: 'text', label: 'Text' }
+];
+
+// Readable on both bright housings and dark PCBs
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Line and label sizes follow the image so markup looks the same at any resolution
+export const strokeWidthFor = (width: number, height: number) => Math.max(width, height) / 150;
+export const fontSizeFor = (width: number, height: number) => Math.max(width, height) / 22;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export const toPixels = (point: AnnotationPoint, width: number, height: number): PixelPoint => ({ x: point.x * width, y: point.y * height });
+
+// The two barbs of an arrow head ending at `to`
+export const arrowHead = (from: PixelPoint, to: PixelPoint, size: number): [PixelPoint, PixelPoint] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const barb = (side: number) => ({
+    x: to.x - size * Math.cos(angle + side * Math.PI / 6),
+    y: to.y - size * Math.sin(angle + side * Math.PI / 6)
+  });
+  return [barb(-1), barb(1)];
+};
+
+// False for taps that drew nothing, so a stray touch does not leave a dot
+export const isDrawn = (annotation: Annotation) => {
+  switch (annotation.kind) {
+    case 'arrow': return Math.hypot(annotation.to.x - annotation.from.x, annotation.to.y - annotation.from.y) > 0.01;
+    case 'circle': return annotation.radius > 0.005;
+    case 'freehand': return annotation.points.length > 1;
+    case 'text': return annotation.text.trim() !== '';
+  }
+};
+
+// Draws the markup onto a canvas already holding the image at width x height
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) => {
+  const stroke = strokeWidthFor(width, height);
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const annotation of annotations) {
+    ctx.lineWidth = stroke;
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.beginPath();
+    switch (annotation.kind) {
+      case 'arrow': {
+        const from = toPixels(annotation.from, width, height);
+        const to = toPixels(annotation.to, width, height);
+        const [left, right] = arrowHead(from, to, stroke * 4);
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.moveTo(left.x, left.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.lineTo(right.x, right.y);
+        ctx.stroke();
+        break;
+      }
+      case 'circle': {
+        const center = toPixels(annotation.center, width, height);
+        ctx.arc(center.x, center.y, annotation.radius * width, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      }
+      case 'freehand':
+        annotation.points.map(p => toPixels(p, width, height)).forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+        break;
+      case 'text': {
+        const at = toPixels(annotation.at, width, height);
+        ctx.font = `bold ${fontSizeFor(width, height)}px sans-serif`;
+        ctx.textBaseline = 'middle';
+        // Dark outline keeps the label legible on any background
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.strokeText(annotation.text, at.x, at.y);
+        ctx.fillText(annotation.text, at.x, at.y);
+        break;
+      }
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,84 @@
+
+import { InspectionLevel, SamplingPlan } from '../types';
+
+// ISO 2859-1 single sampling plans for normal inspection (Tables 1 and 2-A)
+
+export const INSPECTION_LEVELS: InspectionLevel[] = ['S-1', 'S-2', 'S-3', 'S-4', 'I', 'II', 'III'];
+
+// Lots are judged on nonconforming units, so only the percent-nonconforming
+// AQLs apply; the columns above 10 count nonconformities per 100 units
+export const AQL_VALUES = [0.010, 0.015, 0.025, 0.040, 0.065, 0.10, 0.15, 0.25, 0.40, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5, 10];
+
+const CODE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M', 'N', 'P', 'Q', 'R'];
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000];
+
+// Table 1: upper lot size bound, then code letters for S-1, S-2, S-3, S-4, I, II, III
+const LOT_SIZE_TABLE: [number, string][] = [
+  [8, 'AAAAAAB'],
+  [15, 'AAAAABC'],
+  [25, 'AABBBCD'],
+  [50, 'ABBCCDE'],
+  [90, 'BBCCCEF'],
+  [150, 'BBCDDFG'],
+  [280, 'BCDEEGH'],
+  [500, 'BCDEFHJ'],
+  [1200, 'CCEFGJK'],
+  [3200, 'CDEGHKL'],
+  [10000, 'CDFGJLM'],
+  [35000, 'CDFHKMN'],
+  [150000, 'DEGJLNP'],
+  [500000, 'DEGJMPQ'],
+  [Infinity, 'DEHKNQR']
+];
+
+// Table 2-A runs along diagonals: the cell for code letter i and AQL j only
+// depends on i + j. Arrows send the inspector to the first plan above or below.
+type Cell = 'down' | 'up' | [number, number];
+const DIAGONAL: Record<number, Cell> = {
+  14: [0, 1], 15: 'up', 16: 'down', 17: [1, 2], 18: [2, 3], 19: [3, 4], 20: [5, 6],
+  21: [7, 8], 22: [10, 11], 23: [14, 15], 24: [21, 22]
+};
+
+const cellAt = (letterIndex: number, aqlIndex: number): Cell => {
+  const diagonal = letterIndex + aqlIndex;
+  if (diagonal < 14) return 'down';
+  return DIAGONAL[diagonal] ?? 'up';
+};
+
+export const codeLetterFor = (lotSize: number, level: InspectionLevel) => {
+  const row = LOT_SIZE_TABLE.find(([upper]) => lotSize <= upper)!;
+  return row[1][INSPECTION_LEVELS.indexOf(level)];
+};
+
+// Sample size and Ac/Re for a lot. When the plan's sample is at least the lot
+// size, every unit is inspected with the plan's Ac/Re.
+export const samplingPlanFor = (lotSize: number, level: InspectionLevel, aql: number): SamplingPlan => {
+  if (!Number.isInteger(lotSize) || lotSize < 2) throw new Error('Lot size must be a whole number of at least 2');
+  const aqlIndex = AQL_VALUES.indexOf(aql);
+  if (aqlIndex < 0) throw new Error(`${aql} is not a standard AQL value`);
+  if (!INSPECTION_LEVELS.includes(level)) throw new Error(`${level} is not an inspection level`);
+
+  const codeLetter = codeLetterFor(lotSize, level);
+  let index = CODE_LETTERS.indexOf(codeLetter);
+  let cell = cellAt(index, aqlIndex);
+  // Follow the arrow; an arrow that leaves the table is followed the other way
+  let step = cell === 'up' ? -1 : 1;
+  while (!Array.isArray(cell)) {
+    if (index + step < 0 || index + step >= CODE_LETTERS.length) step = -step;
+    index += step;
+    cell = cellAt(index, aqlIndex);
+  }
+
+  return {
+    level,
+    aql,
+    codeLetter,
+    planLetter: CODE_LETTERS[index],
+    sampleSize: Math.min(SAMPLE_SIZES[index], lotSize),
+    accept: cell[0],
+    reject: cell[1]
+  };
+};
+
+// "n = 80 · Ac 1 / Re 2"
+export const describePlan = (plan: SamplingPlan) => `n = ${plan.sampleSize} · Ac ${plan.accept} / Re ${plan.reject}`;
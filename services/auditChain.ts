@@ -0,0 +1,44 @@
+
+import { AuditEntry, AuditVerification } from '../types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted at every level, so the same entry always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const obj = value as Record<string, unknown>;
+  return `{${Object.keys(obj).filter(k => obj[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const computeEntryHash = (entry: Omit<AuditEntry, 'hash'>) => {
+  const { hash: _ignored, ...body } = entry as AuditEntry;
+  return sha256Hex(canonicalJson(body));
+};
+
+// Walks the chain in sequence order and reports the first inconsistency
+export const verifyChain = async (entries: AuditEntry[]): Promise<AuditVerification> => {
+  const sorted = [...entries].sort((a, b) => a.seq - b.seq);
+  let prevHash = GENESIS_HASH;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const entry = sorted[i];
+    if (entry.seq !== i + 1) {
+      return { ok: false, checked: i, brokenAtSeq: i + 1, problem: `Entry #${i + 1} is missing` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { ok: false, checked: i, brokenAtSeq: entry.seq, problem: `Entry #${entry.seq} does not link to the previous entry` };
+    }
+    if (await computeEntryHash(entry) !== entry.hash) {
+      return { ok: false, checked: i, brokenAtSeq: entry.seq, problem: `Entry #${entry.seq} was modified after it was written` };
+    }
+    prevHash = entry.hash;
+  }
+  return { ok: true, checked: sorted.length };
+};
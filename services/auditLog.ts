@@ -0,0 +1,19 @@
+
+import { AuditEvent, User } from '../types';
+import { QCRepository } from '../storage';
+
+// Users are logged without their password hash; a changed hash shows up as a flag
+export const auditableUser = (user: User | null | undefined) => {
+  if (!user) return null;
+  const { passwordHash: _hash, ...rest } = user;
+  return rest;
+};
+
+// Appends to the audit trail without ever blocking the action being audited
+export const recordAudit = async (repository: QCRepository, event: AuditEvent) => {
+  try {
+    await repository.appendAudit(event);
+  } catch (err) {
+    console.error('Failed to write audit entry:', event.action, err);
+  }
+};
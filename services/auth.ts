@@ -0,0 +1,122 @@
+
+import { User, PasswordHash } from '../types';
+import { QCRepository } from '../storage';
+import { MAX_FAILED_LOGIN_ATTEMPTS, LOCKOUT_DURATION_MS } from '../constants.tsx';
+import { recordAudit } from './auditLog';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const subtle = () => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto is unavailable. Serve the app over HTTPS or from localhost.');
+  }
+  return globalThis.crypto.subtle;
+};
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await subtle().importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle().deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return { algorithm: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+  if (actual.length !== expected.length) return false;
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+};
+
+export const isLocked = (user: User, now = Date.now()) =>
+  !!user.lockedUntil && Date.parse(user.lockedUntil) > now;
+
+export type LoginResult =
+  | { ok: true; user: User }
+  | { ok: false; reason: 'invalid' | 'disabled' }
+  | { ok: false; reason: 'locked'; lockedUntil: string };
+
+// Verifies credentials and applies the lockout policy. Failed attempts are
+// counted on the user record so the lock holds across shared tablets.
+// Every outcome is written to the audit trail.
+export const authenticate = async (repository: QCRepository, userId: string, password: string): Promise<LoginResult> => {
+  const target = { type: 'session' as const, id: userId };
+  const users = await repository.getUsers();
+  const user = users.find(u => u.userId === userId);
+  if (!user) {
+    await recordAudit(repository, { actor: userId, action: 'auth.login_failed', target, after: { reason: 'unknown_user' } });
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (isLocked(user)) {
+    await recordAudit(repository, { actor: userId, action: 'auth.login_failed', target, after: { reason: 'locked' } });
+    return { ok: false, reason: 'locked', lockedUntil: user.lockedUntil! };
+  }
+
+  // Records written by older builds may still carry a plaintext password
+  const legacyPassword = (user as unknown as { password?: unknown }).password;
+  const valid = user.passwordHash
+    ? await verifyPassword(password, user.passwordHash)
+    : typeof legacyPassword === 'string' && legacyPassword === password;
+
+  if (!valid) {
+    const failedAttempts = (user.failedAttempts || 0) + 1;
+    const locked = failedAttempts >= MAX_FAILED_LOGIN_ATTEMPTS;
+    const lockedUntil = locked ? new Date(Date.now() + LOCKOUT_DURATION_MS).toISOString() : null;
+    await repository.saveUser({ ...user, failedAttempts: locked ? 0 : failedAttempts, lockedUntil });
+    await recordAudit(repository, locked
+      ? { actor: userId, action: 'auth.lockout', target, after: { lockedUntil } }
+      : { actor: userId, action: 'auth.login_failed', target, after: { reason: 'bad_password', failedAttempts } });
+    return locked ? { ok: false, reason: 'locked', lockedUntil: lockedUntil! } : { ok: false, reason: 'invalid' };
+  }
+
+  if (!user.isActive) {
+    await recordAudit(repository, { actor: userId, action: 'auth.login_failed', target, after: { reason: 'disabled' } });
+    return { ok: false, reason: 'disabled' };
+  }
+
+  const { password: _legacy, ...rest } = user as User & { password?: string };
+  const updated: User = {
+    ...rest,
+    passwordHash: user.passwordHash || await hashPassword(password),
+    failedAttempts: 0,
+    lockedUntil: null
+  };
+  await repository.saveUser(updated);
+  await recordAudit(repository, { actor: userId, action: 'auth.login', target, after: { role: updated.role } });
+  return { ok: true, user: updated };
+};
+
+export const changePassword = async (repository: QCRepository, user: User, newPassword: string): Promise<User> => {
+  const updated: User = { ...user, passwordHash: await hashPassword(newPassword), mustChangePassword: false };
+  await repository.saveUser(updated);
+  await recordAudit(repository, { actor: user.userId, action: 'auth.password_change', target: { type: 'user', id: user.userId } });
+  return updated;
+};
+
+// Calls onIdle after timeoutMs without user input; returns a stop function
+export const watchIdle = (timeoutMs: number, onIdle: () => void) => {
+  const events: (keyof WindowEventMap)[] = ['pointerdown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+  let timer = setTimeout(onIdle, timeoutMs);
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onIdle, timeoutMs);
+  };
+  events.forEach(event => window.addEventListener(event, reset, { passive: true }));
+  return () => {
+    clearTimeout(timer);
+    events.forEach(event => window.removeEventListener(event, reset));
+  };
+};
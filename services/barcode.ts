@@ -0,0 +1,183 @@
+
+import jsQR from 'jsqr';
+import { BarcodeFormat, BinaryBitmap, DecodeHintType, HybridBinarizer, MultiFormatReader, RGBLuminanceSource } from '@zxing/library';
+import { Symbology } from '../types';
+
+// Decoders behind the device ID scan screen. Each decoder covers some
+// symbologies; a stage lists the symbologies its labels carry and only the
+// decoders for those run on a frame. Both decoders are pure JS and bundled
+// with the app, so scanning works offline.
+
+export const SYMBOLOGIES: { symbology: Symbology; label: string }[] = [
+  { symbology: 'qr', label: 'QR Code' },
+  { symbology: 'code128', label: 'Code 128' },
+  { symbology: 'code39', label: 'Code 39' },
+  { symbology: 'ean', label: 'EAN-13 / EAN-8' },
+  { symbology: 'datamatrix', label: 'DataMatrix' }
+];
+
+export const symbologyLabel = (symbology: Symbology | null) =>
+  symbology ? SYMBOLOGIES.find(s => s.symbology === symbology)?.label ?? symbology : '';
+
+// Where a code sits in the frame, in frame pixels
+export interface CodeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DecodedCode {
+  text: string;
+  symbology: Symbology;
+  // ID of the decoder that read it, for troubleshooting misreads
+  decoder: string;
+  // Left out by decoders that do not report a position
+  bounds?: CodeBounds;
+}
+
+export interface BarcodeDecoder {
+  id: string;
+  symbologies: Symbology[];
+  // Null when the frame holds no readable code of the wanted symbologies
+  decode(frame: ImageData, wanted: Symbology[]): DecodedCode | null;
+}
+
+// Box around the points a decoder reports. Linear barcodes only report points
+// along the scan line, so their box is given some height.
+const boundsOf = (points: { x: number; y: number }[]): CodeBounds | undefined => {
+  if (points.length === 0) return undefined;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const width = Math.max(...xs) - x;
+  const minHeight = width * 0.3;
+  let y = Math.min(...ys);
+  let height = Math.max(...ys) - y;
+  if (height < minHeight) {
+    y -= (minHeight - height) / 2;
+    height = minHeight;
+  }
+  return { x, y, width, height };
+};
+
+// jsQR is faster and more tolerant than ZXing on QR codes, so it goes first
+const jsQrDecoder: BarcodeDecoder = {
+  id: 'jsqr',
+  symbologies: ['qr'],
+  decode: (frame) => {
+    const code = jsQR(frame.data, frame.width, frame.height);
+    if (!code) return null;
+    const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = code.location;
+    return { text: code.data, symbology: 'qr', decoder: 'jsqr', bounds: boundsOf([topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner]) };
+  }
+};
+
+const ZXING_FORMATS: Record<Symbology, BarcodeFormat[]> = {
+  qr: [BarcodeFormat.QR_CODE],
+  code128: [BarcodeFormat.CODE_128],
+  code39: [BarcodeFormat.CODE_39],
+  ean: [BarcodeFormat.EAN_13, BarcodeFormat.EAN_8],
+  datamatrix: [BarcodeFormat.DATA_MATRIX]
+};
+
+const fromZxingFormat = (format: BarcodeFormat) =>
+  (Object.keys(ZXING_FORMATS) as Symbology[]).find(s => ZXING_FORMATS[s].includes(format)) ?? null;
+
+// Green-weighted grey, as ZXing computes it for RGB sources
+const toLuminance = (frame: ImageData) => {
+  const luminance = new Uint8ClampedArray(frame.width * frame.height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = (frame.data[p] + 2 * frame.data[p + 1] + frame.data[p + 2]) >> 2;
+  }
+  return luminance;
+};
+
+// Readers are set up once per combination of symbologies and reused across frames
+const zxingReaders = new Map<string, MultiFormatReader>();
+
+const zxingReaderFor = (wanted: Symbology[]) => {
+  const key = [...wanted].sort().join(',');
+  let reader = zxingReaders.get(key);
+  if (!reader) {
+    reader = new MultiFormatReader();
+    const hints = new Map<DecodeHintType, BarcodeFormat[] | boolean>();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, wanted.flatMap(s => ZXING_FORMATS[s]));
+    hints.set(DecodeHintType.TRY_HARDER, true);
+    reader.setHints(hints);
+    zxingReaders.set(key, reader);
+  }
+  return reader;
+};
+
+const zxingDecoder: BarcodeDecoder = {
+  id: 'zxing',
+  symbologies: ['qr', 'code128', 'code39', 'ean', 'datamatrix'],
+  decode: (frame, wanted) => {
+    const source = new RGBLuminanceSource(toLuminance(frame), frame.width, frame.height);
+    try {
+      const result = zxingReaderFor(wanted).decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+      const symbology = fromZxingFormat(result.getBarcodeFormat());
+      if (!symbology) return null;
+      const bounds = boundsOf(result.getResultPoints().filter(p => p).map(p => ({ x: p.getX(), y: p.getY() })));
+      return { text: result.getText(), symbology, decoder: 'zxing', bounds };
+    } catch {
+      // ZXing throws when nothing is found or the checksum fails
+      return null;
+    }
+  }
+};
+
+const decoders: BarcodeDecoder[] = [jsQrDecoder, zxingDecoder];
+
+// Adds a decoder (a WASM build, a vendor SDK...) ahead of the bundled ones
+export const registerDecoder = (decoder: BarcodeDecoder) => {
+  const index = decoders.findIndex(d => d.id === decoder.id);
+  if (index >= 0) decoders.splice(index, 1);
+  decoders.unshift(decoder);
+};
+
+// Runs each decoder that covers a wanted symbology, asking it only for those
+export const decodeFrame = (frame: ImageData, wanted: Symbology[]): DecodedCode | null => {
+  for (const decoder of decoders) {
+    const covered = wanted.filter(s => decoder.symbologies.includes(s));
+    if (covered.length === 0) continue;
+    const code = decoder.decode(frame, covered);
+    if (code) return code;
+  }
+  return null;
+};
+
+// Part of a frame as a frame of its own
+const cropFrame = (frame: ImageData, x: number, y: number, width: number, height: number) => {
+  const crop = new ImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * frame.width + x) * 4;
+    crop.data.set(frame.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return crop;
+};
+
+// Every code in a still photo. Decoders stop at the first code they find, so
+// besides the whole frame, half-size tiles overlapping by half are decoded too.
+export const decodeAll = (frame: ImageData, wanted: Symbology[]): DecodedCode[] => {
+  const found = new Map<string, DecodedCode>();
+  const add = (code: DecodedCode | null, dx: number, dy: number) => {
+    if (!code) return;
+    const key = `${code.symbology}:${code.text}`;
+    if (found.has(key)) return;
+    found.set(key, code.bounds ? { ...code, bounds: { ...code.bounds, x: code.bounds.x + dx, y: code.bounds.y + dy } } : code);
+  };
+
+  add(decodeFrame(frame, wanted), 0, 0);
+  const tileWidth = Math.floor(frame.width / 2);
+  const tileHeight = Math.floor(frame.height / 2);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      const x = Math.floor(col * tileWidth / 2);
+      const y = Math.floor(row * tileHeight / 2);
+      add(decodeFrame(cropFrame(frame, x, y, tileWidth, tileHeight), wanted), x, y);
+    }
+  }
+  return Array.from(found.values());
+};
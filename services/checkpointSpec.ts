@@ -0,0 +1,137 @@
+
+import { CheckpointSpec, CheckpointType, CheckpointValue, CheckpointResult } from '../types';
+
+// Answer types for checkpoints and how each one is judged
+
+export const CHECKPOINT_TYPES: { type: CheckpointType; label: string }[] = [
+  { type: 'pass_fail', label: 'Pass / Fail' },
+  { type: 'numeric', label: 'Measurement' },
+  { type: 'text', label: 'Text' },
+  { type: 'single_choice', label: 'Single choice' },
+  { type: 'multi_choice', label: 'Multiple choice' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'id_match', label: 'Device ID match' }
+];
+
+export const PASS_FAIL_SPEC: CheckpointSpec = { type: 'pass_fail' };
+
+// Fresh spec when a template author switches a checkpoint's type
+export const defaultSpec = (type: CheckpointType): CheckpointSpec => {
+  switch (type) {
+    case 'numeric': return { type, unit: '', lsl: null, usl: null };
+    case 'single_choice':
+    case 'multi_choice': return { type, options: [], passOptions: [] };
+    case 'boolean': return { type, passValue: true };
+    case 'id_match': return { type, references: ['System info', 'Device label'] };
+    default: return { type };
+  }
+};
+
+// Measurements, booleans, ID matches and choices with pass options are judged
+// automatically; pass/fail and text checkpoints are judged by the inspector
+export const isAutoEvaluated = (spec: CheckpointSpec) =>
+  spec.type === 'numeric' ||
+  spec.type === 'boolean' ||
+  spec.type === 'id_match' ||
+  ((spec.type === 'single_choice' || spec.type === 'multi_choice') && (spec.passOptions?.length ?? 0) > 0);
+
+const normalizeId = (id: string) => id.trim().toUpperCase();
+
+// IDs read for an ID match checkpoint, once every reference has one
+const readIds = (spec: CheckpointSpec, value: CheckpointValue | null) => {
+  const ids = Array.isArray(value) ? value.map(normalizeId) : [];
+  const references = spec.references ?? [];
+  return ids.length === references.length && ids.every(id => id !== '') ? ids : null;
+};
+
+// References whose ID differs from the device ID being inspected
+export const mismatchedReferences = (spec: CheckpointSpec, value: CheckpointValue | null, deviceId: string) => {
+  const ids = Array.isArray(value) ? value.map(normalizeId) : [];
+  return (spec.references ?? []).filter((_, i) => ids[i] && ids[i] !== normalizeId(deviceId));
+};
+
+// Result for an auto-evaluated checkpoint, or null when there is nothing to judge yet.
+// ID matches pass when every reference reads the device ID.
+export const evaluateCheckpoint = (spec: CheckpointSpec, value: CheckpointValue | null, deviceId = ''): 'Pass' | 'Fail' | null => {
+  if (value === null || !isAutoEvaluated(spec)) return null;
+  switch (spec.type) {
+    case 'numeric': {
+      if (typeof value !== 'number' || isNaN(value)) return null;
+      const belowLower = spec.lsl !== null && spec.lsl !== undefined && value < spec.lsl;
+      const aboveUpper = spec.usl !== null && spec.usl !== undefined && value > spec.usl;
+      return belowLower || aboveUpper ? 'Fail' : 'Pass';
+    }
+    case 'boolean':
+      return value === spec.passValue ? 'Pass' : 'Fail';
+    case 'id_match': {
+      const ids = readIds(spec, value);
+      if (!ids) return null;
+      return ids.every(id => id === normalizeId(deviceId)) ? 'Pass' : 'Fail';
+    }
+    case 'single_choice':
+      return spec.passOptions!.includes(String(value)) ? 'Pass' : 'Fail';
+    case 'multi_choice': {
+      const picked = Array.isArray(value) ? value : [];
+      return spec.passOptions!.every(option => picked.includes(option)) ? 'Pass' : 'Fail';
+    }
+    default:
+      return null;
+  }
+};
+
+// Checkpoints other than pass/fail also need a recorded value
+export const hasValue = (cp: Pick<CheckpointResult, 'spec' | 'value'>) => {
+  if (cp.spec.type === 'pass_fail') return true;
+  if (cp.value === null) return false;
+  if (cp.spec.type === 'id_match') return readIds(cp.spec, cp.value) !== null;
+  if (typeof cp.value === 'string') return cp.value.trim() !== '';
+  if (Array.isArray(cp.value)) return cp.value.length > 0;
+  return true;
+};
+
+// "9.5 – 10.5 V", "≥ 300 nits"...
+export const describeLimits = (spec: CheckpointSpec) => {
+  const unit = spec.unit ? ` ${spec.unit}` : '';
+  const hasLower = spec.lsl !== null && spec.lsl !== undefined;
+  const hasUpper = spec.usl !== null && spec.usl !== undefined;
+  if (hasLower && hasUpper) return `${spec.lsl} – ${spec.usl}${unit}`;
+  if (hasLower) return `≥ ${spec.lsl}${unit}`;
+  if (hasUpper) return `≤ ${spec.usl}${unit}`;
+  return 'No limits';
+};
+
+// Raw value as it appears in exports and history
+export const formatValue = (spec: CheckpointSpec, value: CheckpointValue | null) => {
+  if (value === null) return '';
+  if (spec.type === 'id_match' && Array.isArray(value)) return value.map((id, i) => `${spec.references?.[i] ?? `Reference ${i + 1}`}: ${id}`).join('; ');
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (spec.type === 'numeric' && spec.unit) return `${value} ${spec.unit}`;
+  return String(value);
+};
+
+// Problems that stop a template from being published
+export const validateSpec = (spec: CheckpointSpec): string[] => {
+  const errors: string[] = [];
+  if (spec.type === 'numeric') {
+    const hasLower = typeof spec.lsl === 'number';
+    const hasUpper = typeof spec.usl === 'number';
+    if (!hasLower && !hasUpper) errors.push('needs a lower or upper spec limit');
+    if (hasLower && hasUpper && spec.lsl! > spec.usl!) errors.push('lower limit is above the upper limit');
+  }
+  if (spec.type === 'single_choice' || spec.type === 'multi_choice') {
+    const options = spec.options ?? [];
+    if (options.length < 2) errors.push('needs at least two options');
+    if (options.some(o => !o.trim())) errors.push('has an empty option');
+    if (new Set(options).size !== options.length) errors.push('has duplicate options');
+    if ((spec.passOptions ?? []).some(o => !options.includes(o))) errors.push('passes on an option that does not exist');
+  }
+  if (spec.type === 'boolean' && typeof spec.passValue !== 'boolean') errors.push('needs the answer that passes');
+  if (spec.type === 'id_match') {
+    const references = spec.references ?? [];
+    if (references.length < 2) errors.push('needs at least two references to compare');
+    if (references.some(r => !r.trim())) errors.push('has an empty reference');
+    if (new Set(references).size !== references.length) errors.push('has duplicate references');
+  }
+  return errors;
+};
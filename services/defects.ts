@@ -0,0 +1,84 @@
+
+import { DefectCode, DefectRef, DefectCategory, DefectSeverity, QCReport } from '../types';
+
+// Defect catalog rules and failure statistics by code and severity
+
+export const DEFECT_CATEGORIES: { category: DefectCategory; label: string }[] = [
+  { category: 'cosmetic', label: 'Cosmetic' },
+  { category: 'functional', label: 'Functional' },
+  { category: 'labelling', label: 'Labelling' },
+  { category: 'packaging', label: 'Packaging' }
+];
+
+// Most severe first
+export const DEFECT_SEVERITIES: { severity: DefectSeverity; label: string }[] = [
+  { severity: 'critical', label: 'Critical' },
+  { severity: 'major', label: 'Major' },
+  { severity: 'minor', label: 'Minor' }
+];
+
+const SEVERITY_RANK: Record<DefectSeverity, number> = { critical: 0, major: 1, minor: 2 };
+
+export const toDefectRef = ({ code, description, category, severity }: DefectCode): DefectRef => ({ code, description, category, severity });
+
+// Active codes an inspector may pick for a checkpoint
+export const defectsFor = (catalog: DefectCode[], checkpointId: string) =>
+  catalog.filter(d => d.active && (d.checkpointIds.length === 0 || d.checkpointIds.includes(checkpointId)));
+
+export const highestSeverity = (defects: DefectRef[]): DefectSeverity | null =>
+  defects.reduce<DefectSeverity | null>((worst, d) => worst === null || SEVERITY_RANK[d.severity] < SEVERITY_RANK[worst] ? d.severity : worst, null);
+
+// "FUN-02 (major)"
+export const describeDefect = (defect: DefectRef) => `${defect.code} (${defect.severity})`;
+
+// Problems that stop the catalog from being saved
+export const validateDefectCatalog = (codes: DefectCode[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  codes.forEach((d, i) => {
+    const name = d.code || `Code ${i + 1}`;
+    if (!/^[A-Z0-9][A-Z0-9_-]*$/.test(d.code)) errors.push(`${name}: codes use capital letters, digits, "-" and "_"`);
+    if (seen.has(d.code)) errors.push(`${name}: duplicate code`);
+    seen.add(d.code);
+    if (!d.description.trim()) errors.push(`${name}: needs a description`);
+  });
+  return errors;
+};
+
+export interface DefectCount extends DefectRef {
+  count: number;
+}
+
+export interface DefectSummary {
+  codes: DefectCount[];                       // most frequent first
+  severities: Record<DefectSeverity, number>;
+  categories: Record<DefectCategory, number>;
+  uncoded: number;                            // failed checkpoints without a code
+}
+
+// Each code counts once per failed checkpoint it was picked on. The
+// classification is taken from the reports, as it was when they were judged.
+export const summarizeDefects = (reports: QCReport[]): DefectSummary => {
+  const counts = new Map<string, DefectCount>();
+  const summary: DefectSummary = {
+    codes: [],
+    severities: { critical: 0, major: 0, minor: 0 },
+    categories: { cosmetic: 0, functional: 0, labelling: 0, packaging: 0 },
+    uncoded: 0
+  };
+  for (const report of reports) {
+    for (const cp of report.checkpoints) {
+      if (cp.status !== 'Fail') continue;
+      if (cp.defects.length === 0) summary.uncoded++;
+      for (const defect of cp.defects) {
+        const entry = counts.get(defect.code) ?? { ...defect, count: 0 };
+        entry.count++;
+        counts.set(defect.code, entry);
+        summary.severities[defect.severity]++;
+        summary.categories[defect.category]++;
+      }
+    }
+  }
+  summary.codes = Array.from(counts.values()).sort((a, b) => b.count - a.count || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+  return summary;
+};
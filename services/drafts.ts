@@ -0,0 +1,21 @@
+
+import { InspectionDraft, StageId } from '../types';
+
+// Autosaved checklists that have not been submitted yet
+
+export const draftKey = (userId: string, stage: StageId, deviceId: string) => `${userId}|${stage}|${deviceId}`;
+
+export const isDraftExpired = (draft: InspectionDraft, now: number, expiryMs: number) =>
+  now - new Date(draft.updatedAt).getTime() > expiryMs;
+
+// Checkpoints with a result, out of all on the checklist
+export const draftProgress = (draft: InspectionDraft) => ({
+  answered: draft.checkpoints.filter(cp => cp.status !== null).length,
+  total: draft.checkpoints.length
+});
+
+// Photos and clips held by the draft, deleted from the media store when it is discarded
+export const draftMediaIds = (draft: InspectionDraft) => [
+  ...(draft.deviceImage ? [draft.deviceImage.mediaId] : []),
+  ...draft.checkpoints.flatMap(cp => cp.evidence.map(e => e.media.mediaId))
+];
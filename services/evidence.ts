@@ -0,0 +1,45 @@
+
+import { CheckpointResult, EvidenceKind, EvidenceMinimum } from '../types';
+
+// Photos and recorded clips attached to checkpoints
+
+export const EVIDENCE_KINDS: { kind: EvidenceKind; label: string; plural: string }[] = [
+  { kind: 'photo', label: 'photo', plural: 'photos' },
+  { kind: 'video', label: 'video clip', plural: 'video clips' },
+  { kind: 'audio', label: 'audio clip', plural: 'audio clips' }
+];
+
+// Upper bound in the template editor; more than this is a sign of a misplaced checkpoint
+export const MAX_EVIDENCE_PER_KIND = 5;
+
+const countOf = (n: number, kind: EvidenceKind) => {
+  const k = EVIDENCE_KINDS.find(e => e.kind === kind)!;
+  return `${n} ${n === 1 ? k.label : k.plural}`;
+};
+
+export const evidenceCount = (cp: CheckpointResult, kind: EvidenceKind) => cp.evidence.filter(e => e.kind === kind).length;
+
+// What is still needed to meet the checkpoint's minimums, e.g. ['1 photo', '1 audio clip']
+export const missingEvidence = (cp: CheckpointResult) =>
+  EVIDENCE_KINDS
+    .map(({ kind }) => ({ kind, short: cp.minEvidence[kind] - evidenceCount(cp, kind) }))
+    .filter(m => m.short > 0)
+    .map(m => countOf(m.short, m.kind));
+
+// "2 photos, 1 audio clip", or '' when nothing is required
+export const describeMinimum = (min: EvidenceMinimum) =>
+  EVIDENCE_KINDS.filter(({ kind }) => min[kind] > 0).map(({ kind }) => countOf(min[kind], kind)).join(', ');
+
+// The AI pre-inspection's call on the whole checkpoint: Fail if it suspects a
+// defect on any photo, null when no photo was inspected
+export const aiVerdict = (cp: CheckpointResult): 'Pass' | 'Fail' | null => {
+  const inspected = cp.evidence.flatMap(e => e.aiInspection ? [e.aiInspection] : []);
+  if (inspected.length === 0) return null;
+  return inspected.some(i => i.verdict === 'Fail') ? 'Fail' : 'Pass';
+};
+
+// "0:07"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
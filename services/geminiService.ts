@@ -1,29 +1,90 @@
+import { AIProvider } from "../types";
+import { blobToBase64 } from "./mediaStore";
 
-import { GoogleGenAI, Type } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const suggestFailureReason = async (checkpointLabel: string, stage: string) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `The following factory QC checkpoint failed during the ${stage} stage: "${checkpointLabel}". Provide a concise, professional, 1-sentence reason why this might have failed for a quality report.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            reason: { type: Type.STRING }
-          },
-          required: ["reason"]
+// Calls Gemini straight from the browser, which needs the API key in the
+// bundle. Only for development on a trusted machine; tablets use the proxy.
+// The SDK is loaded on first use, so builds for other providers never fetch it.
+
+const MODEL = "gemini-3-flash-preview";
+
+// Same prompts as server/ai-proxy.js
+export const failureReasonPrompt = (checkpointLabel: string, stage: string) =>
+  `The following factory QC checkpoint failed during the ${stage} stage: "${checkpointLabel}". Provide a concise, professional, 1-sentence reason why this might have failed for a quality report.`;
+
+export const photoInspectionPrompt = (checkpointLabel: string, stage: string) =>
+  `This photo was taken for the factory QC checkpoint "${checkpointLabel}" during the ${stage} stage. Judge whether the device passes this checkpoint. Give the verdict Pass or Fail, your confidence from 0 to 1, a 1-sentence finding, and for a suspected defect its region as x, y, width and height fractions of the image from the top left (null if there is none).`;
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  let client: Promise<import("@google/genai").GoogleGenAI> | null = null;
+  const getClient = () => {
+    client ??= import("@google/genai").then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey }));
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+
+    suggestFailureReason: async ({ checkpointLabel, stage }, signal) => {
+      const { Type } = await import("@google/genai");
+      const ai = await getClient();
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: failureReasonPrompt(checkpointLabel, stage),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              reason: { type: Type.STRING }
+            },
+            required: ["reason"]
+          }
         }
-      }
-    });
-
-    const data = JSON.parse(response.text || '{"reason": "Mechanical defect detected."}');
-    return data.reason;
-  } catch (error) {
-    console.error("Gemini Suggestion Error:", error);
-    return "Unknown defect; further investigation required.";
-  }
+      });
+
+      const reason = JSON.parse(response.text || '{}').reason;
+      if (typeof reason !== 'string' || !reason.trim()) throw new Error('Gemini returned no reason');
+      return reason.trim();
+    },
+
+    inspectPhoto: async ({ checkpointLabel, stage, image }, signal) => {
+      const { Type } = await import("@google/genai");
+      const ai = await getClient();
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: [
+          { inlineData: { mimeType: image.type || "image/jpeg", data: await blobToBase64(image) } },
+          { text: photoInspectionPrompt(checkpointLabel, stage) }
+        ],
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              verdict: { type: Type.STRING, enum: ["Pass", "Fail"] },
+              confidence: { type: Type.NUMBER },
+              finding: { type: Type.STRING },
+              region: {
+                type: Type.OBJECT,
+                nullable: true,
+                properties: {
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER }
+                },
+                required: ["x", "y", "width", "height"]
+              }
+            },
+            required: ["verdict", "confidence", "finding"]
+          }
+        }
+      });
+
+      // Checked and clamped by the assistant
+      return JSON.parse(response.text || '{}');
+    }
+  };
 };
@@ -0,0 +1,12 @@
+
+// Type guards for data read back from storage or the network, shared by the
+// migrations and the validators.
+
+export type StoredRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const isNumber = (value: unknown): value is number => typeof value === 'number';
+export const isList = (value: unknown): value is unknown[] => Array.isArray(value);
+export const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
@@ -0,0 +1,85 @@
+
+import { StorageAdapter, CollectionName, MediaVariant } from '../types';
+
+// Talks to the reference server in server/qc-server.js (or anything exposing
+// the same GET/PUT/POST/DELETE /:collection/:key routes).
+// POST creates a record only if its key is free and answers 409 otherwise.
+// Media bodies go to /media/:variant/:mediaId as raw bytes.
+export const createHttpAdapter = (baseUrl: string): StorageAdapter => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const url = (collection: CollectionName, key?: string) =>
+    key === undefined ? `${root}/${collection}` : `${root}/${collection}/${encodeURIComponent(key)}`;
+  const mediaUrl = (mediaId: string, variant?: MediaVariant) =>
+    variant === undefined ? `${root}/media/${encodeURIComponent(mediaId)}` : `${root}/media/${variant}/${encodeURIComponent(mediaId)}`;
+
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) }
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 409) {
+      throw new Error(`Storage server responded ${response.status} for ${init?.method || 'GET'} ${input}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'HTTP',
+
+    list: async <T>(collection: CollectionName) => {
+      const response = await request(url(collection));
+      return response.ok ? (await response.json() as T[]) : [];
+    },
+
+    entries: async <T>(collection: CollectionName) => {
+      const response = await request(`${url(collection)}?withKeys=1`);
+      if (!response.ok) return [];
+      const rows = await response.json() as { key: string; value: T }[];
+      return rows.map(row => [row.key, row.value] as [string, T]);
+    },
+
+    get: async <T>(collection: CollectionName, key: string) => {
+      const response = await request(url(collection, key));
+      return response.status === 404 ? null : (await response.json() as T);
+    },
+
+    put: async <T>(collection: CollectionName, key: string, value: T) => {
+      await request(url(collection, key), { method: 'PUT', body: JSON.stringify(value) });
+    },
+
+    create: async <T>(collection: CollectionName, key: string, value: T) => {
+      const response = await request(url(collection, key), { method: 'POST', body: JSON.stringify(value) });
+      if (response.status === 404) throw new Error(`Storage server cannot create records in ${collection}`);
+      return response.status !== 409;
+    },
+
+    last: async <T>(collection: CollectionName) => {
+      const response = await request(`${url(collection)}?last=1`);
+      if (response.status === 404) return null;
+      const row = await response.json() as { key: string; value: T };
+      return [row.key, row.value] as [string, T];
+    },
+
+    remove: async (collection: CollectionName, key: string) => {
+      await request(url(collection, key), { method: 'DELETE' });
+    },
+
+    putMedia: async (mediaId: string, variant: MediaVariant, blob: Blob) => {
+      const response = await request(mediaUrl(mediaId, variant), {
+        method: 'PUT',
+        body: blob,
+        headers: { 'Content-Type': blob.type || 'application/octet-stream' }
+      });
+      if (response.status === 404) throw new Error('Storage server does not accept media');
+    },
+
+    getMedia: async (mediaId: string, variant: MediaVariant) => {
+      const response = await request(mediaUrl(mediaId, variant));
+      return response.status === 404 ? null : response.blob();
+    },
+
+    removeMedia: async (mediaId: string) => {
+      await request(mediaUrl(mediaId), { method: 'DELETE' });
+    }
+  };
+};
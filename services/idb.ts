@@ -0,0 +1,72 @@
+
+// Minimal promise helpers around IndexedDB shared by the storage adapter and the sync outbox.
+
+const connections: Record<string, Promise<IDBDatabase>> = {};
+
+// Opens (and caches) a database, creating any object stores it is missing.
+// Bump the version whenever a new store name is added.
+export const openIndexedDb = (name: string, version: number, stores: string[]): Promise<IDBDatabase> => {
+  if (!connections[name]) {
+    connections[name] = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Records are stored with out-of-line keys supplied by the caller
+        stores.forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        delete connections[name];
+        reject(request.error);
+      };
+    });
+  }
+  return connections[name];
+};
+
+// Wraps a single-store request in a promise that settles when the transaction does
+export const runRequest = <T>(db: IDBDatabase, store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Reads the [key, value] pair with the highest key, or null for an empty store
+export const getLastEntry = <T>(db: IDBDatabase, store: string): Promise<[string, T] | null> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readonly');
+    let result: [string, T] | null = null;
+    const request = tx.objectStore(store).openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) result = [String(cursor.key), cursor.value as T];
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Reads every [key, value] pair of a store in one transaction
+export const getAllEntries = <T>(db: IDBDatabase, store: string): Promise<[string, T][]> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readonly');
+    const results: [string, T][] = [];
+    const request = tx.objectStore(store).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      results.push([String(cursor.key), cursor.value as T]);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(results);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,75 @@
+
+import { StorageAdapter, CollectionName, COLLECTIONS, MediaVariant } from '../types';
+import { openIndexedDb, runRequest, getAllEntries, getLastEntry } from './idb';
+
+const DB_NAME = 'flex_qc';
+const DB_VERSION = 11;
+
+const openDatabase = () => openIndexedDb(DB_NAME, DB_VERSION, COLLECTIONS);
+
+// Media blobs have their own database so records stay small to read and migrate
+const MEDIA_DB_NAME = 'flex_qc_media';
+const MEDIA_DB_VERSION = 1;
+const FULL_STORE = 'full';
+const THUMB_STORE = 'thumbs';
+
+const openMediaDatabase = () => openIndexedDb(MEDIA_DB_NAME, MEDIA_DB_VERSION, [FULL_STORE, THUMB_STORE]);
+
+const mediaStoreFor = (variant: MediaVariant) => variant === 'full' ? FULL_STORE : THUMB_STORE;
+
+const run = async <T>(collection: CollectionName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return runRequest<T>(db, collection, mode, action);
+};
+
+export const createIndexedDbAdapter = (): StorageAdapter => ({
+  name: 'IndexedDB',
+
+  list: <T>(collection: CollectionName) =>
+    run<T[]>(collection, 'readonly', store => store.getAll()),
+
+  entries: async <T>(collection: CollectionName) =>
+    getAllEntries<T>(await openDatabase(), collection),
+
+  get: async <T>(collection: CollectionName, key: string) => {
+    const value = await run<T | undefined>(collection, 'readonly', store => store.get(key));
+    return value ?? null;
+  },
+
+  put: async <T>(collection: CollectionName, key: string, value: T) => {
+    await run(collection, 'readwrite', store => store.put(value, key));
+  },
+
+  // add() fails the transaction with a ConstraintError when the key is taken
+  create: async <T>(collection: CollectionName, key: string, value: T) => {
+    try {
+      await run(collection, 'readwrite', store => store.add(value, key));
+      return true;
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'ConstraintError') return false;
+      throw err;
+    }
+  },
+
+  last: async <T>(collection: CollectionName) =>
+    getLastEntry<T>(await openDatabase(), collection),
+
+  remove: async (collection: CollectionName, key: string) => {
+    await run(collection, 'readwrite', store => store.delete(key));
+  },
+
+  putMedia: async (mediaId: string, variant: MediaVariant, blob: Blob) => {
+    await runRequest(await openMediaDatabase(), mediaStoreFor(variant), 'readwrite', store => store.put(blob, mediaId));
+  },
+
+  getMedia: async (mediaId: string, variant: MediaVariant) => {
+    const blob = await runRequest<Blob | undefined>(await openMediaDatabase(), mediaStoreFor(variant), 'readonly', store => store.get(mediaId));
+    return blob ?? null;
+  },
+
+  removeMedia: async (mediaId: string) => {
+    const db = await openMediaDatabase();
+    await runRequest(db, FULL_STORE, 'readwrite', store => store.delete(mediaId));
+    await runRequest(db, THUMB_STORE, 'readwrite', store => store.delete(mediaId));
+  }
+});
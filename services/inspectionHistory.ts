@@ -0,0 +1,34 @@
+
+import { QCReport, RepeatPolicy, StageDefinition, StageId, StageStatus } from '../types';
+
+// A device's earlier reports, and the per-stage policy for inspecting it again
+
+export const REPEAT_POLICIES: { policy: RepeatPolicy; label: string }[] = [
+  { policy: 'warn', label: 'Warn on repeat' },
+  { policy: 'require_reason', label: 'Reason for repeat' },
+  { policy: 'block', label: 'Block repeats' }
+];
+
+// Every report for the device, oldest first
+export const deviceReports = (reports: QCReport[], deviceId: string) =>
+  reports.filter(r => r.deviceId === deviceId).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+export const latestReportAt = (reports: QCReport[], deviceId: string, stageId: StageId) =>
+  deviceReports(reports, deviceId).filter(r => r.stage === stageId).pop() ?? null;
+
+// A repeat is a new inspection at a stage the device already has a report
+// for; the re-inspection after a recorded repair is not one
+export const isRepeat = (previous: QCReport | null, status: StageStatus) => !!previous && status !== 'repaired';
+
+// "FLEX-0001 was already inspected at FQC Inspection (report REP-1, 01/02/2026, 10:00:00)"
+export const describeRepeat = (stage: StageDefinition, previous: QCReport) =>
+  `${previous.deviceId} was already inspected at ${stage.label} (report ${previous.id}, ${new Date(previous.timestamp).toLocaleString()})`;
+
+export type RepeatCheck = { ok: true } | { ok: false; reason: string };
+
+export const checkRepeat = (stage: StageDefinition, previous: QCReport, reason: string | null): RepeatCheck => {
+  const seen = describeRepeat(stage, previous);
+  if (stage.repeatPolicy === 'block') return { ok: false, reason: `${seen}. Repeat inspections are blocked at this stage.` };
+  if (stage.repeatPolicy === 'require_reason' && !reason?.trim()) return { ok: false, reason: `${seen}. A reason is required to inspect it again.` };
+  return { ok: true };
+};
@@ -0,0 +1,327 @@
+
+import { InstrumentRef, InstrumentReading } from '../types';
+
+// Adapter layer for measuring instruments (scales, testers). Each adapter
+// turns its transport's output into InstrumentReadings; one instrument is
+// connected per station at a time and shared by every checkpoint.
+
+export interface InstrumentAdapter {
+  // Stable ID of the physical device (or simulator); asset tags are keyed by it
+  hardwareId: string;
+  info: InstrumentRef;
+  connect(emit: (reading: InstrumentReading) => void): Promise<void>;
+  disconnect(): Promise<void>;
+  // Asks for a fresh reading: the print command on polled scales, a new load on the simulator
+  requestReading?(): Promise<void>;
+}
+
+// Minimal Web Serial and WebHID surface; lib.dom does not ship these types yet
+interface SerialPortLike {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+interface HidDeviceLike {
+  productName: string;
+  vendorId: number;
+  productId: number;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  addEventListener(type: 'inputreport', listener: (event: { data: DataView }) => void): void;
+  removeEventListener(type: 'inputreport', listener: (event: { data: DataView }) => void): void;
+}
+
+type NavigatorWithDevices = Navigator & {
+  serial?: { requestPort(): Promise<SerialPortLike> };
+  hid?: { requestDevice(options: { filters: { usagePage: number }[] }): Promise<HidDeviceLike[]> };
+};
+
+const webSerial = () => (navigator as NavigatorWithDevices).serial;
+const webHid = () => (navigator as NavigatorWithDevices).hid;
+
+export const isSerialSupported = () => typeof navigator !== 'undefined' && !!webSerial();
+export const isHidSupported = () => typeof navigator !== 'undefined' && !!webHid();
+
+// --- Units ---
+
+const GRAMS_PER_UNIT: Record<string, number> = { mg: 0.001, g: 1, kg: 1000, oz: 28.349523125, lb: 453.59237 };
+
+// Converts between mass units; other units must match exactly. Returns null when they cannot be compared.
+export const convertReading = (value: number, from: string, to: string): number | null => {
+  const source = from.trim().toLowerCase();
+  const target = to.trim().toLowerCase();
+  if (!target || source === target) return value;
+  if (GRAMS_PER_UNIT[source] && GRAMS_PER_UNIT[target]) {
+    return Math.round((value * GRAMS_PER_UNIT[source] / GRAMS_PER_UNIT[target]) * 1e6) / 1e6;
+  }
+  return null;
+};
+
+// --- Parsers ---
+
+// ASCII line from a scale, e.g. "ST,GS,+0000.512 kg", "US,NT,  12.5g" or "  512.0 g".
+// "US" (unstable) or a "?" flag marks the weight as still moving.
+export const parseScaleLine = (line: string): Omit<InstrumentReading, 'at'> | null => {
+  const match = line.match(/([+-]?\s*\d+(?:\.\d+)?)\s*([a-zA-Zµ%]+)?\s*$/);
+  if (!match) return null;
+  const value = Number(match[1].replace(/\s/g, ''));
+  if (isNaN(value)) return null;
+  return {
+    value,
+    unit: (match[2] ?? '').toLowerCase(),
+    stable: !/^\s*US\b/i.test(line) && !line.includes('?'),
+    raw: line.trim()
+  };
+};
+
+// HID point-of-sale scale usage page (0x8D) input report: status, unit,
+// signed exponent, then the weight as a little-endian 16-bit integer
+const HID_SCALE_UNITS: Record<number, string> = { 1: 'mg', 2: 'g', 3: 'kg', 11: 'oz', 12: 'lb' };
+const HID_STATUS_STABLE = 4;
+const HID_STATUS_ZERO = 2;
+
+export const parseHidScaleReport = (data: DataView): Omit<InstrumentReading, 'at'> | null => {
+  if (data.byteLength < 5) return null;
+  const status = data.getUint8(0);
+  const unit = HID_SCALE_UNITS[data.getUint8(1)];
+  if (!unit) return null;
+  const exponent = data.getInt8(2);
+  const raw = Array.from(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)).map(b => b.toString(16).padStart(2, '0')).join(' ');
+  return {
+    value: status === HID_STATUS_ZERO ? 0 : data.getUint16(3, true) * Math.pow(10, exponent),
+    unit,
+    stable: status === HID_STATUS_STABLE || status === HID_STATUS_ZERO,
+    raw
+  };
+};
+
+// --- Asset tags ---
+
+const INSTRUMENT_TAGS_KEY = 'flex_qc_instrument_tags';
+
+const readTags = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(INSTRUMENT_TAGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Stations label their instruments once (e.g. SCALE-03); the tag is what reports record
+export const setAssetTag = (hardwareId: string, tag: string) => {
+  const tags = readTags();
+  if (tag.trim()) tags[hardwareId] = tag.trim().toUpperCase();
+  else delete tags[hardwareId];
+  localStorage.setItem(INSTRUMENT_TAGS_KEY, JSON.stringify(tags));
+};
+
+export const getAssetTag = (hardwareId: string) => readTags()[hardwareId] ?? '';
+
+const hex = (n: number | undefined) => (n ?? 0).toString(16).padStart(4, '0').toUpperCase();
+
+// --- Adapters ---
+
+export interface SerialProfile {
+  id: string;
+  name: string;
+  baudRate: number;
+  // Sent to poll the scale; continuous-output scales need none
+  requestCommand?: string;
+}
+
+export const SERIAL_PROFILES: SerialProfile[] = [
+  { id: 'scale-continuous', name: 'Scale, continuous output (9600 baud)', baudRate: 9600 },
+  { id: 'scale-polled', name: 'Scale, print on request (9600 baud)', baudRate: 9600, requestCommand: 'Q\r\n' },
+  { id: 'tester-115200', name: 'Tester, line output (115200 baud)', baudRate: 115200 }
+];
+
+export const createSerialInstrument = (port: SerialPortLike, profile: SerialProfile, hardwareId: string): InstrumentAdapter => {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  const readLoop = async (emit: (reading: InstrumentReading) => void) => {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    reader = port.readable!.getReader();
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const parsed = parseScaleLine(line);
+          if (parsed) emit({ ...parsed, at: new Date().toISOString() });
+        }
+      }
+    } catch (err) {
+      console.error('Serial read failed:', err);
+    } finally {
+      reader.releaseLock();
+      reader = null;
+    }
+  };
+
+  return {
+    hardwareId,
+    info: { instrumentId: getAssetTag(hardwareId) || hardwareId, kind: 'serial', name: profile.name },
+    connect: async (emit) => {
+      await port.open({ baudRate: profile.baudRate });
+      if (!port.readable) throw new Error('Serial port is not readable');
+      readLoop(emit);
+    },
+    disconnect: async () => {
+      await reader?.cancel().catch(() => {});
+      await port.close().catch(() => {});
+    },
+    requestReading: async () => {
+      if (!profile.requestCommand || !port.writable) return;
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(new TextEncoder().encode(profile.requestCommand));
+      } finally {
+        writer.releaseLock();
+      }
+    }
+  };
+};
+
+export const createHidInstrument = (device: HidDeviceLike, hardwareId: string): InstrumentAdapter => {
+  let listener: ((event: { data: DataView }) => void) | null = null;
+  return {
+    hardwareId,
+    info: { instrumentId: getAssetTag(hardwareId) || hardwareId, kind: 'hid', name: device.productName || 'HID scale' },
+    connect: async (emit) => {
+      await device.open();
+      listener = (event) => {
+        const parsed = parseHidScaleReport(event.data);
+        if (parsed) emit({ ...parsed, at: new Date().toISOString() });
+      };
+      device.addEventListener('inputreport', listener);
+    },
+    disconnect: async () => {
+      if (listener) device.removeEventListener('inputreport', listener);
+      listener = null;
+      await device.close().catch(() => {});
+    }
+  };
+};
+
+export interface SimulatorOptions {
+  nominal: number;
+  unit: string;
+  spread: number; // +/- range of the settled value around nominal
+}
+
+export const SIMULATOR_ID = 'SIM-01';
+
+// Emits scale-style readings that wobble for a moment, then settle near the
+// nominal value. requestReading() places a new load.
+export const createSimulatedInstrument = (options: SimulatorOptions): InstrumentAdapter => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let settled = 0;
+  let ticks = 0;
+  const settle = () => {
+    settled = options.nominal + (Math.random() * 2 - 1) * options.spread;
+    ticks = 0;
+  };
+  return {
+    hardwareId: SIMULATOR_ID,
+    info: { instrumentId: getAssetTag(SIMULATOR_ID) || SIMULATOR_ID, kind: 'simulator', name: `Simulated instrument (${options.nominal} ${options.unit})` },
+    connect: async (emit) => {
+      settle();
+      timer = setInterval(() => {
+        ticks++;
+        const stable = ticks > 4;
+        const value = stable ? settled : settled + (Math.random() * 2 - 1) * Math.max(options.spread, 1) * 3;
+        const rounded = Math.round(value * 10) / 10;
+        const line = `${stable ? 'ST' : 'US'},GS,${rounded.toFixed(1)} ${options.unit}`;
+        emit({ ...parseScaleLine(line)!, at: new Date().toISOString() });
+      }, 400);
+    },
+    disconnect: async () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    requestReading: async () => settle()
+  };
+};
+
+// Browser pickers; must run from a click handler
+export const pickSerialInstrument = async (profile: SerialProfile) => {
+  const serial = webSerial();
+  if (!serial) throw new Error('Web Serial is not available in this browser');
+  const port = await serial.requestPort();
+  const info = port.getInfo();
+  return createSerialInstrument(port, profile, `SER-${hex(info.usbVendorId)}:${hex(info.usbProductId)}`);
+};
+
+export const pickHidInstrument = async () => {
+  const hid = webHid();
+  if (!hid) throw new Error('WebHID is not available in this browser');
+  const [device] = await hid.requestDevice({ filters: [{ usagePage: 0x8d }] });
+  if (!device) throw new Error('No instrument selected');
+  return createHidInstrument(device, `HID-${hex(device.vendorId)}:${hex(device.productId)}`);
+};
+
+// --- Station connection ---
+
+export interface InstrumentState {
+  status: 'disconnected' | 'connecting' | 'connected' | 'error';
+  instrument: InstrumentRef | null;
+  hardwareId: string | null;
+  reading: InstrumentReading | null;
+  error?: string;
+}
+
+let active: InstrumentAdapter | null = null;
+let state: InstrumentState = { status: 'disconnected', instrument: null, hardwareId: null, reading: null };
+const listeners = new Set<(state: InstrumentState) => void>();
+
+const publish = (next: InstrumentState) => {
+  state = next;
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeInstrument = (listener: (state: InstrumentState) => void) => {
+  listeners.add(listener);
+  listener(state);
+  return () => { listeners.delete(listener); };
+};
+
+export const connectInstrument = async (adapter: InstrumentAdapter) => {
+  await disconnectInstrument();
+  active = adapter;
+  publish({ status: 'connecting', instrument: adapter.info, hardwareId: adapter.hardwareId, reading: null });
+  try {
+    await adapter.connect(reading => {
+      if (active === adapter) publish({ ...state, status: 'connected', reading });
+    });
+    publish({ ...state, status: 'connected' });
+  } catch (err) {
+    active = null;
+    await adapter.disconnect().catch(() => {});
+    publish({ status: 'error', instrument: null, hardwareId: null, reading: null, error: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+export const disconnectInstrument = async () => {
+  const current = active;
+  active = null;
+  if (current) await current.disconnect().catch(err => console.error('Instrument disconnect failed:', err));
+  publish({ status: 'disconnected', instrument: null, hardwareId: null, reading: null });
+};
+
+export const requestInstrumentReading = () => active?.requestReading?.() ?? Promise.resolve();
+
+// Renames the connected instrument; later captures record the new tag
+export const tagConnectedInstrument = (tag: string) => {
+  if (!state.instrument || !state.hardwareId) return;
+  setAssetTag(state.hardwareId, tag);
+  const instrument = { ...state.instrument, instrumentId: getAssetTag(state.hardwareId) || state.hardwareId };
+  if (active) active.info = instrument;
+  publish({ ...state, instrument });
+};
@@ -0,0 +1,97 @@
+
+import { Lot, LotSample, QCReport, InspectionLevel, StageId } from '../types';
+import { samplingPlanFor } from './aql';
+import { reportResult } from './rework';
+
+// Lot acceptance sampling on top of the per-unit report flow
+
+export interface NewLot {
+  lotId: string;
+  product: string;
+  line: string;
+  lotSize: number;
+  stage: StageId;
+  level: InspectionLevel;
+  aql: number;
+  // Every serial in the lot, when known; the sample is then drawn from it
+  serials: string[];
+}
+
+// Partial Fisher-Yates shuffle: a uniform random pick of `count` serials
+const drawSample = (serials: string[], count: number) => {
+  const pool = [...serials];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
+
+export const createLot = (input: NewLot, userId: string): Lot => {
+  if (!input.lotId.trim()) throw new Error('Lot number is required');
+  if (!input.product.trim()) throw new Error('Product is required');
+  if (!input.stage) throw new Error('Choose the stage samples are inspected at');
+  const plan = samplingPlanFor(input.lotSize, input.level, input.aql);
+  const serials = Array.from(new Set(input.serials.map(s => s.trim().toUpperCase()).filter(Boolean)));
+  if (serials.length > 0 && serials.length !== input.lotSize) {
+    throw new Error(`The serial list has ${serials.length} unique serials but the lot size is ${input.lotSize}`);
+  }
+  return {
+    lotId: input.lotId.trim().toUpperCase(),
+    product: input.product.trim(),
+    line: input.line.trim(),
+    lotSize: input.lotSize,
+    stage: input.stage,
+    plan,
+    drawnSerials: serials.length > 0 ? drawSample(serials, plan.sampleSize) : [],
+    samples: [],
+    status: 'open',
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+    decidedAt: null
+  };
+};
+
+export const nonconformingCount = (lot: Lot) => lot.samples.filter(s => s.result === 'failed').length;
+
+// Drawn serials still waiting for inspection
+export const remainingSerials = (lot: Lot) =>
+  lot.drawnSerials.filter(serial => !lot.samples.some(s => s.deviceId === serial));
+
+// Reject as soon as Re nonconforming units are found; accept once the whole
+// sample is in with at most Ac
+export const decideLot = (lot: Lot): Lot['status'] => {
+  if (nonconformingCount(lot) >= lot.plan.reject) return 'rejected';
+  if (lot.samples.length >= lot.plan.sampleSize) return 'accepted';
+  return 'open';
+};
+
+export type LotSampleCheck = { ok: true } | { ok: false; reason: string };
+
+export const checkLotSample = (lot: Lot, deviceId: string, stage: StageId): LotSampleCheck => {
+  if (lot.status !== 'open') return { ok: false, reason: `Lot ${lot.lotId} is already ${lot.status}.` };
+  if (lot.stage !== stage) return { ok: false, reason: `Lot ${lot.lotId} is sampled at stage ${lot.stage}.` };
+  if (lot.samples.some(s => s.deviceId === deviceId)) {
+    return { ok: false, reason: `${deviceId} was already sampled in lot ${lot.lotId}. Clear the lot to inspect it on its own.` };
+  }
+  if (lot.drawnSerials.length > 0 && !lot.drawnSerials.includes(deviceId)) {
+    return { ok: false, reason: `${deviceId} was not drawn for lot ${lot.lotId}. Inspect one of the drawn serials.` };
+  }
+  return { ok: true };
+};
+
+// Records a sampled unit's report and re-decides the lot
+export const addLotSample = (lot: Lot, report: QCReport): Lot => {
+  const check = checkLotSample(lot, report.deviceId, report.stage as StageId);
+  if (check.ok === false) throw new Error(check.reason);
+  const sample: LotSample = {
+    deviceId: report.deviceId,
+    reportId: report.id,
+    result: reportResult(report),
+    inspectedAt: report.timestamp,
+    inspectedBy: report.userId
+  };
+  const next: Lot = { ...lot, samples: [...lot.samples, sample] };
+  const status = decideLot(next);
+  return status === 'open' ? next : { ...next, status, decidedAt: report.timestamp };
+};
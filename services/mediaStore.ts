@@ -0,0 +1,96 @@
+
+import { MediaRef, MediaVariant } from '../types';
+import { storageAdapter } from './storageBackend';
+
+// Photos are stored as re-encoded JPEG blobs, and recorded clips as they came
+// from the recorder, on the same backend as the records; reports only carry a
+// MediaRef.
+
+const MAX_DIMENSION = 1600;
+const THUMB_DIMENSION = 400;
+const FULL_QUALITY = 0.8;
+const THUMB_QUALITY = 0.7;
+
+export const loadImage = async (source: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    // Respect EXIF orientation so portrait tablet shots are not rotated
+    return createImageBitmap(source, { imageOrientation: 'from-image' });
+  }
+  const url = URL.createObjectURL(source);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Downscales so the longest side fits maxDimension and re-encodes as JPEG
+const encode = (image: ImageBitmap | HTMLImageElement, maxDimension: number, quality: number): Promise<{ blob: Blob; width: number; height: number }> => {
+  const ratio = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * ratio);
+  const height = Math.round(image.height * ratio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Could not get canvas context'));
+  ctx.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve({ blob, width, height });
+      else reject(new Error('Image encoding failed'));
+    }, 'image/jpeg', quality);
+  });
+};
+
+const generateMediaId = () => `MED-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Compresses a captured photo, stores full image and thumbnail, and returns the reference
+export const saveImage = async (source: Blob): Promise<MediaRef> => {
+  const image = await loadImage(source);
+  const full = await encode(image, MAX_DIMENSION, FULL_QUALITY);
+  const thumb = await encode(image, THUMB_DIMENSION, THUMB_QUALITY);
+  if ('close' in image) image.close();
+
+  const mediaId = generateMediaId();
+  await storageAdapter.putMedia(mediaId, 'full', full.blob);
+  await storageAdapter.putMedia(mediaId, 'thumb', thumb.blob);
+
+  return {
+    mediaId,
+    mimeType: full.blob.type,
+    width: full.width,
+    height: full.height,
+    size: full.blob.size
+  };
+};
+
+// Stores a recorded video or audio clip as-is. Clips have no thumbnail.
+export const saveClip = async (source: Blob, width = 0, height = 0): Promise<MediaRef> => {
+  const mediaId = generateMediaId();
+  await storageAdapter.putMedia(mediaId, 'full', source);
+  return { mediaId, mimeType: source.type, width, height, size: source.size };
+};
+
+// Converts a base64 data URL (as stored by older builds) into a stored media item
+export const importDataUrl = async (dataUrl: string): Promise<MediaRef> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return saveImage(blob);
+};
+
+export const getMediaBlob = (mediaId: string, variant: MediaVariant = 'full'): Promise<Blob | null> =>
+  storageAdapter.getMedia(mediaId, variant);
+
+export const deleteMedia = (mediaId: string) => storageAdapter.removeMedia(mediaId);
+
+// Base64 body of a blob (no data: prefix), for APIs that take images inline
+export const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).slice(String(reader.result).indexOf(',') + 1));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
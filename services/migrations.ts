@@ -0,0 +1,419 @@
+
+import { StorageAdapter, DataCollection, DATA_COLLECTIONS, CollectionMeta, QuarantinedRecord, MigrationReport } from '../types';
+import { importDataUrl } from './mediaStore';
+import { validateRecord } from './validation';
+import { StoredRecord, isBoolean, isList, isNumber, isRecord, isString, isStringList } from './guards';
+import { hashPassword } from './auth';
+import { INITIAL_ADMIN_USER, INITIAL_ADMIN_PASSWORD, DEFAULT_TEMPLATE_IDS, DEFAULT_MIN_EVIDENCE } from '../constants.tsx';
+
+// Every persisted collection carries a schema version in the 'meta' collection.
+// Data written before versioning existed counts as version 0.
+export const SCHEMA_VERSION = 16;
+
+export const MIGRATION_REPORT_KEY = 'migration-report';
+
+// Stored records are untrusted until validateRecord passes after the last
+// step, so migrations read them as plain records and narrow every field they use.
+
+type RecordMigration = (record: StoredRecord) => StoredRecord | Promise<StoredRecord>;
+
+interface Migration {
+  version: number;
+  description: string;
+  // Only collections listed here are touched; the rest just get re-stamped
+  up: Partial<Record<DataCollection, RecordMigration>>;
+}
+
+// A field a step introduces: kept when already set, the fallback when missing.
+// A value of the wrong type fails the step, which quarantines the record.
+const field = <T, F>(record: StoredRecord, name: string, is: (value: unknown) => value is T, fallback: F): T | F => {
+  const value = record[name];
+  if (value === undefined || value === null) return fallback;
+  if (!is(value)) throw new Error(`${name} has an unexpected type`);
+  return value;
+};
+
+// A nested object the step rewrites, e.g. a device's stage map
+const nested = (record: StoredRecord, name: string): StoredRecord => {
+  const value = record[name];
+  if (!isRecord(value)) throw new Error(`${name} must be an object`);
+  return value;
+};
+
+// A nested list the step rewrites, e.g. a report's checkpoints
+const records = (record: StoredRecord, name: string): StoredRecord[] => {
+  const value = record[name];
+  if (!Array.isArray(value) || !value.every(isRecord)) throw new Error(`${name} must be a list of objects`);
+  return value;
+};
+
+// v14: a checkpoint's photo and its markup become the first evidence item
+const toEvidenceList = ({ image, annotations, ...cp }: StoredRecord) => ({
+  ...cp,
+  evidence: image ? [{ kind: 'photo', media: image, annotations: annotations ?? [], durationMs: null }] : [],
+  minEvidence: field(cp, 'minEvidence', isRecord, DEFAULT_MIN_EVIDENCE)
+});
+
+// v16: no checkpoint had AI pre-inspection before
+const withAIInspection = (cp: StoredRecord) => ({
+  ...cp,
+  aiInspect: field(cp, 'aiInspect', isBoolean, false),
+  evidence: records(cp, 'evidence').map(e => ({ ...e, aiInspection: field(e, 'aiInspection', isRecord, null) }))
+});
+
+// Ordered registry. Append new entries with the next version number and bump
+// SCHEMA_VERSION; never edit a migration that has already shipped.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill defaults missing from records written by the first release',
+    up: {
+      users: (user) => ({
+        ...user,
+        isAdmin: field(user, 'isAdmin', isBoolean, false),
+        isActive: field(user, 'isActive', isBoolean, true),
+        assignedStage: field(user, 'assignedStage', isString, null)
+      }),
+      reports: (report) => ({
+        ...report,
+        checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, image: cp.image ?? null, reason: field(cp, 'reason', isString, '') }))
+      }),
+      deviceStatuses: (status) => ({
+        ...status,
+        fqcStatus: field(status, 'fqcStatus', isString, 'pending'),
+        packagingStatus: field(status, 'packagingStatus', isString, 'pending'),
+        lastUpdated: field(status, 'lastUpdated', isString, new Date(0).toISOString())
+      })
+    }
+  },
+  {
+    version: 2,
+    description: 'Move base64 checkpoint photos into the media store',
+    up: {
+      reports: async (report) => ({
+        ...report,
+        checkpoints: await Promise.all(records(report, 'checkpoints').map(async cp => {
+          if (typeof cp.image !== 'string') return cp;
+          return { ...cp, image: cp.image.startsWith('data:') ? await importDataUrl(cp.image) : null };
+        }))
+      })
+    }
+  },
+  {
+    version: 3,
+    description: 'Hash plaintext passwords and add lockout fields',
+    up: {
+      users: async ({ password, ...user }) => ({
+        ...user,
+        // A user without any password stays unhashed and is quarantined by validation
+        passwordHash: user.passwordHash ?? (typeof password === 'string' ? await hashPassword(password) : undefined),
+        // The seeded admin still on its factory password must pick a new one
+        mustChangePassword: field(user, 'mustChangePassword', isBoolean, user.userId === INITIAL_ADMIN_USER.userId && password === INITIAL_ADMIN_PASSWORD),
+        failedAttempts: field(user, 'failedAttempts', isNumber, 0),
+        lockedUntil: field(user, 'lockedUntil', isString, null)
+      })
+    }
+  },
+  {
+    version: 4,
+    description: 'Replace isAdmin/assignedStage with roles and allowed stages',
+    up: {
+      users: ({ isAdmin, assignedStage, ...user }) => ({
+        ...user,
+        role: field(user, 'role', isString, isAdmin ? 'admin' : 'inspector'),
+        allowedStages: field(user, 'allowedStages', isStringList, isAdmin ? ['FQC', 'Packaging'] : isString(assignedStage) && assignedStage ? [assignedStage] : [])
+      })
+    }
+  },
+  {
+    version: 5,
+    description: 'Link reports to version 1 of the standard checklist templates',
+    up: {
+      // Earlier reports were built from the hardcoded lists that became v1 of
+      // the standard templates; checkpoints added on the fly were optional
+      reports: (report) => ({
+        ...report,
+        templateId: field(report, 'templateId', isString, report.stage === 'Packaging' ? DEFAULT_TEMPLATE_IDS.Packaging : DEFAULT_TEMPLATE_IDS.FQC),
+        templateVersion: field(report, 'templateVersion', isNumber, 1),
+        checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, mandatory: field(cp, 'mandatory', isBoolean, !String(cp.id).startsWith('custom_')) }))
+      })
+    }
+  },
+  {
+    version: 6,
+    description: 'Store device status per configured stage; stages now choose their template',
+    up: {
+      deviceStatuses: ({ fqcStatus, packagingStatus, ...status }) => ({
+        ...status,
+        stages: field(status, 'stages', isRecord, { FQC: fqcStatus ?? 'pending', Packaging: packagingStatus ?? 'pending' })
+      }),
+      templates: ({ stage: _stage, ...template }) => template
+    }
+  },
+  {
+    version: 7,
+    description: 'Track inspection attempts for the rework loop',
+    up: {
+      // Earlier reports were not linked to rework; first-pass and reworked
+      // counts are derived from report order, not from this field
+      reports: (report) => ({
+        ...report,
+        attempt: field(report, 'attempt', isNumber, 1),
+        reworkTicketId: field(report, 'reworkTicketId', isString, null)
+      }),
+      stages: (stage) => ({ ...stage, reinspectFailedOnly: field(stage, 'reinspectFailedOnly', isBoolean, false) }),
+      // Failures from before have no ticket to repair against; let them be re-inspected
+      deviceStatuses: (status) => ({
+        ...status,
+        stages: Object.fromEntries(Object.entries(nested(status, 'stages')).map(([stage, state]) => [stage, state === 'failed' ? 'repaired' : state]))
+      })
+    }
+  },
+  {
+    version: 8,
+    description: 'Give checkpoints an answer type; existing ones are Pass/Fail',
+    up: {
+      templates: (template) => ({
+        ...template,
+        checkpoints: records(template, 'checkpoints').map(cp => ({ ...cp, spec: field(cp, 'spec', isRecord, { type: 'pass_fail' }) }))
+      }),
+      reports: (report) => ({
+        ...report,
+        checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, spec: field(cp, 'spec', isRecord, { type: 'pass_fail' }), value: cp.value ?? null }))
+      })
+    }
+  },
+  {
+    version: 9,
+    description: 'Record the instrument a checkpoint value was read from',
+    up: {
+      reports: (report) => ({
+        ...report,
+        checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, instrument: field(cp, 'instrument', isRecord, null) }))
+      })
+    }
+  },
+  {
+    version: 10,
+    description: 'Add defect codes to failed checkpoints; earlier failures keep only their free-text reason',
+    up: {
+      reports: (report) => ({
+        ...report,
+        checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, defects: field(cp, 'defects', isList, []) }))
+      }),
+      reworkTickets: (ticket) => ({
+        ...ticket,
+        failedCheckpoints: records(ticket, 'failedCheckpoints').map(cp => ({ ...cp, defects: field(cp, 'defects', isList, []) }))
+      })
+    }
+  },
+  {
+    version: 11,
+    description: 'Link reports to the lot they were sampled from; earlier reports are per-unit',
+    up: {
+      reports: (report) => ({ ...report, lotId: field(report, 'lotId', isString, null) })
+    }
+  },
+  {
+    version: 12,
+    description: 'Add a repeat inspection policy per stage and link repeat reports; earlier reports stay unlinked',
+    up: {
+      stages: (stage) => ({ ...stage, repeatPolicy: field(stage, 'repeatPolicy', isString, 'warn') }),
+      reports: (report) => ({
+        ...report,
+        previousReportId: field(report, 'previousReportId', isString, null),
+        repeatReason: field(report, 'repeatReason', isString, null)
+      })
+    }
+  },
+  {
+    version: 13,
+    description: 'Add photo annotations to checkpoints; earlier photos have none',
+    up: {
+      reports: (report) => ({ ...report, checkpoints: records(report, 'checkpoints').map(cp => ({ ...cp, annotations: field(cp, 'annotations', isList, []) })) }),
+      drafts: (draft) => ({ ...draft, checkpoints: records(draft, 'checkpoints').map(cp => ({ ...cp, annotations: field(cp, 'annotations', isList, []) })) })
+    }
+  },
+  {
+    version: 14,
+    description: 'Replace the single checkpoint photo with an evidence list and per-checkpoint minimums; existing checkpoints need one photo',
+    up: {
+      templates: (template) => ({
+        ...template,
+        checkpoints: records(template, 'checkpoints').map(cp => ({ ...cp, minEvidence: field(cp, 'minEvidence', isRecord, DEFAULT_MIN_EVIDENCE) }))
+      }),
+      reports: (report) => ({ ...report, checkpoints: records(report, 'checkpoints').map(toEvidenceList) }),
+      drafts: (draft) => ({ ...draft, checkpoints: records(draft, 'checkpoints').map(toEvidenceList) })
+    }
+  },
+  {
+    version: 15,
+    description: 'Choose barcode symbologies per stage (QR and Code 128 by default) and record the one a device ID was scanned from',
+    up: {
+      stages: (stage) => ({ ...stage, symbologies: field(stage, 'symbologies', isStringList, ['qr', 'code128']) }),
+      reports: (report) => ({ ...report, idSymbology: field(report, 'idSymbology', isString, null) }),
+      drafts: (draft) => ({ ...draft, idSymbology: field(draft, 'idSymbology', isString, null) })
+    }
+  },
+  {
+    version: 16,
+    description: 'Add the per-checkpoint AI photo pre-inspection switch (off) and a slot for its verdict on each piece of evidence',
+    up: {
+      templates: (template) => ({
+        ...template,
+        checkpoints: records(template, 'checkpoints').map(cp => ({ ...cp, aiInspect: field(cp, 'aiInspect', isBoolean, false) }))
+      }),
+      reports: (report) => ({ ...report, checkpoints: records(report, 'checkpoints').map(withAIInspection) }),
+      drafts: (draft) => ({ ...draft, checkpoints: records(draft, 'checkpoints').map(withAIInspection) })
+    }
+  }
+];
+
+// Only collections that existed in the localStorage build have legacy data
+const KEY_FIELDS: Partial<Record<DataCollection, string>> = {
+  users: 'userId',
+  reports: 'id',
+  deviceStatuses: 'deviceId'
+};
+
+const quarantine = async (adapter: StorageAdapter, collection: DataCollection, key: string, raw: unknown, reasons: string[], schemaVersion: number) => {
+  const entry: QuarantinedRecord = {
+    id: `QUA-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    collection,
+    key,
+    reasons,
+    raw,
+    schemaVersion,
+    quarantinedAt: new Date().toISOString()
+  };
+  await adapter.put('quarantine', entry.id, entry);
+};
+
+// Keys used by the original localStorage-only build
+const LEGACY_KEYS: Partial<Record<DataCollection, string>> = {
+  users: 'flex_qc_users',
+  reports: 'flex_qc_reports',
+  deviceStatuses: 'flex_qc_device_status'
+};
+
+// Copies data written by the localStorage build into the adapter once, so
+// tablets that already hold reports keep them after the upgrade. Unreadable
+// JSON is quarantined rather than thrown. Imported records are unversioned
+// and go through every migration below.
+const importLegacyData = async (adapter: StorageAdapter) => {
+  if (typeof localStorage === 'undefined') return 0;
+  let imported = 0;
+
+  for (const collection of DATA_COLLECTIONS) {
+    const legacyKey = LEGACY_KEYS[collection];
+    const keyField = KEY_FIELDS[collection];
+    if (!legacyKey || !keyField) continue;
+    const stored = localStorage.getItem(legacyKey);
+    if (stored === null) continue;
+
+    let records: unknown;
+    try {
+      records = JSON.parse(stored);
+    } catch (err) {
+      await quarantine(adapter, collection, legacyKey, stored, [`Unparseable JSON: ${(err as Error).message}`], 0);
+      localStorage.removeItem(legacyKey);
+      continue;
+    }
+
+    for (const [index, record] of (Array.isArray(records) ? records : [records]).entries()) {
+      const key = isRecord(record) ? record[keyField] : undefined;
+      if (typeof key !== 'string' || key === '') {
+        await quarantine(adapter, collection, `${legacyKey}[${index}]`, record, [`${keyField} missing`], 0);
+        continue;
+      }
+      if (!(await adapter.get(collection, key))) {
+        await adapter.put(collection, key, record);
+        imported++;
+      }
+    }
+    localStorage.removeItem(legacyKey);
+    // Imported data predates versioning
+    await adapter.remove('meta', collection);
+  }
+
+  if (imported > 0) console.log(`Imported ${imported} legacy localStorage records into ${adapter.name} storage.`);
+  return imported;
+};
+
+const migrateCollection = async (adapter: StorageAdapter, collection: DataCollection, report: MigrationReport) => {
+  const meta = await adapter.get<CollectionMeta>('meta', collection);
+  const fromVersion = meta?.schemaVersion ?? 0;
+  const summary = { collection, fromVersion, toVersion: fromVersion, applied: [] as string[], migrated: 0, quarantined: 0 };
+  report.collections.push(summary);
+
+  if (fromVersion > SCHEMA_VERSION) {
+    report.errors.push(`${collection} was written by a newer app (schema v${fromVersion}); left untouched.`);
+    return;
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  summary.applied = pending.filter(m => m.up[collection]).map(m => `v${m.version}: ${m.description}`);
+
+  for (const [key, raw] of await adapter.entries<unknown>(collection)) {
+    let record: unknown = raw;
+    let failure: string[] = [];
+    let atVersion = fromVersion;
+    try {
+      for (const migration of pending) {
+        const up = migration.up[collection];
+        if (up) {
+          if (!isRecord(record)) throw new Error('record is not an object');
+          record = await up(record);
+        }
+        atVersion = migration.version;
+      }
+      failure = validateRecord(collection, record);
+    } catch (err) {
+      failure = [`Migration to v${atVersion + 1} failed: ${err instanceof Error ? err.message : String(err)}`];
+    }
+
+    if (failure.length > 0) {
+      await quarantine(adapter, collection, key, raw, failure, fromVersion);
+      await adapter.remove(collection, key);
+      summary.quarantined++;
+    } else if (pending.length > 0 && record !== raw) {
+      await adapter.put(collection, key, record);
+      summary.migrated++;
+    }
+  }
+
+  summary.toVersion = SCHEMA_VERSION;
+  if (fromVersion !== SCHEMA_VERSION || !meta) {
+    await adapter.put<CollectionMeta>('meta', collection, { collection, schemaVersion: SCHEMA_VERSION, migratedAt: new Date().toISOString() });
+  }
+};
+
+// Runs at startup: imports legacy data, upgrades each collection to
+// SCHEMA_VERSION and validates every record, quarantining the ones that fail.
+export const runMigrations = async (adapter: StorageAdapter): Promise<MigrationReport> => {
+  const report: MigrationReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    targetVersion: SCHEMA_VERSION,
+    collections: [],
+    errors: []
+  };
+
+  try {
+    await importLegacyData(adapter);
+  } catch (err) {
+    report.errors.push(`Legacy import failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  for (const collection of DATA_COLLECTIONS) {
+    try {
+      await migrateCollection(adapter, collection, report);
+    } catch (err) {
+      report.errors.push(`${collection}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  await adapter.put('meta', MIGRATION_REPORT_KEY, report);
+  return report;
+};
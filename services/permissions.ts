@@ -0,0 +1,15 @@
+
+import { User, Permission, Stage } from '../types';
+import { ROLE_PERMISSIONS, ROLE_LABELS } from '../constants.tsx';
+
+export const hasPermission = (user: User | null, permission: Permission) =>
+  !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// A user may run a stage's checklist only with the inspect permission and the stage in their list
+export const canInspectStage = (user: User | null, stage: Stage) =>
+  !!stage && hasPermission(user, 'inspect') && user!.allowedStages.includes(stage);
+
+export const describeStageAccess = (user: User) =>
+  hasPermission(user, 'inspect') && user.allowedStages.length > 0
+    ? `You are assigned to ${user.allowedStages.join(' & ')}.`
+    : `${ROLE_LABELS[user.role]} accounts cannot run inspections.`;
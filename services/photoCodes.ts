@@ -0,0 +1,77 @@
+
+import { SerialFormat, Symbology } from '../types';
+import { DecodedCode } from './barcode';
+import { loadImage } from './mediaStore';
+import { createScanWorker } from './scanner';
+import type { ScanReply, ScanRequest } from './scanWorker';
+import { checkSerial } from './serialFormat';
+
+// Serial labels read from the device photo, so the serial field can be
+// filled in from the photo and checked against it.
+
+// Searching a whole photo tile by tile takes a while on older tablets
+const PHOTO_BUDGET_MS = 10000;
+
+export interface PhotoCode {
+  code: DecodedCode;
+  // Where the label is, as fractions of the photo; null if the decoder did not say
+  region: { x: number; y: number; width: number; height: number } | null;
+}
+
+const comparable = (serial: string) => serial.trim().toUpperCase();
+
+export const isSameSerial = (a: string, b: string) => comparable(a) === comparable(b);
+
+// Whether a code passes the active serial formats
+export const isSerialCode = (code: PhotoCode, formats: SerialFormat[]) => checkSerial(code.code.text, formats).ok;
+
+// Decodes every code of the wanted symbologies in the photo, in a worker of its own
+export const readPhotoCodes = async (photo: Blob, symbologies: Symbology[]): Promise<PhotoCode[]> => {
+  const image = await loadImage(photo);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(image, 0, 0);
+  if ('close' in image) image.close();
+  const { width, height } = canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data.buffer;
+
+  const worker = createScanWorker();
+  try {
+    const codes = await new Promise<DecodedCode[]>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Reading the photo took too long')), PHOTO_BUDGET_MS);
+      worker.onmessage = (e: MessageEvent<ScanReply>) => {
+        clearTimeout(timer);
+        resolve(e.data.codes);
+      };
+      const request: ScanRequest = { id: 1, width, height, pixels, symbologies, findAll: true };
+      worker.postMessage(request, [pixels]);
+    });
+    return codes.map(code => ({
+      code,
+      region: code.bounds
+        ? { x: code.bounds.x / width, y: code.bounds.y / height, width: code.bounds.width / width, height: code.bounds.height / height }
+        : null
+    }));
+  } finally {
+    worker.terminate();
+  }
+};
+
+// The code to pre-fill the serial field with: the only code in the photo, or
+// the only one that looks like a serial. Null when the inspector has to pick.
+export const photoSerial = (codes: PhotoCode[], formats: SerialFormat[]) => {
+  if (codes.length === 1) return codes[0].code;
+  const serials = codes.filter(c => isSerialCode(c, formats));
+  return serials.length === 1 ? serials[0].code : null;
+};
+
+// Serial labels in the photo when none of them reads as the serial entered.
+// Other codes in the shot, such as a product EAN, are not compared.
+export const photoMismatch = (serial: string, codes: PhotoCode[], formats: SerialFormat[]) => {
+  const serials = codes.filter(c => isSerialCode(c, formats));
+  if (serial.trim() === '' || serials.some(c => isSameSerial(c.code.text, serial))) return [];
+  return serials.map(c => c.code.text);
+};
@@ -0,0 +1,68 @@
+
+import { StageDefinition, StageId, StageStatus, DeviceStatus } from '../types';
+
+// Routing rules for the configurable inspection pipeline
+
+export const sortStages = (stages: StageDefinition[]) =>
+  [...stages].sort((a, b) => a.order - b.order || a.stageId.localeCompare(b.stageId));
+
+export const stageLabel = (stages: StageDefinition[], stageId: StageId | null) =>
+  stageId ? stages.find(s => s.stageId === stageId)?.label ?? stageId : '';
+
+export const getStageStatus = (status: DeviceStatus | null, stageId: StageId): StageStatus =>
+  status?.stages[stageId] ?? 'pending';
+
+// A prerequisite is met once it is completed or skipped. An optional stage
+// that never ran counts as met; one that failed still blocks.
+const isPrerequisiteMet = (stages: StageDefinition[], status: DeviceStatus | null, prerequisite: StageId) => {
+  const state = getStageStatus(status, prerequisite);
+  if (state === 'completed' || state === 'skipped') return true;
+  const definition = stages.find(s => s.stageId === prerequisite);
+  // Disabled stages no longer gate anything
+  if (!definition || !definition.enabled) return true;
+  return definition.optional && state === 'pending';
+};
+
+export type StageEntryCheck = { ok: true } | { ok: false; reason: string };
+
+export const checkStageEntry = (stages: StageDefinition[], status: DeviceStatus | null, stageId: StageId): StageEntryCheck => {
+  const stage = stages.find(s => s.stageId === stageId);
+  if (!stage || !stage.enabled) return { ok: false, reason: `Stage ${stageId} is not part of the active pipeline.` };
+
+  // A failed device comes back only after a technician records the repair
+  if (getStageStatus(status, stageId) === 'failed') {
+    return { ok: false, reason: `Device failed ${stage.label} and is waiting for rework. Record the repair before re-inspection.` };
+  }
+
+  const unmet = stage.prerequisites.filter(p => !isPrerequisiteMet(stages, status, p));
+  if (unmet.length > 0) {
+    return {
+      ok: false,
+      reason: `Cannot proceed to ${stage.label}. Device must complete ${unmet.map(p => stageLabel(stages, p)).join(', ')} first.`
+    };
+  }
+  return { ok: true };
+};
+
+// Structural checks run before the pipeline is saved
+export const validatePipeline = (stages: StageDefinition[]): string[] => {
+  const errors: string[] = [];
+  const ordered = sortStages(stages);
+  const seen = new Set<StageId>();
+
+  for (const stage of ordered) {
+    if (!/^[A-Za-z0-9_-]+$/.test(stage.stageId)) errors.push(`"${stage.stageId}" is not a valid stage ID (letters, digits, - and _ only)`);
+    if (seen.has(stage.stageId)) errors.push(`Stage ID ${stage.stageId} is used twice`);
+    if (!stage.label.trim()) errors.push(`${stage.stageId} needs a label`);
+    if (!stage.templateId) errors.push(`${stage.label || stage.stageId} needs a checklist template`);
+    if (stage.symbologies.length === 0) errors.push(`${stage.label || stage.stageId} needs at least one barcode type to scan`);
+    for (const prerequisite of stage.prerequisites) {
+      if (prerequisite === stage.stageId) errors.push(`${stage.label} cannot depend on itself`);
+      else if (!stages.some(s => s.stageId === prerequisite)) errors.push(`${stage.label} depends on unknown stage ${prerequisite}`);
+      else if (!seen.has(prerequisite)) errors.push(`${stage.label} depends on ${stageLabel(stages, prerequisite)}, which comes later in the order`);
+    }
+    seen.add(stage.stageId);
+  }
+  if (!stages.some(s => s.enabled)) errors.push('At least one stage must be enabled');
+  return errors;
+};
@@ -0,0 +1,73 @@
+
+// Short video and audio clips recorded in the browser with MediaRecorder
+
+export type ClipKind = 'video' | 'audio';
+
+export interface RecordedClip {
+  blob: Blob;
+  durationMs: number;
+  width: number;
+  height: number;
+}
+
+export interface Recording {
+  // Live camera or microphone stream, for the preview
+  stream: MediaStream;
+  stop: () => Promise<RecordedClip>;
+  cancel: () => void;
+}
+
+// First supported container wins; Safari only records MP4
+const MIME_CANDIDATES: Record<ClipKind, string[]> = {
+  video: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'],
+  audio: ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg']
+};
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const startRecording = async (kind: ClipKind): Promise<Recording> => {
+  const stream = await navigator.mediaDevices.getUserMedia(
+    kind === 'video' ? { video: { facingMode: 'environment' }, audio: true } : { audio: true }
+  );
+  const stopTracks = () => stream.getTracks().forEach(track => track.stop());
+
+  const mimeType = MIME_CANDIDATES[kind].find(type => MediaRecorder.isTypeSupported(type));
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  } catch (err) {
+    stopTracks();
+    throw err;
+  }
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const startedAt = Date.now();
+  recorder.start();
+
+  const stop = () => new Promise<RecordedClip>((resolve, reject) => {
+    if (recorder.state === 'inactive') {
+      reject(new Error('Recording already stopped'));
+      return;
+    }
+    const settings = stream.getVideoTracks()[0]?.getSettings();
+    recorder.onstop = () => {
+      stopTracks();
+      resolve({
+        blob: new Blob(chunks, { type: recorder.mimeType || mimeType || `${kind}/webm` }),
+        durationMs: Date.now() - startedAt,
+        width: settings?.width ?? 0,
+        height: settings?.height ?? 0
+      });
+    };
+    recorder.stop();
+  });
+
+  const cancel = () => {
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    stopTracks();
+  };
+
+  return { stream, stop, cancel };
+};
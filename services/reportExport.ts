@@ -0,0 +1,109 @@
+
+import { QCReport, StageDefinition } from '../types';
+import { formatValue } from './checkpointSpec';
+import { highestSeverity } from './defects';
+import { ManifestRow } from './aggregation';
+
+// CSV builders shared by the dashboard and the admin console
+
+const escape = (val: unknown) => `"${String(val ?? '').replace(/"/g, '""')}"`;
+
+const toCsv = (headers: string[], rows: unknown[][]) =>
+  [headers.join(','), ...rows.map(row => row.map(escape).join(','))].join('\n');
+
+const failedDefects = (report: QCReport) =>
+  report.checkpoints.filter(cp => cp.status === 'Fail').flatMap(cp => cp.defects);
+
+// One row per report, checkpoints summarised in a single column
+export const reportsToCsv = (reports: QCReport[]) => toCsv(
+  ['Report ID', 'Timestamp', 'Stage', 'User ID', 'Device ID', 'ID Scanned As', 'Template', 'Attempt', 'Rework Ticket', 'Previous Report', 'Repeat Reason', 'Lot', 'Defect Codes', 'Worst Severity', 'Checkpoints Summary'],
+  reports.map(r => [
+    r.id,
+    r.timestamp,
+    r.stage,
+    r.userId,
+    r.deviceId,
+    r.idSymbology,
+    `${r.templateId} v${r.templateVersion}`,
+    r.attempt,
+    r.reworkTicketId,
+    r.previousReportId,
+    r.repeatReason,
+    r.lotId,
+    failedDefects(r).map(d => d.code).join('; '),
+    highestSeverity(failedDefects(r)),
+    r.checkpoints.map(cp => {
+      const value = [formatValue(cp.spec, cp.value), cp.instrument?.instrumentId].filter(Boolean).join(', ');
+      const defects = cp.defects.map(d => d.code).join(', ');
+      return `${cp.label}: ${cp.status || 'N/A'}${value ? ` [${value}]` : ''}${cp.status === 'Fail' ? ` (${defects ? `Defects: ${defects}; ` : ''}Reason: ${cp.reason || 'Not provided'})` : ''}`;
+    }).join(' | ')
+  ])
+);
+
+// One row per answered checkpoint with its raw value and limits, for trending
+export const measurementsToCsv = (reports: QCReport[]) => toCsv(
+  ['Report ID', 'Timestamp', 'Stage', 'Device ID', 'Template', 'Checkpoint ID', 'Checkpoint', 'Type', 'Value', 'Unit', 'LSL', 'USL', 'Result', 'Instrument'],
+  reports.flatMap(r => r.checkpoints
+    .filter(cp => cp.status !== null || cp.value !== null)
+    .map(cp => [
+      r.id,
+      r.timestamp,
+      r.stage,
+      r.deviceId,
+      `${r.templateId} v${r.templateVersion}`,
+      cp.id,
+      cp.label,
+      cp.spec.type,
+      // Numbers stay bare so spreadsheets can chart them
+      typeof cp.value === 'number' ? cp.value : formatValue({ ...cp.spec, unit: '' }, cp.value),
+      cp.spec.unit,
+      cp.spec.lsl,
+      cp.spec.usl,
+      cp.status,
+      cp.instrument?.instrumentId
+    ]))
+);
+
+// One row per defect code picked on a failed checkpoint; failures recorded
+// without a code get a single row with the code left empty
+export const defectsToCsv = (reports: QCReport[]) => toCsv(
+  ['Report ID', 'Timestamp', 'Stage', 'User ID', 'Device ID', 'Attempt', 'Checkpoint ID', 'Checkpoint', 'Defect Code', 'Description', 'Category', 'Severity', 'Notes'],
+  reports.flatMap(r => r.checkpoints
+    .filter(cp => cp.status === 'Fail')
+    .flatMap(cp => (cp.defects.length > 0 ? cp.defects : [null]).map(d => [
+      r.id,
+      r.timestamp,
+      r.stage,
+      r.userId,
+      r.deviceId,
+      r.attempt,
+      cp.id,
+      cp.label,
+      d?.code,
+      d?.description,
+      d?.category,
+      d?.severity,
+      cp.reason
+    ])))
+);
+
+// Shipping manifest: one row per serial with its report ID at each stage
+export const manifestToCsv = (rows: ManifestRow[], stages: StageDefinition[]) => toCsv(
+  ['Pallet ID', 'Carton ID', 'Serial', ...stages.map(s => `${s.label} Report ID`)],
+  rows.map(row => [row.palletId, row.cartonId, row.serial, ...stages.map(s => row.reports[s.stageId])])
+);
+
+export const downloadCsv = (content: string, filename: string) => downloadFile(content, filename, 'text/csv;charset=utf-8;');
+
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
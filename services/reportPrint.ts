@@ -0,0 +1,123 @@
+
+import { Annotation, MediaRef, QCReport, StageDefinition } from '../types';
+import { formatValue } from './checkpointSpec';
+import { drawAnnotations } from './annotations';
+import { aiVerdict, formatDuration } from './evidence';
+import { getMediaBlob, loadImage } from './mediaStore';
+import { stageLabel } from './pipeline';
+import { reportResult } from './rework';
+
+// Printable single-report page. The browser's print dialog also saves it as PDF.
+
+const escapeHtml = (val: unknown) => String(val ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// The full photo with its markup drawn in, as a data URL for the page.
+// Only the copy on the page carries the markup; the stored photo is untouched.
+const annotatedPhoto = async (media: MediaRef, annotations: Annotation[]) => {
+  const blob = await getMediaBlob(media.mediaId, 'full');
+  if (!blob) return null;
+  const image = await loadImage(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0);
+  if ('close' in image) image.close();
+  drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// photos maps a media ID to its printable data URL
+export const reportHtml = (report: QCReport, stages: StageDefinition[], photos: Map<string, string>) => {
+  const result = reportResult(report);
+  const rows = report.checkpoints.map(cp => {
+    const marks = cp.evidence.reduce((n, e) => n + e.annotations.length, 0);
+    // Clips cannot be printed; the page says where to play them
+    const clips = cp.evidence.filter(e => e.kind !== 'photo')
+      .map(e => `${e.kind === 'video' ? 'Video' : 'Audio'} clip${e.durationMs !== null ? ` (${formatDuration(e.durationMs)})` : ''}`);
+    // Photos the storage backend could not return are counted instead of printed
+    const unavailable = cp.evidence.filter(e => e.kind === 'photo' && !photos.has(e.media.mediaId)).length;
+    const suggested = aiVerdict(cp);
+    const ai = suggested
+      ? `AI pre-inspection suggested ${suggested} (${cp.evidence.flatMap(e => e.aiInspection ? [`${Math.round(e.aiInspection.confidence * 100)}%`] : []).join(', ')})${cp.status && cp.status !== suggested ? `; inspector decided ${cp.status}` : ''}`
+      : '';
+    const failure = cp.status === 'Fail'
+      ? [cp.defects.map(d => `${d.code} ${d.description}`).join('; '), cp.reason].filter(Boolean).join(' · ')
+      : '';
+    return `
+      <section class="checkpoint">
+        <h3>${escapeHtml(cp.label)} <span class="${cp.status === 'Fail' ? 'fail' : 'pass'}">${escapeHtml(cp.status ?? 'N/A')}</span></h3>
+        ${cp.value !== null ? `<p>${escapeHtml(formatValue(cp.spec, cp.value))}${cp.instrument ? ` (${escapeHtml(cp.instrument.instrumentId)})` : ''}</p>` : ''}
+        ${failure ? `<p class="fail">${escapeHtml(failure)}</p>` : ''}
+        ${cp.evidence.filter(e => photos.has(e.media.mediaId)).map(e => `<img src="${photos.get(e.media.mediaId)}" alt="${escapeHtml(cp.label)}">`).join('')}
+        ${unavailable > 0 ? `<p class="note">${unavailable} photo${unavailable === 1 ? '' : 's'} unavailable in storage, not printed</p>` : ''}
+        ${marks > 0 ? `<p class="note">${marks} mark${marks === 1 ? '' : 's'} drawn on the photos</p>` : ''}
+        ${ai ? `<p class="note">${escapeHtml(ai)}</p>` : ''}
+        ${clips.length > 0 ? `<p class="note">${escapeHtml(clips.join(', '))}: play in the app under Device History</p>` : ''}
+      </section>`;
+  }).join('');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.id)}</title>
+<style>
+  body { font-family: sans-serif; margin: 24px; color: #111; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font-size: 12px; }
+  dt { font-weight: bold; color: #555; }
+  .checkpoint { border-top: 1px solid #ddd; padding: 8px 0; break-inside: avoid; }
+  .checkpoint h3 { font-size: 14px; margin: 0 0 4px; }
+  .checkpoint p { font-size: 12px; margin: 2px 0; }
+  .checkpoint img { max-width: 100%; max-height: 360px; margin: 4px 4px 0 0; }
+  .pass { color: #15803d; }
+  .fail { color: #b91c1c; }
+  .note { color: #555; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>QC Report ${escapeHtml(report.id)} <span class="${result === 'failed' ? 'fail' : 'pass'}">${result.toUpperCase()}</span></h1>
+<dl>
+  <dt>Device</dt><dd>${escapeHtml(report.deviceId)}</dd>
+  <dt>Stage</dt><dd>${escapeHtml(stageLabel(stages, report.stage))}</dd>
+  <dt>Inspector</dt><dd>${escapeHtml(report.userId)}</dd>
+  <dt>Submitted</dt><dd>${escapeHtml(new Date(report.timestamp).toLocaleString())}</dd>
+  <dt>Template</dt><dd>${escapeHtml(`${report.templateId} v${report.templateVersion}`)}</dd>
+  <dt>Attempt</dt><dd>${report.attempt}</dd>
+  ${report.lotId ? `<dt>Lot</dt><dd>${escapeHtml(report.lotId)}</dd>` : ''}
+  ${report.repeatReason ? `<dt>Repeat reason</dt><dd>${escapeHtml(report.repeatReason)}</dd>` : ''}
+</dl>
+${rows}
+</body>
+</html>`;
+};
+
+// Opens the report in a new window and starts printing once its photos have
+// loaded. The window is opened first so pop-up blockers see the click.
+export const printReport = async (report: QCReport, stages: StageDefinition[]) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups for this site to print reports.');
+  win.document.write('<p style="font-family: sans-serif">Preparing report...</p>');
+
+  const photos = new Map<string, string>();
+  for (const e of report.checkpoints.flatMap(cp => cp.evidence).filter(e => e.kind === 'photo')) {
+    const photo = await annotatedPhoto(e.media, e.annotations).catch(err => {
+      console.error('Failed to render photo for printing:', err);
+      return null;
+    });
+    if (photo) photos.set(e.media.mediaId, photo);
+  }
+
+  win.document.open();
+  win.document.write(reportHtml(report, stages, photos));
+  win.document.close();
+  await Promise.all(Array.from(win.document.images).map(img => img.decode().catch(() => undefined)));
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,77 @@
+
+import { QCReport, ReworkTicket, StageId } from '../types';
+
+// Rules for the fail → repair → re-inspect loop
+
+export const reportResult = (report: QCReport): 'passed' | 'failed' =>
+  report.checkpoints.some(cp => cp.status === 'Fail') ? 'failed' : 'passed';
+
+// One ticket per failing report, so the ID can be derived from it
+export const openReworkTicket = (report: QCReport): ReworkTicket => ({
+  ticketId: `RWK-${report.id}`,
+  deviceId: report.deviceId,
+  stage: report.stage as StageId,
+  attempt: report.attempt,
+  reportId: report.id,
+  failedCheckpoints: report.checkpoints
+    .filter(cp => cp.status === 'Fail')
+    .map(cp => ({ id: cp.id, label: cp.label, defects: cp.defects, reason: cp.reason })),
+  status: 'open',
+  openedAt: report.timestamp,
+  openedBy: report.userId,
+  repair: null,
+  reinspectionReportId: null,
+  outcome: null,
+  closedAt: null
+});
+
+export const closeReworkTicket = (ticket: ReworkTicket, reinspection: QCReport): ReworkTicket => ({
+  ...ticket,
+  status: 'closed',
+  reinspectionReportId: reinspection.id,
+  outcome: reportResult(reinspection),
+  closedAt: reinspection.timestamp
+});
+
+export interface UnitSummary {
+  firstPass: number; // passed on the first inspection
+  reworked: number;  // passed after at least one failure
+  inRework: number;  // latest inspection failed
+}
+
+// Counts device/stage units from the report history rather than the stored
+// attempt number, so reports written before rework tracking count correctly
+export const summarizeUnits = (reports: QCReport[], stage?: StageId): UnitSummary => {
+  const units = new Map<string, QCReport[]>();
+  for (const report of reports) {
+    if (!report.stage || (stage && report.stage !== stage)) continue;
+    const key = `${report.deviceId}|${report.stage}`;
+    units.set(key, [...(units.get(key) ?? []), report]);
+  }
+
+  const summary: UnitSummary = { firstPass: 0, reworked: 0, inRework: 0 };
+  for (const history of units.values()) {
+    const ordered = [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (reportResult(ordered[ordered.length - 1]) === 'failed') summary.inRework++;
+    else if (ordered.some(r => reportResult(r) === 'failed')) summary.reworked++;
+    else summary.firstPass++;
+  }
+  return summary;
+};
+
+export type HistoryEvent =
+  | { kind: 'inspection'; at: string; report: QCReport; result: 'passed' | 'failed' }
+  | { kind: 'repair'; at: string; ticket: ReworkTicket };
+
+// Every inspection attempt and recorded repair for one device, oldest first
+export const deviceHistory = (deviceId: string, reports: QCReport[], tickets: ReworkTicket[]): HistoryEvent[] => {
+  const events: HistoryEvent[] = [
+    ...reports
+      .filter(r => r.deviceId === deviceId)
+      .map(report => ({ kind: 'inspection' as const, at: report.timestamp, report, result: reportResult(report) })),
+    ...tickets
+      .filter(t => t.deviceId === deviceId && t.repair)
+      .map(ticket => ({ kind: 'repair' as const, at: ticket.repair!.repairedAt, ticket }))
+  ];
+  return events.sort((a, b) => a.at.localeCompare(b.at));
+};
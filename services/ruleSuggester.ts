@@ -0,0 +1,35 @@
+
+import { AIProvider } from '../types';
+
+// Offline failure reasons picked by keywords in the checkpoint label. Always
+// answers, and always the same way for the same label, so it backs up the
+// AI providers when the network or the provider is down. It cannot look at
+// photos, so offline there is no pre-inspection.
+
+const RULES: { pattern: RegExp; reason: string }[] = [
+  { pattern: /scratch|crack|dent|cosmetic|outer body/i, reason: 'Cosmetic damage (scratch, crack or dent) found on the enclosure surface.' },
+  { pattern: /screw|mount|fixed|fastened/i, reason: 'Fastener missing or not seated to specification.' },
+  { pattern: /display|segment|screen|brightness|contrast/i, reason: 'Display defect: missing segments, spots or incorrect brightness/contrast.' },
+  { pattern: /keypad|button|key\b/i, reason: 'Keypad defect: button missing, misaligned or legend not legible.' },
+  { pattern: /usb|connector|port|pin/i, reason: 'Connector damaged, misaligned or not making contact.' },
+  { pattern: /led|power on|charg/i, reason: 'Power or charging indication not working as expected.' },
+  { pattern: /speaker|sound|voice|audio/i, reason: 'Audio output distorted, weak or absent.' },
+  { pattern: /battery/i, reason: 'Battery cover or sticker not fitted to standard.' },
+  { pattern: /device id|serial/i, reason: 'Device ID does not match across the required references.' },
+  { pattern: /laser|marking|label|print|sticker/i, reason: 'Marking or label incorrect, misplaced or not clearly printed.' },
+  { pattern: /weight/i, reason: 'Packed weight outside the approved range; check for missing or extra contents.' },
+  { pattern: /seal|wrap|sleeve|closed/i, reason: 'Packaging not closed, sealed or sleeved as per standard.' },
+  { pattern: /box|insert|manual|guide|adapter|cable|case|pack/i, reason: 'Packaging content missing or packed incorrectly.' }
+];
+
+export const ruleSuggester: AIProvider = {
+  id: 'rules',
+
+  suggestFailureReason: async ({ checkpointLabel, stage }) =>
+    RULES.find(r => r.pattern.test(checkpointLabel))?.reason
+      ?? `Checkpoint did not meet the ${stage} acceptance criteria; further investigation required.`,
+
+  inspectPhoto: async () => {
+    throw new Error('Photo inspection needs an AI provider');
+  }
+};
@@ -0,0 +1,39 @@
+
+import { decodeAll, decodeFrame, DecodedCode } from './barcode';
+import { Symbology } from '../types';
+
+// Decodes scan frames off the main thread. Each request carries one RGBA
+// frame (a cropped live frame or a whole still photo); the reply echoes its ID.
+
+export interface ScanRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: ArrayBuffer;
+  symbologies: Symbology[];
+  // Stills are searched for every code; live frames stop at the first
+  findAll: boolean;
+}
+
+export interface ScanReply {
+  id: number;
+  codes: DecodedCode[];
+}
+
+self.onmessage = (e: MessageEvent<ScanRequest>) => {
+  const { id, width, height, pixels, symbologies, findAll } = e.data;
+  let codes: DecodedCode[] = [];
+  try {
+    const frame = new ImageData(new Uint8ClampedArray(pixels), width, height);
+    if (findAll) {
+      codes = decodeAll(frame, symbologies);
+    } else {
+      const code = decodeFrame(frame, symbologies);
+      if (code) codes = [code];
+    }
+  } catch (err) {
+    console.error('Scan decode failed:', err);
+  }
+  const reply: ScanReply = { id, codes };
+  self.postMessage(reply);
+};
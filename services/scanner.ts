@@ -0,0 +1,144 @@
+
+import { Symbology } from '../types';
+import { DecodedCode } from './barcode';
+import type { ScanReply, ScanRequest } from './scanWorker';
+
+// Camera scan pipeline for device IDs. One loop per scan session crops each
+// frame to the on-screen guide box, downsamples it and hands it to a Web
+// Worker. Only one frame is in flight at a time, so a slow decode drops
+// frames instead of queueing them.
+
+// Guide box as fractions of the visible preview; wide enough for a Code 128 label
+export const SCAN_GUIDE = { x: 0.1, y: 0.3, width: 0.8, height: 0.4 };
+
+// Longest side of the frame sent to the decoder
+const MAX_FRAME_DIMENSION = 800;
+const FRAME_INTERVAL_MS = 100;
+// A decode that takes longer than this is abandoned and the worker restarted
+const DECODE_BUDGET_MS = 1500;
+// A code counts once it is read twice in a row within this window
+const CONFIRM_WINDOW_MS = 1500;
+
+export interface CameraControls {
+  torch: boolean;
+  zoom: { min: number; max: number; step: number } | null;
+}
+
+export const openCamera = () =>
+  navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } });
+
+export const closeCamera = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+// Image capture extensions to the track API; lib.dom does not type these yet
+type TorchZoomCapabilities = MediaTrackCapabilities & { torch?: boolean; zoom?: { min: number; max: number; step: number } };
+type TorchZoomConstraints = MediaTrackConstraintSet & { torch?: boolean; zoom?: number };
+
+// Torch and zoom are only offered where the camera reports them (mostly Chrome on Android)
+export const cameraControls = (stream: MediaStream): CameraControls => {
+  const capabilities: TorchZoomCapabilities = stream.getVideoTracks()[0]?.getCapabilities?.() ?? {};
+  return {
+    torch: !!capabilities.torch,
+    zoom: capabilities.zoom ? { min: capabilities.zoom.min, max: capabilities.zoom.max, step: capabilities.zoom.step || 0.1 } : null
+  };
+};
+
+const applyAdvanced = (stream: MediaStream, constraints: TorchZoomConstraints) =>
+  stream.getVideoTracks()[0].applyConstraints({ advanced: [constraints] });
+
+export const setTorch = (stream: MediaStream, on: boolean) => applyAdvanced(stream, { torch: on });
+
+export const setZoom = (stream: MediaStream, zoom: number) => applyAdvanced(stream, { zoom });
+
+// Part of the video frame under the guide box. The preview uses object-cover,
+// so the visible area is the centre of the frame scaled to fill the element.
+const guideRect = (video: HTMLVideoElement) => {
+  const scale = Math.max(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+  const visibleWidth = video.clientWidth / scale;
+  const visibleHeight = video.clientHeight / scale;
+  const left = (video.videoWidth - visibleWidth) / 2;
+  const top = (video.videoHeight - visibleHeight) / 2;
+  return {
+    sx: left + SCAN_GUIDE.x * visibleWidth,
+    sy: top + SCAN_GUIDE.y * visibleHeight,
+    sw: SCAN_GUIDE.width * visibleWidth,
+    sh: SCAN_GUIDE.height * visibleHeight
+  };
+};
+
+export const createScanWorker = () => new Worker(new URL('./scanWorker.ts', import.meta.url), { type: 'module' });
+
+export interface ScanLoopOptions {
+  symbologies: Symbology[];
+  onDetect: (code: DecodedCode) => void;
+}
+
+// Starts scanning a playing preview. The loop stops itself after a confirmed
+// read; the returned function stops it early. Neither can be restarted.
+export const startScanLoop = (video: HTMLVideoElement, { symbologies, onDetect }: ScanLoopOptions) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let worker: Worker | null = null;
+  let pending: { id: number; sentAt: number } | null = null;
+  let nextId = 1;
+  let lastRead: { code: DecodedCode; at: number } | null = null;
+  // One canvas for the whole session, resized only when the crop changes
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    worker?.terminate();
+    worker = null;
+  };
+
+  const handleReply = (e: MessageEvent<ScanReply>) => {
+    if (stopped || e.data.id !== pending?.id) return;
+    pending = null;
+    const code = e.data.codes[0];
+    if (!code) return;
+    const now = Date.now();
+    const confirmed = lastRead && lastRead.code.text === code.text && lastRead.code.symbology === code.symbology && now - lastRead.at <= CONFIRM_WINDOW_MS;
+    if (confirmed) {
+      stop();
+      onDetect(code);
+      return;
+    }
+    lastRead = { code, at: now };
+  };
+
+  const spawn = () => {
+    worker = createScanWorker();
+    worker.onmessage = handleReply;
+  };
+
+  const tick = () => {
+    timer = null;
+    if (stopped) return;
+    if (pending && Date.now() - pending.sentAt > DECODE_BUDGET_MS) {
+      worker?.terminate();
+      spawn();
+      pending = null;
+    }
+    if (!pending && ctx && worker && video.readyState >= video.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+      const { sx, sy, sw, sh } = guideRect(video);
+      const ratio = Math.min(1, MAX_FRAME_DIMENSION / Math.max(sw, sh));
+      const width = Math.round(sw * ratio);
+      const height = Math.round(sh * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.drawImage(video, sx, sy, sw, sh, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height).data.buffer;
+      pending = { id: nextId++, sentAt: Date.now() };
+      const request: ScanRequest = { id: pending.id, width, height, pixels, symbologies, findAll: false };
+      worker.postMessage(request, [pixels]);
+    }
+    timer = setTimeout(tick, FRAME_INTERVAL_MS);
+  };
+
+  spawn();
+  tick();
+  return stop;
+};
@@ -0,0 +1,116 @@
+
+import { SerialFormat, CheckDigitScheme } from '../types';
+
+// Serial number rules enforced on device entry
+
+export const CHECK_DIGIT_SCHEMES: { scheme: CheckDigitScheme; label: string }[] = [
+  { scheme: 'none', label: 'No check digit' },
+  { scheme: 'luhn', label: 'Luhn (mod 10)' },
+  { scheme: 'mod11', label: 'Mod 11 (digits, X = 10)' },
+  { scheme: 'mod37_36', label: 'ISO 7064 Mod 37,36 (letters and digits)' }
+];
+
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Digits are worth 0-9 and letters A-Z 10-35
+const charValue = (c: string) => ALPHANUMERIC.indexOf(c);
+
+// Letters count as their two-digit value, as in ISIN
+const luhnValid = (chars: string) => {
+  if (!/[0-9]$/.test(chars)) return false;
+  const digits = chars.split('').map(c => String(charValue(c))).join('');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) d = d * 2 > 9 ? d * 2 - 9 : d * 2;
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+// Weights 1, 2, 3... from the right, check character included
+const mod11Valid = (chars: string) => {
+  if (!/^[0-9]+[0-9X]$/.test(chars)) return false;
+  const sum = chars.split('').reverse().reduce((total, c, i) => total + (c === 'X' ? 10 : Number(c)) * (i + 1), 0);
+  return sum % 11 === 0;
+};
+
+// ISO 7064 hybrid system with M = 36
+const mod37_36Valid = (chars: string) => {
+  let p = 36;
+  let s = 0;
+  for (const c of chars) {
+    s = (p + charValue(c)) % 36 || 36;
+    p = (s * 2) % 37;
+  }
+  return s === 1;
+};
+
+const isCheckValid = (scheme: CheckDigitScheme, chars: string) => {
+  if (chars.length < 2) return false;
+  switch (scheme) {
+    case 'luhn': return luhnValid(chars);
+    case 'mod11': return mod11Valid(chars);
+    case 'mod37_36': return mod37_36Valid(chars);
+    default: return true;
+  }
+};
+
+// Check character that would make the payload valid, or null if none can
+export const checkCharFor = (scheme: CheckDigitScheme, payload: string) =>
+  ALPHANUMERIC.split('').find(c => isCheckValid(scheme, payload + c)) ?? null;
+
+const compile = (pattern: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+// Letters and digits covered by the check digit, check character last
+const checkedChars = (match: RegExpExecArray) => (match[1] ?? match[0]).toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+export type SerialCheck = { ok: true; format: SerialFormat | null } | { ok: false; reason: string };
+
+export const checkSerial = (serial: string, formats: SerialFormat[]): SerialCheck => {
+  const active = formats.filter(f => f.active);
+  if (active.length === 0) return { ok: true, format: null };
+  let checkFailure = '';
+  for (const format of active) {
+    const match = compile(format.pattern)?.exec(serial);
+    if (!match) continue;
+    const chars = checkedChars(match);
+    if (format.checkDigit === 'none' || isCheckValid(format.checkDigit, chars)) return { ok: true, format };
+    const expected = checkCharFor(format.checkDigit, chars.slice(0, -1));
+    checkFailure = `${serial} fails the ${format.label} check digit${expected ? ` (expected ${expected})` : ''}.`;
+  }
+  return {
+    ok: false,
+    reason: checkFailure || `${serial} does not match the serial format${active.length > 1 ? 's' : ''} ${active.map(f => f.label).join(', ')}.`
+  };
+};
+
+// Problems that stop the serial formats from being saved
+export const validateSerialFormats = (formats: SerialFormat[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  formats.forEach((f, i) => {
+    const name = f.label || `Format ${i + 1}`;
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(f.formatId)) errors.push(`${name}: IDs use lower-case letters, digits, "-" and "_"`);
+    if (seen.has(f.formatId)) errors.push(`${name}: duplicate ID`);
+    seen.add(f.formatId);
+    if (!f.label.trim()) errors.push(`${name}: needs a label`);
+    if (!f.pattern.trim() || !compile(f.pattern)) {
+      errors.push(`${name}: pattern is not a valid regular expression`);
+      return;
+    }
+    if (!f.example.trim()) {
+      errors.push(`${name}: needs an example serial`);
+      return;
+    }
+    const check = checkSerial(f.example, [{ ...f, active: true }]);
+    if (check.ok === false) errors.push(`${name}: example ${check.reason}`);
+  });
+  return errors;
+};
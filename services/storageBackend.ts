@@ -0,0 +1,18 @@
+
+import { StorageAdapter } from '../types';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createHttpAdapter } from './httpAdapter';
+
+// Backend is chosen at build time: QC_STORAGE_BACKEND=indexeddb (default) keeps
+// data on the tablet, QC_STORAGE_BACKEND=http shares it through QC_API_URL.
+const resolveAdapter = (): StorageAdapter => {
+  const backend = (process.env.QC_STORAGE_BACKEND || 'indexeddb').toLowerCase();
+  if (backend === 'http') {
+    return createHttpAdapter(process.env.QC_API_URL || 'http://localhost:4000/api');
+  }
+  return createIndexedDbAdapter();
+};
+
+// Shared by the repository and the media store so records and their photos
+// always live on the same backend
+export const storageAdapter: StorageAdapter = resolveAdapter();
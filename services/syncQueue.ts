@@ -0,0 +1,233 @@
+
+import { QCReport, DeviceStatus, DeviceStatusChange, OutboxEntry, StatusVersion, SyncStats } from '../types';
+import { openIndexedDb, runRequest } from './idb';
+
+// Local outbox of reports and device status changes waiting to be pushed to
+// QC_SYNC_URL. Entries survive reloads and are retried with exponential backoff.
+const DB_NAME = 'flex_qc_sync';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+const STATION_ID_KEY = 'flex_qc_station_id';
+const POLL_INTERVAL_MS = 15000;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 6;
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const syncUrl = (process.env.QC_SYNC_URL || '').replace(/\/+$/, '');
+
+type StatusResolvedHandler = (status: DeviceStatus) => Promise<void>;
+
+let flushing = false;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let onStatusResolved: StatusResolvedHandler | null = null;
+const listeners = new Set<(stats: SyncStats) => void>();
+
+const openOutbox = () => openIndexedDb(DB_NAME, DB_VERSION, [OUTBOX_STORE]);
+
+const listEntries = async () => {
+  const db = await openOutbox();
+  return runRequest<OutboxEntry[]>(db, OUTBOX_STORE, 'readonly', store => store.getAll());
+};
+
+const putEntry = async (entry: OutboxEntry) => {
+  const db = await openOutbox();
+  await runRequest(db, OUTBOX_STORE, 'readwrite', store => store.put(entry, entry.id));
+};
+
+const deleteEntry = async (id: string) => {
+  const db = await openOutbox();
+  await runRequest(db, OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Stable identifier for this tablet, used as the conflict tie-breaker
+export const getStationId = (): string => {
+  let id = localStorage.getItem(STATION_ID_KEY);
+  if (!id) {
+    id = `ST-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`.toUpperCase();
+    localStorage.setItem(STATION_ID_KEY, id);
+  }
+  return id;
+};
+
+// --- Conflict resolution -----------------------------------------------------
+// Each stage is resolved independently: the change with the later updatedAt
+// wins, and equal timestamps fall back to comparing station IDs. The merge is
+// commutative, so every tablet and the server converge on the same result
+// regardless of the order in which changes arrive.
+
+const compareVersions = (a?: StatusVersion, b?: StatusVersion) => {
+  if (!a && !b) return 0;
+  if (!a) return -1;
+  if (!b) return 1;
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? -1 : 1;
+  if (a.stationId !== b.stationId) return a.stationId < b.stationId ? -1 : 1;
+  return 0;
+};
+
+export const mergeDeviceStatus = (a: DeviceStatus, b: DeviceStatus): DeviceStatus => {
+  const stageIds = Array.from(new Set([...Object.keys(a.stages), ...Object.keys(b.stages)])).sort();
+  const stages: DeviceStatus['stages'] = {};
+  const versions: NonNullable<DeviceStatus['versions']> = {};
+
+  for (const stageId of stageIds) {
+    const [winner, loser] = compareVersions(a.versions?.[stageId], b.versions?.[stageId]) < 0 ? [b, a] : [a, b];
+    const state = winner.stages[stageId] ?? loser.stages[stageId];
+    if (state) stages[stageId] = state;
+    const version = winner.versions?.[stageId];
+    if (version) versions[stageId] = version;
+  }
+
+  return {
+    deviceId: a.deviceId,
+    stages,
+    lastUpdated: a.lastUpdated > b.lastUpdated ? a.lastUpdated : b.lastUpdated,
+    versions
+  };
+};
+
+export const applyStatusChange = (current: DeviceStatus | null, change: DeviceStatusChange): DeviceStatus => {
+  const incoming: DeviceStatus = {
+    deviceId: change.deviceId,
+    stages: { [change.stage]: change.status },
+    lastUpdated: change.updatedAt,
+    versions: { [change.stage]: { updatedAt: change.updatedAt, stationId: change.stationId } }
+  };
+  return current ? mergeDeviceStatus(current, incoming) : incoming;
+};
+
+// --- Outbox ------------------------------------------------------------------
+
+const computeStats = (entries: OutboxEntry[]): SyncStats => ({
+  pending: entries.filter(e => e.state === 'pending').length,
+  synced: entries.filter(e => e.state === 'synced').length,
+  failed: entries.filter(e => e.state === 'failed').length,
+  enabled: !!syncUrl,
+  online: typeof navigator === 'undefined' ? true : navigator.onLine
+});
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const stats = computeStats(await listEntries());
+  listeners.forEach(listener => listener(stats));
+};
+
+export const subscribeSyncStats = (listener: (stats: SyncStats) => void) => {
+  listeners.add(listener);
+  listEntries().then(entries => listener(computeStats(entries))).catch(err => console.error('Failed to read outbox:', err));
+  return () => { listeners.delete(listener); };
+};
+
+const enqueue = async (entry: Pick<OutboxEntry, 'kind' | 'payload'>) => {
+  const full = {
+    ...entry,
+    id: `OUT-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    state: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: new Date().toISOString()
+  } as OutboxEntry;
+  await putEntry(full);
+  await notify();
+  flushOutbox();
+};
+
+export const enqueueReport = (report: QCReport) => enqueue({ kind: 'report', payload: report });
+
+export const enqueueStatusChange = (change: DeviceStatusChange) => enqueue({ kind: 'deviceStatus', payload: change });
+
+class PermanentSyncError extends Error {}
+
+const push = async (entry: OutboxEntry) => {
+  const path = entry.kind === 'report' ? 'reports' : 'device-status';
+  let response: Response;
+  try {
+    response = await fetch(`${syncUrl}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Station-Id': getStationId() },
+      body: JSON.stringify(entry.payload)
+    });
+  } catch (err) {
+    // Network unreachable: not the entry's fault, so it does not count as an attempt
+    return { offline: true as const };
+  }
+  if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+    throw new PermanentSyncError(`Sync endpoint rejected ${entry.kind} (${response.status})`);
+  }
+  if (!response.ok) {
+    throw new Error(`Sync endpoint responded ${response.status}`);
+  }
+  if (entry.kind === 'deviceStatus' && onStatusResolved) {
+    const resolved = await response.json() as DeviceStatus;
+    await onStatusResolved(resolved);
+  }
+  return { offline: false as const };
+};
+
+const backoff = (attempts: number) => Math.min(BASE_BACKOFF_MS * 2 ** attempts, MAX_BACKOFF_MS);
+
+// Pushes every due pending entry in creation order. Safe to call at any time;
+// concurrent calls collapse into the one already running.
+export const flushOutbox = async () => {
+  if (!syncUrl || flushing) return;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+  flushing = true;
+  try {
+    const now = Date.now();
+    const entries = (await listEntries()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const entry of entries) {
+      if (entry.state === 'synced' && entry.syncedAt && now - Date.parse(entry.syncedAt) > SYNCED_RETENTION_MS) {
+        await deleteEntry(entry.id);
+        continue;
+      }
+      if (entry.state !== 'pending' || entry.nextAttemptAt > now) continue;
+
+      try {
+        const result = await push(entry);
+        if (result.offline) {
+          await putEntry({ ...entry, nextAttemptAt: Date.now() + backoff(0), lastError: 'Sync endpoint unreachable' });
+          break;
+        }
+        await putEntry({ ...entry, state: 'synced', syncedAt: new Date().toISOString(), lastError: undefined });
+      } catch (err) {
+        const attempts = entry.attempts + 1;
+        const permanent = err instanceof PermanentSyncError || attempts >= MAX_ATTEMPTS;
+        await putEntry({
+          ...entry,
+          attempts,
+          state: permanent ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + backoff(attempts),
+          lastError: err instanceof Error ? err.message : String(err)
+        });
+      }
+    }
+  } catch (err) {
+    console.error('Outbox flush failed:', err);
+  } finally {
+    flushing = false;
+    notify().catch(() => {});
+  }
+};
+
+// Puts failed entries back into the queue for another round of attempts
+export const retryFailed = async () => {
+  const entries = await listEntries();
+  for (const entry of entries.filter(e => e.state === 'failed')) {
+    await putEntry({ ...entry, state: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  }
+  await notify();
+  flushOutbox();
+};
+
+// Starts background flushing. The handler receives the server's resolved
+// status for every device status change so the local copy can converge.
+export const startSync = (handler: StatusResolvedHandler) => {
+  onStatusResolved = handler;
+  if (pollTimer || typeof window === 'undefined') return;
+  pollTimer = setInterval(flushOutbox, POLL_INTERVAL_MS);
+  window.addEventListener('online', () => { notify(); flushOutbox(); });
+  window.addEventListener('offline', () => { notify(); });
+  flushOutbox();
+};
@@ -0,0 +1,379 @@
+
+import { CheckpointSpec, DataCollection } from '../types';
+import { ROLES } from '../constants.tsx';
+import { CHECKPOINT_TYPES, validateSpec } from './checkpointSpec';
+import { DEFECT_CATEGORIES, DEFECT_SEVERITIES } from './defects';
+import { INSPECTION_LEVELS, AQL_VALUES } from './aql';
+import { CHECK_DIGIT_SCHEMES } from './serialFormat';
+import { REPEAT_POLICIES } from './inspectionHistory';
+import { SYMBOLOGIES } from './barcode';
+import { StoredRecord, isNumber, isRecord, isStringList } from './guards';
+
+// Runtime checks for persisted records. Each validator returns a list of
+// problems; an empty list means the record matches the current schema.
+
+type Validator = (record: unknown) => string[];
+
+const STAGE_STATES = ['pending', 'completed', 'failed', 'repaired', 'skipped'];
+
+
+const isOneOf = (value: unknown, allowed: readonly unknown[]) => allowed.includes(value);
+const isIntegerAtLeast = (value: unknown, min: number): value is number => Number.isInteger(value) && isNumber(value) && value >= min;
+
+const requireString = (record: StoredRecord, field: string, errors: string[]) => {
+  if (typeof record[field] !== 'string' || record[field].trim() === '') errors.push(`${field} must be a non-empty string`);
+};
+
+const requireOneOf = (record: StoredRecord, field: string, allowed: unknown[], errors: string[]) => {
+  if (!allowed.includes(record[field])) errors.push(`${field} must be one of ${allowed.map(String).join(', ')}`);
+};
+
+const requireDate = (record: StoredRecord, field: string, errors: string[]) => {
+  if (typeof record[field] !== 'string' || isNaN(Date.parse(record[field]))) errors.push(`${field} must be an ISO date`);
+};
+
+const validateUser: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'userId', errors);
+  const hash = record.passwordHash;
+  if (!isRecord(hash) || typeof hash.salt !== 'string' || typeof hash.hash !== 'string' || typeof hash.iterations !== 'number') {
+    errors.push('passwordHash must be a PBKDF2 hash');
+  }
+  if ('password' in record) errors.push('plaintext password must not be stored');
+  requireOneOf(record, 'role', ROLES, errors);
+  if (typeof record.isActive !== 'boolean') errors.push('isActive must be a boolean');
+  if (!Array.isArray(record.allowedStages) || record.allowedStages.some((s: unknown) => typeof s !== 'string' || s === '')) {
+    errors.push('allowedStages must be a list of stage IDs');
+  }
+  if (typeof record.mustChangePassword !== 'boolean') errors.push('mustChangePassword must be a boolean');
+  if (typeof record.failedAttempts !== 'number') errors.push('failedAttempts must be a number');
+  if (record.lockedUntil !== null) requireDate(record, 'lockedUntil', errors);
+  return errors;
+};
+
+// Shape of a checkpoint spec; whether its limits make sense is checked on publish
+const validateSpecShape = (spec: unknown): string[] => {
+  if (!isRecord(spec)) return ['spec must be an object'];
+  const errors: string[] = [];
+  requireOneOf(spec, 'type', CHECKPOINT_TYPES.map(t => t.type), errors);
+  if (spec.unit !== undefined && typeof spec.unit !== 'string') errors.push('spec.unit must be a string');
+  for (const limit of ['lsl', 'usl']) {
+    if (spec[limit] !== undefined && spec[limit] !== null && typeof spec[limit] !== 'number') errors.push(`spec.${limit} must be a number or null`);
+  }
+  for (const list of ['options', 'passOptions', 'references']) {
+    if (spec[list] !== undefined && !isStringList(spec[list])) errors.push(`spec.${list} must be a list of strings`);
+  }
+  if (spec.passValue !== undefined && typeof spec.passValue !== 'boolean') errors.push('spec.passValue must be a boolean');
+  return errors;
+};
+
+const isSpecShape = (spec: unknown): spec is CheckpointSpec => validateSpecShape(spec).length === 0;
+
+const isDefectRef = (value: unknown) =>
+  isRecord(value) && typeof value.code === 'string' && typeof value.description === 'string' &&
+  DEFECT_CATEGORIES.some(c => c.category === value.category) && DEFECT_SEVERITIES.some(s => s.severity === value.severity);
+
+const VALUE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  numeric: (value) => typeof value === 'number',
+  text: (value) => typeof value === 'string',
+  single_choice: (value) => typeof value === 'string',
+  multi_choice: isStringList,
+  boolean: (value) => typeof value === 'boolean',
+  id_match: isStringList
+};
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+const isPoint = (value: unknown) => isRecord(value) && isFraction(value.x) && isFraction(value.y);
+
+const isAnnotation = (value: unknown) => {
+  if (!isRecord(value) || typeof value.color !== 'string') return false;
+  switch (value.kind) {
+    case 'arrow': return isPoint(value.from) && isPoint(value.to);
+    case 'circle': return isPoint(value.center) && typeof value.radius === 'number' && value.radius > 0;
+    case 'freehand': return Array.isArray(value.points) && value.points.every(isPoint);
+    case 'text': return isPoint(value.at) && typeof value.text === 'string';
+    default: return false;
+  }
+};
+
+const isMediaRef = (value: unknown) => isRecord(value) && typeof value.mediaId === 'string';
+
+const isAIPhotoInspection = (value: unknown) =>
+  isRecord(value) && isOneOf(value.verdict, ['Pass', 'Fail']) && isFraction(value.confidence)
+    && (value.region === null || (isRecord(value.region) && [value.region.x, value.region.y, value.region.width, value.region.height].every(isFraction)))
+    && typeof value.finding === 'string' && typeof value.source === 'string' && typeof value.inspectedAt === 'string';
+
+const isEvidence = (value: unknown) => {
+  if (!isRecord(value) || !isOneOf(value.kind, ['photo', 'video', 'audio']) || !isMediaRef(value.media)) return false;
+  if (!Array.isArray(value.annotations) || !value.annotations.every(isAnnotation)) return false;
+  if (value.kind === 'photo') return value.durationMs === null && (value.aiInspection === null || isAIPhotoInspection(value.aiInspection));
+  return value.annotations.length === 0 && typeof value.durationMs === 'number' && value.durationMs >= 0 && value.aiInspection === null;
+};
+
+const isEvidenceMinimum = (value: unknown) =>
+  isRecord(value) && ['photo', 'video', 'audio'].every(kind => isIntegerAtLeast(value[kind], 0));
+
+const validateCheckpoint = (cp: unknown, index: number): string[] => {
+  if (!isRecord(cp)) return [`checkpoints[${index}] is not an object`];
+  const errors: string[] = [];
+  requireString(cp, 'id', errors);
+  if (typeof cp.label !== 'string') errors.push('label must be a string');
+  if (typeof cp.mandatory !== 'boolean') errors.push('mandatory must be a boolean');
+  requireOneOf(cp, 'status', ['Pass', 'Fail', null], errors);
+  errors.push(...validateSpecShape(cp.spec));
+  const type = isRecord(cp.spec) && typeof cp.spec.type === 'string' ? cp.spec.type : undefined;
+  if (cp.value !== null && !(type && VALUE_CHECKS[type]?.(cp.value))) errors.push(`value does not match checkpoint type ${type}`);
+  if (cp.instrument !== null && !(isRecord(cp.instrument) && typeof cp.instrument.instrumentId === 'string' && typeof cp.instrument.kind === 'string')) {
+    errors.push('instrument must be null or an instrument reference');
+  }
+  if (!Array.isArray(cp.defects) || !cp.defects.every(isDefectRef)) errors.push('defects must be a list of defect codes');
+  if (typeof cp.reason !== 'string') errors.push('reason must be a string');
+  if (!Array.isArray(cp.evidence) || !cp.evidence.every(isEvidence)) errors.push('evidence must be a list of photos and clips');
+  if (!isEvidenceMinimum(cp.minEvidence)) errors.push('minEvidence must give a count per evidence kind');
+  if (typeof cp.aiInspect !== 'boolean') errors.push('aiInspect must be a boolean');
+  return errors.map(e => e.startsWith('checkpoints[') ? e : `checkpoints[${index}].${e}`);
+};
+
+const validateReport: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'id', errors);
+  requireDate(record, 'timestamp', errors);
+  requireString(record, 'stage', errors);
+  requireString(record, 'userId', errors);
+  requireString(record, 'deviceId', errors);
+  requireString(record, 'templateId', errors);
+  if (!Number.isInteger(record.templateVersion)) errors.push('templateVersion must be an integer');
+  if (!isIntegerAtLeast(record.attempt, 1)) errors.push('attempt must be a positive integer');
+  if (record.reworkTicketId !== null) requireString(record, 'reworkTicketId', errors);
+  if (record.lotId !== null) requireString(record, 'lotId', errors);
+  if (record.previousReportId !== null) requireString(record, 'previousReportId', errors);
+  if (record.repeatReason !== null) requireString(record, 'repeatReason', errors);
+  requireOneOf(record, 'idSymbology', [null, ...SYMBOLOGIES.map(s => s.symbology)], errors);
+  if (!Array.isArray(record.checkpoints)) {
+    errors.push('checkpoints must be an array');
+  } else {
+    record.checkpoints.forEach((cp: unknown, i: number) => errors.push(...validateCheckpoint(cp, i)));
+  }
+  return errors;
+};
+
+const validateDraft: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  for (const field of ['draftId', 'userId', 'stage', 'deviceId', 'templateId']) requireString(record, field, errors);
+  if (!Number.isInteger(record.templateVersion)) errors.push('templateVersion must be an integer');
+  for (const field of ['reworkTicketId', 'lotId', 'previousReportId', 'repeatReason']) {
+    if (record[field] !== null) requireString(record, field, errors);
+  }
+  requireOneOf(record, 'idSymbology', [null, ...SYMBOLOGIES.map(s => s.symbology)], errors);
+  if (record.deviceImage !== null && !isMediaRef(record.deviceImage)) {
+    errors.push('deviceImage must be null or a media reference');
+  }
+  if (!Array.isArray(record.checkpoints)) {
+    errors.push('checkpoints must be an array');
+  } else {
+    record.checkpoints.forEach((cp: unknown, i: number) => errors.push(...validateCheckpoint(cp, i)));
+  }
+  requireDate(record, 'startedAt', errors);
+  requireDate(record, 'updatedAt', errors);
+  return errors;
+};
+
+const validateReworkTicket: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  for (const field of ['ticketId', 'deviceId', 'stage', 'reportId', 'openedBy']) requireString(record, field, errors);
+  if (!isIntegerAtLeast(record.attempt, 1)) errors.push('attempt must be a positive integer');
+  if (!Array.isArray(record.failedCheckpoints) || record.failedCheckpoints.some((cp: unknown) => !isRecord(cp) || typeof cp.id !== 'string' || !Array.isArray(cp.defects))) {
+    errors.push('failedCheckpoints must be a list of checkpoints');
+  }
+  requireOneOf(record, 'status', ['open', 'repaired', 'closed'], errors);
+  requireDate(record, 'openedAt', errors);
+  const repair = record.repair;
+  if (repair !== null && !(isRecord(repair) && typeof repair.technicianId === 'string' && typeof repair.action === 'string' && typeof repair.repairedAt === 'string')) {
+    errors.push('repair must be null or a repair record');
+  }
+  if (record.status !== 'open' && repair === null) errors.push(`a ${record.status} ticket needs a repair record`);
+  requireOneOf(record, 'outcome', ['passed', 'failed', null], errors);
+  if (record.status === 'closed') {
+    requireString(record, 'reinspectionReportId', errors);
+    requireDate(record, 'closedAt', errors);
+  }
+  return errors;
+};
+
+const validateTemplateCheckpoint = (cp: unknown, index: number): string[] => {
+  if (!isRecord(cp)) return [`checkpoints[${index}] is not an object`];
+  const errors: string[] = [];
+  requireString(cp, 'id', errors);
+  requireString(cp, 'label', errors);
+  if (typeof cp.mandatory !== 'boolean') errors.push('mandatory must be a boolean');
+  if (typeof cp.helpText !== 'string') errors.push('helpText must be a string');
+  errors.push(...validateSpecShape(cp.spec));
+  if (!isEvidenceMinimum(cp.minEvidence)) errors.push('minEvidence must give a count per evidence kind');
+  if (typeof cp.aiInspect !== 'boolean') errors.push('aiInspect must be a boolean');
+  return errors.map(e => `checkpoints[${index}].${e}`);
+};
+
+const validateTemplate: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'templateId', errors);
+  if (!isIntegerAtLeast(record.version, 1)) errors.push('version must be a positive integer');
+  requireString(record, 'name', errors);
+  requireOneOf(record, 'status', ['draft', 'published'], errors);
+  if (!Array.isArray(record.checkpoints)) {
+    errors.push('checkpoints must be an array');
+  } else {
+    record.checkpoints.forEach((cp: unknown, i: number) => errors.push(...validateTemplateCheckpoint(cp, i)));
+    const ids = record.checkpoints.map((cp: unknown) => isRecord(cp) ? cp.id : undefined);
+    if (new Set(ids).size !== ids.length) errors.push('checkpoint ids must be unique');
+  }
+  const changes = record.inspectorChanges;
+  if (!isRecord(changes) || ['addCheckpoints', 'renameCheckpoints', 'removeOptional'].some(k => typeof changes[k] !== 'boolean')) {
+    errors.push('inspectorChanges must list addCheckpoints, renameCheckpoints and removeOptional');
+  }
+  requireDate(record, 'updatedAt', errors);
+  if (record.status === 'published') {
+    requireDate(record, 'publishedAt', errors);
+    if (Array.isArray(record.checkpoints)) {
+      if (record.checkpoints.length === 0) errors.push('a published template needs at least one checkpoint');
+      record.checkpoints.forEach((cp: unknown, i: number) => {
+        if (isRecord(cp) && isSpecShape(cp.spec)) errors.push(...validateSpec(cp.spec).map(e => `checkpoints[${i}] ${e}`));
+      });
+    }
+  }
+  return errors;
+};
+
+const validateDeviceStatus: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'deviceId', errors);
+  if (!isRecord(record.stages) || Object.values(record.stages).some(s => !STAGE_STATES.includes(s as string))) {
+    errors.push(`stages must map stage IDs to ${STAGE_STATES.join(', ')}`);
+  }
+  requireDate(record, 'lastUpdated', errors);
+  return errors;
+};
+
+const validateStage: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'stageId', errors);
+  requireString(record, 'label', errors);
+  if (typeof record.description !== 'string') errors.push('description must be a string');
+  if (typeof record.order !== 'number') errors.push('order must be a number');
+  if (!Array.isArray(record.prerequisites) || record.prerequisites.some((p: unknown) => typeof p !== 'string')) {
+    errors.push('prerequisites must be a list of stage IDs');
+  }
+  for (const flag of ['optional', 'skippable', 'reinspectFailedOnly', 'enabled']) {
+    if (typeof record[flag] !== 'boolean') errors.push(`${flag} must be a boolean`);
+  }
+  requireOneOf(record, 'repeatPolicy', REPEAT_POLICIES.map(p => p.policy), errors);
+  if (!Array.isArray(record.symbologies) || !record.symbologies.every((s: unknown) => SYMBOLOGIES.some(k => k.symbology === s))) {
+    errors.push('symbologies must be a list of barcode types');
+  }
+  requireString(record, 'templateId', errors);
+  return errors;
+};
+
+const validateDefectCode: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'code', errors);
+  requireString(record, 'description', errors);
+  requireOneOf(record, 'category', DEFECT_CATEGORIES.map(c => c.category), errors);
+  requireOneOf(record, 'severity', DEFECT_SEVERITIES.map(s => s.severity), errors);
+  if (!isStringList(record.checkpointIds)) errors.push('checkpointIds must be a list of checkpoint IDs');
+  if (typeof record.active !== 'boolean') errors.push('active must be a boolean');
+  requireDate(record, 'updatedAt', errors);
+  return errors;
+};
+
+const validateLot: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  for (const field of ['lotId', 'product', 'stage', 'createdBy']) requireString(record, field, errors);
+  if (typeof record.line !== 'string') errors.push('line must be a string');
+  if (!isIntegerAtLeast(record.lotSize, 2)) errors.push('lotSize must be an integer of at least 2');
+  const plan = record.plan;
+  if (!isRecord(plan) || !isOneOf(plan.level, INSPECTION_LEVELS) || !isOneOf(plan.aql, AQL_VALUES) ||
+      ['sampleSize', 'accept', 'reject'].some(k => !Number.isInteger(plan[k])) || !isNumber(plan.accept) || plan.reject !== plan.accept + 1) {
+    errors.push('plan must be a sampling plan with sample size and Ac/Re');
+  }
+  if (!isStringList(record.drawnSerials)) errors.push('drawnSerials must be a list of serials');
+  if (!Array.isArray(record.samples) || record.samples.some((s: unknown) => !isRecord(s) || typeof s.deviceId !== 'string' || typeof s.reportId !== 'string' || !isOneOf(s.result, ['passed', 'failed']))) {
+    errors.push('samples must be a list of sampled units');
+  }
+  requireOneOf(record, 'status', ['open', 'accepted', 'rejected'], errors);
+  requireDate(record, 'createdAt', errors);
+  if (record.status !== 'open') requireDate(record, 'decidedAt', errors);
+  return errors;
+};
+
+const validateCarton: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'cartonId', errors);
+  requireString(record, 'createdBy', errors);
+  if (!isIntegerAtLeast(record.capacity, 1)) errors.push('capacity must be a positive integer');
+  if (!isStringList(record.serials)) errors.push('serials must be a list of serials');
+  else if (new Set(record.serials).size !== record.serials.length) errors.push('serials must be unique');
+  else if (isNumber(record.capacity) && record.serials.length > record.capacity) errors.push('serials exceed the carton capacity');
+  if (record.palletId !== null) requireString(record, 'palletId', errors);
+  requireOneOf(record, 'status', ['open', 'sealed'], errors);
+  requireDate(record, 'createdAt', errors);
+  if (record.status === 'sealed') requireDate(record, 'sealedAt', errors);
+  return errors;
+};
+
+const validatePallet: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  requireString(record, 'palletId', errors);
+  requireString(record, 'createdBy', errors);
+  if (!isStringList(record.cartonIds)) errors.push('cartonIds must be a list of carton IDs');
+  else if (new Set(record.cartonIds).size !== record.cartonIds.length) errors.push('cartonIds must be unique');
+  requireOneOf(record, 'status', ['open', 'closed'], errors);
+  requireDate(record, 'createdAt', errors);
+  if (record.status === 'closed') requireDate(record, 'closedAt', errors);
+  return errors;
+};
+
+const validateSerialFormat: Validator = (record) => {
+  if (!isRecord(record)) return ['record is not an object'];
+  const errors: string[] = [];
+  for (const field of ['formatId', 'label', 'pattern']) requireString(record, field, errors);
+  if (typeof record.example !== 'string') errors.push('example must be a string');
+  requireOneOf(record, 'checkDigit', CHECK_DIGIT_SCHEMES.map(s => s.scheme), errors);
+  if (typeof record.active !== 'boolean') errors.push('active must be a boolean');
+  requireDate(record, 'updatedAt', errors);
+  return errors;
+};
+
+const VALIDATORS: Record<DataCollection, Validator> = {
+  users: validateUser,
+  reports: validateReport,
+  deviceStatuses: validateDeviceStatus,
+  templates: validateTemplate,
+  stages: validateStage,
+  reworkTickets: validateReworkTicket,
+  defectCodes: validateDefectCode,
+  lots: validateLot,
+  cartons: validateCarton,
+  pallets: validatePallet,
+  serialFormats: validateSerialFormat,
+  drafts: validateDraft
+};
+
+export const validateRecord = (collection: DataCollection, record: unknown): string[] =>
+  VALIDATORS[collection](record);
+
+// Throws when a record about to be written does not match the schema
+export const assertValid = (collection: DataCollection, record: unknown) => {
+  const errors = validateRecord(collection, record);
+  if (errors.length > 0) throw new Error(`Invalid ${collection} record: ${errors.join('; ')}`);
+};
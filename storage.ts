@@ -1,88 +1,567 @@
 
-import { User, QCReport } from './types';
-import { INITIAL_ADMIN_USER } from './constants.tsx';
-
-const USERS_KEY = 'flex_qc_users';
-const REPORTS_KEY = 'flex_qc_reports';
-const DEVICE_STATUS_KEY = 'flex_qc_device_status';
-
-export const getStoredUsers = (): User[] => {
-  const stored = localStorage.getItem(USERS_KEY);
-  if (!stored) {
-    const defaultUsers = [INITIAL_ADMIN_USER];
-    localStorage.setItem(USERS_KEY, JSON.stringify(defaultUsers));
-    return defaultUsers;
-  }
-  return JSON.parse(stored);
-};
+import { User, QCReport, DeviceStatus, DeviceStatusChange, StorageAdapter, MigrationReport, QuarantinedRecord, AuditEvent, AuditEntry, AuditVerification, ChecklistTemplate, StageDefinition, StageId, StageStatus, ReworkTicket, RepairRecord, DefectCode, Lot, Carton, Pallet, SerialFormat, InspectionDraft } from './types';
+import { INITIAL_ADMIN_USER, INITIAL_ADMIN_PASSWORD, DEFAULT_TEMPLATES, DEFAULT_STAGES, DEFAULT_DEFECT_CODES, DEFAULT_SERIAL_FORMATS, DRAFT_EXPIRY_MS } from './constants.tsx';
+import { storageAdapter } from './services/storageBackend';
+import { runMigrations, MIGRATION_REPORT_KEY } from './services/migrations';
+import { assertValid } from './services/validation';
+import { sortStages, validatePipeline } from './services/pipeline';
+import { reportResult, openReworkTicket, closeReworkTicket } from './services/rework';
+import { validateDefectCatalog } from './services/defects';
+import { validateSerialFormats } from './services/serialFormat';
+import { latestReportAt, checkRepeat } from './services/inspectionHistory';
+import { draftKey, isDraftExpired } from './services/drafts';
+import { addLotSample } from './services/lots';
+import { checkPack, checkUnpack, checkSeal, checkLoad, checkUnload, checkClose } from './services/aggregation';
+import { hashPassword } from './services/auth';
+import { GENESIS_HASH, computeEntryHash, verifyChain } from './services/auditChain';
+import { applyStatusChange, mergeDeviceStatus, enqueueReport, enqueueStatusChange, getStationId, startSync } from './services/syncQueue';
 
-export const saveUsers = (users: User[]) => {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
-};
+// The only persistence surface the UI is allowed to use
+export interface QCRepository {
+  initialize(): Promise<void>;
+  getMigrationReport(): Promise<MigrationReport | null>;
+  getQuarantine(): Promise<QuarantinedRecord[]>;
+  getUsers(): Promise<User[]>;
+  saveUser(user: User): Promise<void>;
+  deleteUser(userId: string): Promise<void>;
+  getReports(): Promise<QCReport[]>;
+  // Saves the report, records it against its lot, removes the inspector's draft,
+  // updates the device's stage status once from its result and returns the
+  // rework ticket opened if it failed
+  saveReport(report: QCReport): Promise<ReworkTicket | null>;
+  getDeviceStatuses(): Promise<DeviceStatus[]>;
+  getDeviceStatus(deviceId: string): Promise<DeviceStatus | null>;
+  updateDeviceStatus(deviceId: string, stage: StageId, status: StageStatus): Promise<void>;
+  applyRemoteDeviceStatus(status: DeviceStatus): Promise<void>;
+  appendAudit(event: AuditEvent): Promise<AuditEntry>;
+  getAuditLog(): Promise<AuditEntry[]>;
+  verifyAuditLog(): Promise<AuditVerification>;
+  getTemplates(): Promise<ChecklistTemplate[]>;
+  getActiveTemplate(stage: StageId): Promise<ChecklistTemplate | null>;
+  saveTemplateDraft(template: ChecklistTemplate): Promise<void>;
+  publishTemplate(templateId: string, version: number, userId: string): Promise<ChecklistTemplate>;
+  discardTemplateDraft(templateId: string, version: number): Promise<void>;
+  getStages(): Promise<StageDefinition[]>;
+  saveStages(stages: StageDefinition[]): Promise<void>;
+  getReworkTickets(): Promise<ReworkTicket[]>;
+  getActiveReworkTicket(deviceId: string, stage: StageId): Promise<ReworkTicket | null>;
+  recordRepair(ticketId: string, repair: RepairRecord): Promise<ReworkTicket>;
+  getDefectCodes(): Promise<DefectCode[]>;
+  saveDefectCodes(codes: DefectCode[]): Promise<void>;
+  getSerialFormats(): Promise<SerialFormat[]>;
+  saveSerialFormats(formats: SerialFormat[]): Promise<void>;
+  getLots(): Promise<Lot[]>;
+  getLot(lotId: string): Promise<Lot | null>;
+  addLot(lot: Lot): Promise<void>;
+  getCartons(): Promise<Carton[]>;
+  getPallets(): Promise<Pallet[]>;
+  addCarton(carton: Carton): Promise<void>;
+  addPallet(pallet: Pallet): Promise<void>;
+  // Each change re-reads the stored carton or pallet and checks it before
+  // writing, so one station cannot undo or repeat another station's change
+  packDevice(cartonId: string, deviceId: string): Promise<Carton>;
+  unpackDevice(cartonId: string, deviceId: string): Promise<Carton>;
+  sealCarton(cartonId: string): Promise<Carton>;
+  loadCarton(palletId: string, cartonId: string): Promise<Pallet>;
+  unloadCarton(palletId: string, cartonId: string): Promise<Pallet>;
+  closePallet(palletId: string): Promise<Pallet>;
+  getDrafts(): Promise<InspectionDraft[]>;
+  saveDraft(draft: InspectionDraft): Promise<void>;
+  deleteDraft(draftId: string): Promise<void>;
+  // Removes drafts past the expiry period and returns them so their photos can be deleted
+  expireDrafts(now: number): Promise<InspectionDraft[]>;
+}
 
-export const getStoredReports = (): QCReport[] => {
-  const stored = localStorage.getItem(REPORTS_KEY);
-  return stored ? JSON.parse(stored) : [];
-};
+// Every template version is its own record
+const templateKey = (templateId: string, version: number) => `${templateId}@${version}`;
 
-export const saveReport = (report: QCReport) => {
-  const reports = getStoredReports();
-  reports.push(report);
-  localStorage.setItem(REPORTS_KEY, JSON.stringify(reports));
-  
-  // Log to console for debugging "Google Sheets" simulation
-  console.log('✅ Report Saved to "Database":', report);
-  
-  // Update device status after report submission
-  updateDeviceStatus(report.deviceId, report.stage, 'completed');
-};
+// Audit entries are keyed by zero-padded sequence number so keys sort in order
+const auditKey = (seq: number) => String(seq).padStart(12, '0');
 
-export interface DeviceStatus {
-  deviceId: string;
-  fqcStatus: 'pending' | 'completed' | 'failed';
-  packagingStatus: 'pending' | 'completed' | 'failed';
-  lastUpdated: string;
-}
+// Appends that lose the race for a sequence number to another station this many times fail
+const AUDIT_APPEND_ATTEMPTS = 5;
 
-export const getDeviceStatus = (deviceId: string): DeviceStatus | null => {
-  const allStatuses = getDeviceStatuses();
-  return allStatuses.find(status => status.deviceId === deviceId) || null;
-};
+export const createQCRepository = (adapter: StorageAdapter, draftExpiryMs = DRAFT_EXPIRY_MS): QCRepository => {
+  let ready: Promise<void> | null = null;
+  // Appends are serialised so each entry links to the one written just before it
+  let auditTail: Promise<unknown> = Promise.resolve();
 
-export const getDeviceStatuses = (): DeviceStatus[] => {
-  const stored = localStorage.getItem(DEVICE_STATUS_KEY);
-  return stored ? JSON.parse(stored) : [];
-};
+  // Migrates stored data and seeds the default admin, templates, stages, defect codes and serial formats; runs once per session
+  const ensureReady = () => {
+    if (!ready) {
+      ready = (async () => {
+        const report = await runMigrations(adapter);
+        if (report.errors.length > 0) console.warn('Data migration reported problems:', report.errors);
+        const users = await adapter.list<User>('users');
+        if (users.length === 0) {
+          const admin: User = { ...INITIAL_ADMIN_USER, passwordHash: await hashPassword(INITIAL_ADMIN_PASSWORD) };
+          await adapter.put('users', admin.userId, admin);
+        }
+        const templates = await adapter.list<ChecklistTemplate>('templates');
+        if (templates.length === 0) {
+          for (const template of DEFAULT_TEMPLATES) {
+            await adapter.put('templates', templateKey(template.templateId, template.version), template);
+          }
+        }
+        const stages = await adapter.list<StageDefinition>('stages');
+        if (stages.length === 0) {
+          for (const stage of DEFAULT_STAGES) {
+            await adapter.put('stages', stage.stageId, stage);
+          }
+        }
+        const defectCodes = await adapter.list<DefectCode>('defectCodes');
+        if (defectCodes.length === 0) {
+          for (const defect of DEFAULT_DEFECT_CODES) {
+            await adapter.put('defectCodes', defect.code, defect);
+          }
+        }
+        const serialFormats = await adapter.list<SerialFormat>('serialFormats');
+        if (serialFormats.length === 0) {
+          for (const format of DEFAULT_SERIAL_FORMATS) {
+            await adapter.put('serialFormats', format.formatId, format);
+          }
+        }
+      })();
+      // Allow a retry if the backend was unreachable
+      ready.catch(() => { ready = null; });
+    }
+    return ready;
+  };
 
-export const updateDeviceStatus = (deviceId: string, stage: 'FQC' | 'Packaging', status: 'pending' | 'completed' | 'failed') => {
-  const allStatuses = getDeviceStatuses();
-  const existingIndex = allStatuses.findIndex(s => s.deviceId === deviceId);
-  
-  const newStatus: DeviceStatus = {
-    deviceId,
-    fqcStatus: 'pending',
-    packagingStatus: 'pending',
-    lastUpdated: new Date().toISOString()
+  const getDeviceStatus = async (deviceId: string) => {
+    await ensureReady();
+    return adapter.get<DeviceStatus>('deviceStatuses', deviceId);
   };
-  
-  if (existingIndex >= 0) {
-    // Update existing status
-    const existingStatus = allStatuses[existingIndex];
-    if (stage === 'FQC') {
-      existingStatus.fqcStatus = status;
-    } else if (stage === 'Packaging') {
-      existingStatus.packagingStatus = status;
-    }
-    existingStatus.lastUpdated = new Date().toISOString();
-  } else {
-    // Create new status
-    if (stage === 'FQC') {
-      newStatus.fqcStatus = status;
-    } else if (stage === 'Packaging') {
-      newStatus.packagingStatus = status;
+
+  const getTemplates = async () => {
+    await ensureReady();
+    const templates = await adapter.list<ChecklistTemplate>('templates');
+    return templates.sort((a, b) => a.templateId.localeCompare(b.templateId) || a.version - b.version);
+  };
+
+  const getTemplate = async (templateId: string, version: number) => {
+    await ensureReady();
+    return adapter.get<ChecklistTemplate>('templates', templateKey(templateId, version));
+  };
+
+  const getStages = async () => {
+    await ensureReady();
+    return sortStages(await adapter.list<StageDefinition>('stages'));
+  };
+
+  const getReworkTickets = async () => {
+    await ensureReady();
+    const tickets = await adapter.list<ReworkTicket>('reworkTickets');
+    return tickets.sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  };
+
+  const putReworkTicket = async (ticket: ReworkTicket) => {
+    assertValid('reworkTickets', ticket);
+    await adapter.put('reworkTickets', ticket.ticketId, ticket);
+  };
+
+  const getCartons = async () => {
+    await ensureReady();
+    const cartons = await adapter.list<Carton>('cartons');
+    return cartons.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const putCarton = async (carton: Carton) => {
+    assertValid('cartons', carton);
+    await adapter.put('cartons', carton.cartonId, carton);
+  };
+
+  const putPallet = async (pallet: Pallet) => {
+    assertValid('pallets', pallet);
+    await adapter.put('pallets', pallet.palletId, pallet);
+  };
+
+  const readCarton = async (cartonId: string) => {
+    await ensureReady();
+    const carton = await adapter.get<Carton>('cartons', cartonId);
+    if (!carton) throw new Error(`Carton ${cartonId} not found`);
+    return carton;
+  };
+
+  const readPallet = async (palletId: string) => {
+    await ensureReady();
+    const pallet = await adapter.get<Pallet>('pallets', palletId);
+    if (!pallet) throw new Error(`Pallet ${palletId} not found`);
+    return pallet;
+  };
+
+  const updateDeviceStatus = async (deviceId: string, stage: StageId, status: StageStatus) => {
+    const existing = await getDeviceStatus(deviceId);
+    const change: DeviceStatusChange = {
+      deviceId,
+      stage,
+      status,
+      updatedAt: new Date().toISOString(),
+      stationId: getStationId()
+    };
+
+    await adapter.put('deviceStatuses', deviceId, applyStatusChange(existing, change));
+    await enqueueStatusChange(change);
+  };
+
+  return {
+    initialize: ensureReady,
+
+    getMigrationReport: async () => {
+      await ensureReady();
+      return adapter.get<MigrationReport>('meta', MIGRATION_REPORT_KEY);
+    },
+
+    getQuarantine: async () => {
+      await ensureReady();
+      const entries = await adapter.list<QuarantinedRecord>('quarantine');
+      return entries.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+    },
+
+    getUsers: async () => {
+      await ensureReady();
+      return adapter.list<User>('users');
+    },
+
+    saveUser: async (user) => {
+      assertValid('users', user);
+      await ensureReady();
+      await adapter.put('users', user.userId, user);
+    },
+
+    deleteUser: async (userId) => {
+      await ensureReady();
+      await adapter.remove('users', userId);
+    },
+
+    getReports: async () => {
+      await ensureReady();
+      const reports = await adapter.list<QCReport>('reports');
+      return reports.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    },
+
+    saveReport: async (report) => {
+      assertValid('reports', report);
+      await ensureReady();
+      // Repeats outside the rework loop follow the stage's policy
+      if (!report.reworkTicketId) {
+        const [reports, stages] = await Promise.all([adapter.list<QCReport>('reports'), adapter.list<StageDefinition>('stages')]);
+        const previous = latestReportAt(reports.filter(r => r.id !== report.id), report.deviceId, report.stage as StageId);
+        const stage = stages.find(s => s.stageId === report.stage);
+        const repeat = previous && stage ? checkRepeat(stage, previous, report.repeatReason) : null;
+        if (repeat?.ok === false) throw new Error(repeat.reason);
+      }
+      // Checked before anything is written, so a closed lot rejects the report
+      const lot = report.lotId ? await adapter.get<Lot>('lots', report.lotId) : null;
+      if (report.lotId && !lot) throw new Error(`Lot ${report.lotId} not found`);
+      const sampledLot = lot ? addLotSample(lot, report) : null;
+
+      await adapter.put('reports', report.id, report);
+      await adapter.remove('drafts', draftKey(report.userId, report.stage as StageId, report.deviceId));
+      if (sampledLot) {
+        assertValid('lots', sampledLot);
+        await adapter.put('lots', sampledLot.lotId, sampledLot);
+      }
+      await enqueueReport(report);
+
+      if (report.reworkTicketId) {
+        const ticket = await adapter.get<ReworkTicket>('reworkTickets', report.reworkTicketId);
+        if (ticket && ticket.status !== 'closed') await putReworkTicket(closeReworkTicket(ticket, report));
+      }
+      const failed = reportResult(report) === 'failed';
+      const opened = failed ? openReworkTicket(report) : null;
+      if (opened) await putReworkTicket(opened);
+
+      await updateDeviceStatus(report.deviceId, report.stage as StageId, failed ? 'failed' : 'completed');
+      return opened;
+    },
+
+    getDeviceStatuses: async () => {
+      await ensureReady();
+      return adapter.list<DeviceStatus>('deviceStatuses');
+    },
+
+    getDeviceStatus,
+    updateDeviceStatus,
+
+    // Merges the sync server's resolved status into the local copy
+    applyRemoteDeviceStatus: async (remote) => {
+      const local = await getDeviceStatus(remote.deviceId);
+      await adapter.put('deviceStatuses', remote.deviceId, local ? mergeDeviceStatus(local, remote) : remote);
+    },
+
+    appendAudit: (event) => {
+      const append = auditTail.then(async () => {
+        await ensureReady();
+        // Stations sharing a backend race for the next slot; the loser re-reads the tail and tries again
+        for (let attempt = 0; attempt < AUDIT_APPEND_ATTEMPTS; attempt++) {
+          const last = (await adapter.last<AuditEntry>('audit'))?.[1] ?? null;
+          const body: Omit<AuditEntry, 'hash'> = {
+            ...event,
+            seq: (last?.seq ?? 0) + 1,
+            timestamp: new Date().toISOString(),
+            stationId: getStationId(),
+            prevHash: last?.hash ?? GENESIS_HASH
+          };
+          const entry: AuditEntry = { ...body, hash: await computeEntryHash(body) };
+          if (await adapter.create('audit', auditKey(entry.seq), entry)) return entry;
+        }
+        throw new Error(`Audit entry not written after ${AUDIT_APPEND_ATTEMPTS} conflicting attempts`);
+      });
+      auditTail = append.catch(() => {});
+      return append;
+    },
+
+    getAuditLog: async () => {
+      await ensureReady();
+      const entries = await adapter.list<AuditEntry>('audit');
+      return entries.sort((a, b) => a.seq - b.seq);
+    },
+
+    verifyAuditLog: async () => {
+      await ensureReady();
+      return verifyChain(await adapter.list<AuditEntry>('audit'));
+    },
+
+    getTemplates,
+
+    // Inspectors always get the latest published version of the stage's template
+    getActiveTemplate: async (stageId) => {
+      const stage = (await getStages()).find(s => s.stageId === stageId);
+      if (!stage) return null;
+      const published = (await getTemplates()).filter(t => t.templateId === stage.templateId && t.status === 'published');
+      return published[published.length - 1] ?? null;
+    },
+
+    saveTemplateDraft: async (template) => {
+      if (template.status !== 'draft') throw new Error('Only drafts can be saved; publish to release a version');
+      assertValid('templates', template);
+      const existing = await getTemplate(template.templateId, template.version);
+      if (existing?.status === 'published') {
+        throw new Error(`${template.templateId} v${template.version} is already published`);
+      }
+      await adapter.put('templates', templateKey(template.templateId, template.version), template);
+    },
+
+    publishTemplate: async (templateId, version, userId) => {
+      const draft = await getTemplate(templateId, version);
+      if (!draft || draft.status !== 'draft') throw new Error(`No draft ${templateId} v${version} to publish`);
+      const now = new Date().toISOString();
+      const published: ChecklistTemplate = { ...draft, status: 'published', publishedAt: now, publishedBy: userId, updatedAt: now, updatedBy: userId };
+      assertValid('templates', published);
+      await adapter.put('templates', templateKey(templateId, version), published);
+      return published;
+    },
+
+    discardTemplateDraft: async (templateId, version) => {
+      const draft = await getTemplate(templateId, version);
+      if (draft?.status !== 'draft') throw new Error(`${templateId} v${version} is not a draft`);
+      await adapter.remove('templates', templateKey(templateId, version));
+    },
+
+    getStages,
+
+    // Stages are never deleted, only disabled, so old reports keep their stage
+    saveStages: async (stages) => {
+      stages.forEach(stage => assertValid('stages', stage));
+      const errors = validatePipeline(stages);
+      if (errors.length > 0) throw new Error(errors.join('; '));
+      await ensureReady();
+      for (const stage of stages) {
+        await adapter.put('stages', stage.stageId, stage);
+      }
+    },
+
+    getReworkTickets,
+
+    getActiveReworkTicket: async (deviceId, stage) => {
+      const tickets = await getReworkTickets();
+      return tickets.filter(t => t.deviceId === deviceId && t.stage === stage && t.status !== 'closed').pop() ?? null;
+    },
+
+    // Frees the device for re-inspection at the stage it failed
+    recordRepair: async (ticketId, repair) => {
+      await ensureReady();
+      const ticket = await adapter.get<ReworkTicket>('reworkTickets', ticketId);
+      if (!ticket) throw new Error(`Rework ticket ${ticketId} not found`);
+      if (ticket.status !== 'open') throw new Error(`Rework ticket ${ticketId} already has a repair recorded`);
+      const repaired: ReworkTicket = { ...ticket, status: 'repaired', repair };
+      await putReworkTicket(repaired);
+      await updateDeviceStatus(ticket.deviceId, ticket.stage, 'repaired');
+      return repaired;
+    },
+
+    getDefectCodes: async () => {
+      await ensureReady();
+      const codes = await adapter.list<DefectCode>('defectCodes');
+      return codes.sort((a, b) => a.code.localeCompare(b.code));
+    },
+
+    // Codes are never deleted, only deactivated, so reports keep resolving them
+    saveDefectCodes: async (codes) => {
+      codes.forEach(code => assertValid('defectCodes', code));
+      const errors = validateDefectCatalog(codes);
+      if (errors.length > 0) throw new Error(errors.join('; '));
+      await ensureReady();
+      for (const code of codes) {
+        await adapter.put('defectCodes', code.code, code);
+      }
+    },
+
+    getSerialFormats: async () => {
+      await ensureReady();
+      const formats = await adapter.list<SerialFormat>('serialFormats');
+      return formats.sort((a, b) => a.label.localeCompare(b.label));
+    },
+
+    // Like defect codes, formats are deactivated rather than deleted
+    saveSerialFormats: async (formats) => {
+      formats.forEach(format => assertValid('serialFormats', format));
+      const errors = validateSerialFormats(formats);
+      if (errors.length > 0) throw new Error(errors.join('; '));
+      await ensureReady();
+      for (const format of formats) {
+        await adapter.put('serialFormats', format.formatId, format);
+      }
+    },
+
+    getLots: async () => {
+      await ensureReady();
+      const lots = await adapter.list<Lot>('lots');
+      return lots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    getLot: async (lotId) => {
+      await ensureReady();
+      return adapter.get<Lot>('lots', lotId);
+    },
+
+    addLot: async (lot) => {
+      assertValid('lots', lot);
+      await ensureReady();
+      if (await adapter.get('lots', lot.lotId)) throw new Error(`Lot ${lot.lotId} already exists`);
+      await adapter.put('lots', lot.lotId, lot);
+    },
+
+    getCartons,
+
+    getPallets: async () => {
+      await ensureReady();
+      const pallets = await adapter.list<Pallet>('pallets');
+      return pallets.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    addCarton: async (carton) => {
+      await ensureReady();
+      if (await adapter.get('cartons', carton.cartonId)) throw new Error(`Carton ${carton.cartonId} already exists`);
+      await putCarton(carton);
+    },
+
+    addPallet: async (pallet) => {
+      await ensureReady();
+      if (await adapter.get('pallets', pallet.palletId)) throw new Error(`Pallet ${pallet.palletId} already exists`);
+      await putPallet(pallet);
+    },
+
+    packDevice: async (cartonId, deviceId) => {
+      const cartons = await getCartons();
+      const carton = cartons.find(c => c.cartonId === cartonId);
+      if (!carton) throw new Error(`Carton ${cartonId} not found`);
+      const check = checkPack(carton, deviceId, await getDeviceStatus(deviceId), cartons);
+      if (check.ok === false) throw new Error(check.reason);
+      const packed: Carton = { ...carton, serials: [...carton.serials, deviceId] };
+      await putCarton(packed);
+      return packed;
+    },
+
+    unpackDevice: async (cartonId, deviceId) => {
+      const carton = await readCarton(cartonId);
+      const check = checkUnpack(carton, deviceId);
+      if (check.ok === false) throw new Error(check.reason);
+      const unpacked: Carton = { ...carton, serials: carton.serials.filter(s => s !== deviceId) };
+      await putCarton(unpacked);
+      return unpacked;
+    },
+
+    sealCarton: async (cartonId) => {
+      const carton = await readCarton(cartonId);
+      const check = checkSeal(carton);
+      if (check.ok === false) throw new Error(check.reason);
+      const sealed: Carton = { ...carton, status: 'sealed', sealedAt: new Date().toISOString() };
+      await putCarton(sealed);
+      return sealed;
+    },
+
+    loadCarton: async (palletId, cartonId) => {
+      const [pallet, carton] = await Promise.all([readPallet(palletId), readCarton(cartonId)]);
+      const check = checkLoad(pallet, carton);
+      if (check.ok === false) throw new Error(check.reason);
+      const loaded: Pallet = { ...pallet, cartonIds: [...pallet.cartonIds, cartonId] };
+      await putCarton({ ...carton, palletId });
+      await putPallet(loaded);
+      return loaded;
+    },
+
+    unloadCarton: async (palletId, cartonId) => {
+      const [pallet, carton] = await Promise.all([readPallet(palletId), adapter.get<Carton>('cartons', cartonId)]);
+      const check = checkUnload(pallet, cartonId);
+      if (check.ok === false) throw new Error(check.reason);
+      const unloaded: Pallet = { ...pallet, cartonIds: pallet.cartonIds.filter(id => id !== cartonId) };
+      await putPallet(unloaded);
+      // A carton already moved to another pallet keeps that assignment
+      if (carton?.palletId === palletId) await putCarton({ ...carton, palletId: null });
+      return unloaded;
+    },
+
+    closePallet: async (palletId) => {
+      const pallet = await readPallet(palletId);
+      const check = checkClose(pallet);
+      if (check.ok === false) throw new Error(check.reason);
+      const closed: Pallet = { ...pallet, status: 'closed', closedAt: new Date().toISOString() };
+      await putPallet(closed);
+      return closed;
+    },
+
+    getDrafts: async () => {
+      await ensureReady();
+      const drafts = await adapter.list<InspectionDraft>('drafts');
+      return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    saveDraft: async (draft) => {
+      assertValid('drafts', draft);
+      await ensureReady();
+      await adapter.put('drafts', draft.draftId, draft);
+    },
+
+    deleteDraft: async (draftId) => {
+      await ensureReady();
+      await adapter.remove('drafts', draftId);
+    },
+
+    expireDrafts: async (now) => {
+      await ensureReady();
+      const expired = (await adapter.list<InspectionDraft>('drafts')).filter(d => isDraftExpired(d, now, draftExpiryMs));
+      for (const draft of expired) {
+        await adapter.remove('drafts', draft.draftId);
+      }
+      return expired;
     }
-    allStatuses.push(newStatus);
+  };
+};
+
+// Draft expiry is set at build time with QC_DRAFT_EXPIRY_HOURS; DRAFT_EXPIRY_MS otherwise
+const resolveDraftExpiryMs = () => {
+  const setting = process.env.QC_DRAFT_EXPIRY_HOURS;
+  if (!setting) return DRAFT_EXPIRY_MS;
+  const hours = Number(setting);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    console.warn(`Invalid QC_DRAFT_EXPIRY_HOURS "${setting}"; drafts expire after ${DRAFT_EXPIRY_MS / 3600000} hours`);
+    return DRAFT_EXPIRY_MS;
   }
-  
-  localStorage.setItem(DEVICE_STATUS_KEY, JSON.stringify(allStatuses));
+  return hours * 60 * 60 * 1000;
 };
+
+export const repository: QCRepository = createQCRepository(storageAdapter, resolveDraftExpiryMs());
+
+startSync(repository.applyRemoteDeviceStatus);
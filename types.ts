@@ -1,19 +1,208 @@
 
-export type Stage = 'FQC' | 'Packaging' | null;
+// Stage IDs come from the configured pipeline (see StageDefinition)
+export type StageId = string;
+
+export type Stage = StageId | null;
+
+export type Role = 'inspector' | 'technician' | 'supervisor' | 'quality_engineer' | 'auditor' | 'admin';
+
+// Capabilities granted to roles through ROLE_PERMISSIONS in constants.tsx
+export type Permission =
+  | 'inspect'           // run FQC / Packaging checklists
+  | 'view_dashboard'    // AppStep.DASHBOARD
+  | 'export_reports'    // CSV export
+  | 'edit_checkpoints'  // rename, add or delete checkpoints during an inspection, as the template allows
+  | 'manage_templates'  // checklist templates and the stage pipeline
+  | 'manage_users'      // AppStep.ADMIN console and operator registry
+  | 'view_audit'        // AppStep.AUDIT_LOG viewer and integrity check
+  | 'record_repairs'    // close rework tickets in AppStep.REWORK
+  | 'manage_defects'    // AppStep.DEFECTS defect catalog
+  | 'manage_lots'       // AppStep.LOTS lot creation and sampling plans
+  | 'trace_shipments'   // AppStep.AGGREGATION trace and manifests without packing
+;
+
+// Salted PBKDF2 digest produced by services/auth.ts; salt and hash are base64
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
+}
 
 export interface User {
   userId: string;
-  password: string;
-  isAdmin: boolean;
+  passwordHash: PasswordHash;
+  role: Role;
   isActive: boolean;
-  assignedStage: Stage;
+  allowedStages: StageId[];
+  mustChangePassword: boolean;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+// Pointer to a photo held by the media store (services/mediaStore.ts)
+export interface MediaRef {
+  mediaId: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number; // bytes of the full-size image or clip
+}
+
+// Photos have both; clips only have the full variant
+export type MediaVariant = 'full' | 'thumb';
+
+// Photo markup drawn over a stored image; the image itself is never changed.
+// Points are fractions of the image width and height (0-1), so the same
+// markup fits the thumbnail, the full image and a printed report.
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type AnnotationTool = 'arrow' | 'circle' | 'freehand' | 'text';
+
+export type Annotation =
+  | { kind: 'arrow'; color: string; from: AnnotationPoint; to: AnnotationPoint }
+  // radius is a fraction of the image width
+  | { kind: 'circle'; color: string; center: AnnotationPoint; radius: number }
+  | { kind: 'freehand'; color: string; points: AnnotationPoint[] }
+  | { kind: 'text'; color: string; at: AnnotationPoint; text: string };
+
+export type EvidenceKind = 'photo' | 'video' | 'audio';
+
+// How many of each kind a checkpoint needs before it counts as answered
+export type EvidenceMinimum = Record<EvidenceKind, number>;
+
+// A photo or recorded clip attached to a checkpoint. Audio clips have no
+// width or height.
+export interface Evidence {
+  kind: EvidenceKind;
+  media: MediaRef;
+  // Markup over a photo; always empty for clips
+  annotations: Annotation[];
+  // Length of a recorded clip; null for photos
+  durationMs: number | null;
+  // AI pre-inspection of a photo; null for clips and photos not checked
+  aiInspection: AIPhotoInspection | null;
+}
+
+// A box on a photo, as fractions of its width and height from the top left
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What a provider makes of a checkpoint photo
+export interface PhotoVerdict {
+  verdict: 'Pass' | 'Fail';
+  confidence: number; // 0-1
+  // Suspected defect; null when the provider points at nothing
+  region: ImageRegion | null;
+  finding: string;
+}
+
+// Advisory only: the inspector's status on the checkpoint is the decision
+export interface AIPhotoInspection extends PhotoVerdict {
+  source: AIProviderId;
+  inspectedAt: string;
+}
+
+export type CheckpointType = 'pass_fail' | 'numeric' | 'text' | 'single_choice' | 'multi_choice' | 'boolean' | 'id_match';
+
+// Raw answer: number for numeric, string for text and single choice,
+// string[] for multi choice and ID match (one ID per reference), boolean for boolean
+export type CheckpointValue = number | string | string[] | boolean;
+
+// How a checkpoint is answered and judged. Only the fields for its type are
+// used; see services/checkpointSpec.ts for the evaluation rules.
+export interface CheckpointSpec {
+  type: CheckpointType;
+  unit?: string;          // numeric
+  lsl?: number | null;    // numeric lower spec limit, null for none
+  usl?: number | null;    // numeric upper spec limit, null for none
+  options?: string[];     // single_choice / multi_choice
+  passOptions?: string[]; // single: answer must be one of these; multi: all must be picked
+  passValue?: boolean;    // boolean: the answer that passes
+  references?: string[];  // id_match: where each copy of the device ID is read from
+}
+
+export type CheckDigitScheme = 'none' | 'luhn' | 'mod11' | 'mod37_36';
+
+// Rule a device ID must satisfy on entry. With several active formats, a
+// serial matching any one of them is accepted; with none, any ID is.
+export interface SerialFormat {
+  formatId: string;
+  label: string;
+  // Whole-serial regular expression; its first capture group, when present,
+  // is the part covered by the check digit
+  pattern: string;
+  checkDigit: CheckDigitScheme;
+  // Known good serial, checked against the rule when it is saved
+  example: string;
+  active: boolean;
+  updatedAt: string;
+  updatedBy: string;
 }
 
+export type InstrumentKind = 'serial' | 'hid' | 'simulator';
+
+// Instrument a measurement was read from. instrumentId is the station's asset
+// tag for it when one is set, otherwise an ID derived from the hardware.
+export interface InstrumentRef {
+  instrumentId: string;
+  kind: InstrumentKind;
+  name: string;
+}
+
+// One parsed value from an instrument (services/instruments.ts)
+export interface InstrumentReading {
+  value: number;
+  unit: string;
+  stable: boolean;
+  raw: string;
+  at: string;
+}
+
+export type DefectCategory = 'cosmetic' | 'functional' | 'labelling' | 'packaging';
+
+export type DefectSeverity = 'critical' | 'major' | 'minor';
+
+// Entry in the defect catalog. A code linked to no checkpoints may be picked
+// on any checkpoint. Codes are retired by deactivating them, never deleted.
+export interface DefectCode {
+  code: string;
+  description: string;
+  category: DefectCategory;
+  severity: DefectSeverity;
+  checkpointIds: string[];
+  active: boolean;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Defect as recorded on a failed checkpoint, copied so reports keep the
+// classification they were judged with
+export type DefectRef = Pick<DefectCode, 'code' | 'description' | 'category' | 'severity'>;
+
 export interface CheckpointResult {
   id: string;
   label: string;
+  mandatory: boolean;
+  // Copied from the template so the report can be judged and exported on its own
+  spec: CheckpointSpec;
+  value: CheckpointValue | null;
+  // Set when the value was captured from an instrument rather than typed
+  instrument: InstrumentRef | null;
   status: 'Pass' | 'Fail' | null;
-  image: string | null; // base64 or path
+  evidence: Evidence[];
+  // Copied from the template, like spec
+  minEvidence: EvidenceMinimum;
+  aiInspect: boolean;
+  // Defect codes picked on failure; reason holds the optional free-text notes
+  defects: DefectRef[];
   reason: string;
 }
 
@@ -23,14 +212,372 @@ export interface QCReport {
   stage: Stage;
   userId: string;
   deviceId: string;
+  templateId: string;
+  templateVersion: number;
+  // 1 for the first inspection of the device at this stage, +1 per re-inspection
+  attempt: number;
+  // Ticket this report re-inspects, or null on the first pass
+  reworkTicketId: string | null;
+  // Lot the device was sampled from, or null for per-unit inspection
+  lotId: string | null;
+  // Latest earlier report for the device at this stage, or null on its first inspection
+  previousReportId: string | null;
+  // Why a device was inspected again outside the rework loop, when the stage asks for one
+  repeatReason: string | null;
+  // Barcode type the device ID was scanned from, or null when it was typed
+  idSymbology: Symbology | null;
+  checkpoints: CheckpointResult[];
+}
+
+// Checklist in progress, saved as it is filled in so it survives a refresh,
+// a sleeping tablet or leaving the checklist. One per user, stage and device.
+export interface InspectionDraft {
+  draftId: string;
+  userId: string;
+  stage: StageId;
+  deviceId: string;
+  templateId: string;
+  templateVersion: number;
+  reworkTicketId: string | null;
+  lotId: string | null;
+  previousReportId: string | null;
+  repeatReason: string | null;
+  idSymbology: Symbology | null;
+  deviceImage: MediaRef | null;
   checkpoints: CheckpointResult[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface RepairRecord {
+  technicianId: string;
+  action: string;
+  notes: string;
+  repairedAt: string;
+}
+
+// Opened when a report fails. The device waits in 'failed' until a repair is
+// recorded ('repaired'), then the re-inspection closes the ticket. A failed
+// re-inspection closes it too and opens the next attempt's ticket.
+export interface ReworkTicket {
+  ticketId: string;
+  deviceId: string;
+  stage: StageId;
+  attempt: number; // attempt of the failing report
+  reportId: string;
+  failedCheckpoints: { id: string; label: string; defects: DefectRef[]; reason: string }[];
+  status: 'open' | 'repaired' | 'closed';
+  openedAt: string;
+  openedBy: string;
+  repair: RepairRecord | null;
+  reinspectionReportId: string | null;
+  outcome: 'passed' | 'failed' | null;
+  closedAt: string | null;
+}
+
+export interface TemplateCheckpoint {
+  id: string;
+  label: string;
+  mandatory: boolean;
+  helpText: string;
+  spec: CheckpointSpec;
+  minEvidence: EvidenceMinimum;
+  // Photos are sent for an AI pre-inspection as they are taken
+  aiInspect: boolean;
+}
+
+// What an inspector may change on a checklist built from the template.
+// Mandatory checkpoints can never be removed during an inspection.
+export interface InspectorChanges {
+  addCheckpoints: boolean;
+  renameCheckpoints: boolean;
+  removeOptional: boolean;
+}
+
+// One version of a checklist. Drafts are edited in place; publishing freezes
+// the version and the next edit starts a new draft with version + 1.
+export interface ChecklistTemplate {
+  templateId: string;
+  version: number;
+  name: string;
+  status: 'draft' | 'published';
+  checkpoints: TemplateCheckpoint[];
+  inspectorChanges: InspectorChanges;
+  updatedAt: string;
+  updatedBy: string;
+  publishedAt: string | null;
+  publishedBy: string | null;
+}
+
+// Who last changed a stage's status and when; used to resolve conflicts
+// between tablets deterministically (latest updatedAt wins, stationId breaks ties)
+export interface StatusVersion {
+  updatedAt: string;
+  stationId: string;
+}
+
+// What happens when a device that already has a report at a stage is entered
+// again outside the rework loop
+export type RepeatPolicy = 'block' | 'warn' | 'require_reason';
+
+export type Symbology = 'qr' | 'code128' | 'code39' | 'ean' | 'datamatrix';
+
+// One step of the inspection pipeline. Prerequisites may only point at stages
+// earlier in the order, which keeps the graph acyclic.
+export interface StageDefinition {
+  stageId: StageId;
+  label: string;
+  description: string;
+  order: number;
+  prerequisites: StageId[];
+  // An optional stage that was never run does not block the stages after it
+  optional: boolean;
+  // Inspectors may mark the stage skipped for a device, with a reason
+  skippable: boolean;
+  // Re-inspection after rework repeats only the checkpoints that failed
+  reinspectFailedOnly: boolean;
+  repeatPolicy: RepeatPolicy;
+  // Barcode types the scan screen looks for at this stage
+  symbologies: Symbology[];
+  templateId: string;
+  enabled: boolean;
+}
+
+export type InspectionLevel = 'S-1' | 'S-2' | 'S-3' | 'S-4' | 'I' | 'II' | 'III';
+
+// ISO 2859-1 single sampling plan, normal inspection (services/aql.ts).
+// planLetter differs from codeLetter when the AQL table's arrows moved the plan.
+export interface SamplingPlan {
+  level: InspectionLevel;
+  aql: number;
+  codeLetter: string;
+  planLetter: string;
+  sampleSize: number;
+  accept: number;  // Ac: accept with this many nonconforming units or fewer
+  reject: number;  // Re: reject at this many or more
+}
+
+// One sampled unit and the result of its first inspection in the lot
+export interface LotSample {
+  deviceId: string;
+  reportId: string;
+  result: 'passed' | 'failed';
+  inspectedAt: string;
+  inspectedBy: string;
+}
+
+// Production lot under acceptance sampling. Samples are inspected through the
+// normal per-unit flow at the lot's stage; the lot is decided as soon as the
+// nonconforming count reaches Re or the full sample is in.
+export interface Lot {
+  lotId: string;
+  product: string;
+  line: string;
+  lotSize: number;
+  stage: StageId;
+  plan: SamplingPlan;
+  // Serials drawn at random for sampling; empty when any unit may be picked
+  drawnSerials: string[];
+  samples: LotSample[];
+  status: 'open' | 'accepted' | 'rejected';
+  createdAt: string;
+  createdBy: string;
+  decidedAt: string | null;
+}
+
+// Master carton of packed devices. Sealed cartons can go onto a pallet and
+// no longer take or release devices.
+export interface Carton {
+  cartonId: string;
+  capacity: number;
+  serials: string[];
+  palletId: string | null;
+  status: 'open' | 'sealed';
+  createdAt: string;
+  createdBy: string;
+  sealedAt: string | null;
+}
+
+// Closed pallets are final and are what the shipping manifest is built from
+export interface Pallet {
+  palletId: string;
+  cartonIds: string[];
+  status: 'open' | 'closed';
+  createdAt: string;
+  createdBy: string;
+  closedAt: string | null;
 }
 
+// 'failed' waits for a repair; 'repaired' waits for re-inspection
+export type StageStatus = 'pending' | 'completed' | 'failed' | 'repaired' | 'skipped';
+
 export interface DeviceStatus {
   deviceId: string;
-  fqcStatus: 'pending' | 'completed' | 'failed';
-  packagingStatus: 'pending' | 'completed' | 'failed';
+  // Stages missing from the map are pending
+  stages: Record<StageId, StageStatus>;
   lastUpdated: string;
+  versions?: Record<StageId, StatusVersion>;
+}
+
+// A single stage status change as it travels through the sync outbox
+export interface DeviceStatusChange extends StatusVersion {
+  deviceId: string;
+  stage: StageId;
+  status: StageStatus;
+}
+
+export type OutboxEntry =
+  | OutboxEntryBase & { kind: 'report'; payload: QCReport }
+  | OutboxEntryBase & { kind: 'deviceStatus'; payload: DeviceStatusChange };
+
+interface OutboxEntryBase {
+  id: string;
+  state: 'pending' | 'synced' | 'failed';
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  createdAt: string;
+  syncedAt?: string;
+  lastError?: string;
+}
+
+export interface SyncStats {
+  pending: number;
+  synced: number;
+  failed: number;
+  enabled: boolean; // false when no QC_SYNC_URL is configured
+  online: boolean;
+}
+
+// A failed checkpoint the AI assistant is asked about
+export interface FailureReasonRequest {
+  checkpointLabel: string;
+  stage: string;
+}
+
+export type AIProviderId = 'proxy' | 'gemini' | 'rules';
+
+export interface AISuggestion {
+  reason: string;
+  source: AIProviderId;
+}
+
+// A checkpoint photo the AI assistant is asked to judge
+export interface PhotoInspectionRequest {
+  checkpointLabel: string;
+  stage: string;
+  image: Blob;
+}
+
+// One way of answering the assistant. Providers throw when they cannot answer;
+// timeouts, caching and the offline fallback live in services/aiAssistant.ts.
+export interface AIProvider {
+  id: AIProviderId;
+  suggestFailureReason(request: FailureReasonRequest, signal: AbortSignal): Promise<string>;
+  // The provider's raw answer; the assistant checks it is a PhotoVerdict
+  inspectPhoto(request: PhotoInspectionRequest, signal: AbortSignal): Promise<unknown>;
+}
+
+export type AuditAction =
+  | 'auth.login' | 'auth.login_failed' | 'auth.lockout' | 'auth.logout' | 'auth.session_timeout' | 'auth.password_change'
+  | 'user.create' | 'user.update' | 'user.enable' | 'user.disable' | 'user.delete' | 'user.unlock'
+  | 'checkpoint.add' | 'checkpoint.rename' | 'checkpoint.delete' | 'checkpoint.annotate' | 'checkpoint.ai_review'
+  | 'report.submit' | 'report.export'
+  | 'template.save' | 'template.publish' | 'template.discard'
+  | 'pipeline.update' | 'stage.skip'
+  | 'rework.open' | 'rework.repair' | 'rework.close'
+  | 'defects.update' | 'serials.update'
+  | 'draft.resume' | 'draft.discard' | 'draft.expire'
+  | 'lot.create' | 'lot.decide'
+  | 'carton.create' | 'carton.pack' | 'carton.unpack' | 'carton.seal'
+  | 'pallet.create' | 'pallet.load' | 'pallet.unload' | 'pallet.close';
+
+// What a caller supplies when recording an action
+export interface AuditEvent {
+  actor: string;
+  action: AuditAction;
+  target: { type: 'user' | 'checkpoint' | 'report' | 'session' | 'template' | 'stage' | 'rework' | 'defect' | 'lot' | 'carton' | 'pallet' | 'serialFormat' | 'draft'; id: string };
+  before?: unknown;
+  after?: unknown;
+  context?: { deviceId?: string; stage?: Stage; reportId?: string; mandatory?: boolean; templateId?: string; templateVersion?: number; lotId?: string };
+}
+
+// Stored entry. Each hash covers the entry plus the previous entry's hash,
+// so editing or removing any record breaks every hash after it.
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  stationId: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  checked: number;
+  brokenAtSeq?: number;
+  problem?: string;
+}
+
+// Collections holding QC data; each is versioned by the migration runner
+export type DataCollection = 'users' | 'reports' | 'deviceStatuses' | 'templates' | 'stages' | 'reworkTickets' | 'defectCodes' | 'lots' | 'cartons' | 'pallets' | 'serialFormats' | 'drafts';
+
+// Collections every storage adapter must be able to hold
+export type CollectionName = DataCollection | 'meta' | 'quarantine' | 'audit';
+
+export const DATA_COLLECTIONS: DataCollection[] = ['users', 'reports', 'deviceStatuses', 'templates', 'stages', 'reworkTickets', 'defectCodes', 'lots', 'cartons', 'pallets', 'serialFormats', 'drafts'];
+
+export const COLLECTIONS: CollectionName[] = [...DATA_COLLECTIONS, 'meta', 'quarantine', 'audit'];
+
+// Low-level keyed record store. Adapters know nothing about QC rules;
+// those live in the repository built on top of them (see storage.ts).
+export interface StorageAdapter {
+  name: string;
+  list<T>(collection: CollectionName): Promise<T[]>;
+  entries<T>(collection: CollectionName): Promise<[string, T][]>;
+  get<T>(collection: CollectionName, key: string): Promise<T | null>;
+  put<T>(collection: CollectionName, key: string, value: T): Promise<void>;
+  // Writes only if the key is free; false when another writer got there first
+  create<T>(collection: CollectionName, key: string, value: T): Promise<boolean>;
+  // The entry with the highest key, without reading the whole collection
+  last<T>(collection: CollectionName): Promise<[string, T] | null>;
+  remove(collection: CollectionName, key: string): Promise<void>;
+  // Photo and clip bodies behind a MediaRef, kept apart from the records
+  putMedia(mediaId: string, variant: MediaVariant, blob: Blob): Promise<void>;
+  getMedia(mediaId: string, variant: MediaVariant): Promise<Blob | null>;
+  removeMedia(mediaId: string): Promise<void>;
+}
+
+// Stored under the collection's name in the 'meta' collection
+export interface CollectionMeta {
+  collection: DataCollection;
+  schemaVersion: number;
+  migratedAt: string;
+}
+
+// A record that failed validation, set aside instead of crashing the app
+export interface QuarantinedRecord {
+  id: string;
+  collection: DataCollection;
+  key: string;
+  reasons: string[];
+  raw: unknown;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export interface MigrationReport {
+  startedAt: string;
+  finishedAt: string;
+  targetVersion: number;
+  collections: {
+    collection: DataCollection;
+    fromVersion: number;
+    toVersion: number;
+    applied: string[]; // descriptions of the migrations that ran
+    migrated: number;
+    quarantined: number;
+  }[];
+  errors: string[];
 }
 
 export enum AppStep {
@@ -41,5 +588,14 @@ export enum AppStep {
   CHECKLIST,
   SUCCESS,
   ADMIN,
-  DASHBOARD
+  DASHBOARD,
+  CHANGE_PASSWORD,
+  AUDIT_LOG,
+  TEMPLATES,
+  PIPELINE,
+  REWORK,
+  DEFECTS,
+  LOTS,
+  AGGREGATION,
+  SERIAL_FORMATS
 }
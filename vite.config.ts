@@ -12,8 +12,14 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The key is only bundled for the direct provider; tablets use the AI proxy (server/ai-proxy.js)
+        'process.env.GEMINI_API_KEY': JSON.stringify((env.QC_AI_PROVIDER || '').toLowerCase() === 'gemini' ? env.GEMINI_API_KEY : ''),
+        'process.env.QC_AI_PROVIDER': JSON.stringify(env.QC_AI_PROVIDER),
+        'process.env.QC_AI_URL': JSON.stringify(env.QC_AI_URL),
+        'process.env.QC_STORAGE_BACKEND': JSON.stringify(env.QC_STORAGE_BACKEND),
+        'process.env.QC_API_URL': JSON.stringify(env.QC_API_URL),
+        'process.env.QC_SYNC_URL': JSON.stringify(env.QC_SYNC_URL),
+        'process.env.QC_DRAFT_EXPIRY_HOURS': JSON.stringify(env.QC_DRAFT_EXPIRY_HOURS)
       },
       resolve: {
         alias: {